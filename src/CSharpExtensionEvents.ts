@@ -0,0 +1,74 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+/**
+ * The events other extensions can subscribe to with `registerEventSink` on the exports of this extension, whichever
+ * language server is used. The events of a version never change in an incompatible way: members are only added to
+ * them, and changes that would break the sinks written for a version come with a new version.
+ */
+export type CSharpEventSink = CSharpEventSinkV1;
+
+export type LanguageServerKind = 'roslyn' | 'omnisharp';
+
+/**
+ * - `starting`: the server is being launched.
+ * - `started`: the server is running; projects may still be loading.
+ * - `projectsLoaded`: the server finished loading the projects of the workspace. Only the Roslyn server reports it.
+ * - `stopped`: the server was stopped, e.g. to restart it.
+ * - `errored`: the server stopped without being asked to, e.g. because it crashed. Only the Roslyn server reports it.
+ */
+export type LanguageServerState = 'starting' | 'started' | 'projectsLoaded' | 'stopped' | 'errored';
+
+export interface ServerStateChangedEventV1 {
+    server: LanguageServerKind;
+    state: LanguageServerState;
+}
+
+export interface ProjectEventV1 {
+    server: LanguageServerKind;
+
+    /** The absolute path to the project file. */
+    projectPath: string;
+}
+
+/**
+ * The number of diagnostics in the C# and Razor files of the workspace, reported when they change, at most once a
+ * second.
+ */
+export interface DiagnosticsSummaryEventV1 {
+    server: LanguageServerKind;
+    errorCount: number;
+    warningCount: number;
+    infoCount: number;
+
+    /** The number of files with at least one diagnostic. */
+    fileCount: number;
+}
+
+/**
+ * A request that completed successfully. The OmniSharp server reports all the requests it gets. For the Roslyn server,
+ * the extension times the requests it makes and the requests VS Code makes for its features, such as completion,
+ * hover or diagnostics, but not those that stream results, such as workspace diagnostics.
+ */
+export interface RequestCompletedEventV1 {
+    server: LanguageServerKind;
+
+    /** The OmniSharp command or the LSP method of the request, e.g. '/codecheck' or 'textDocument/completion'. */
+    method: string;
+    durationMs: number;
+}
+
+/**
+ * Handles the events of version 1. Handlers are optional, so sinks only implement the events they need. Exceptions
+ * thrown by handlers are ignored.
+ */
+export interface CSharpEventSinkV1 {
+    readonly version: 1;
+    onServerStateChanged?(event: ServerStateChangedEventV1): void;
+    onProjectLoaded?(event: ProjectEventV1): void;
+    onProjectUnloaded?(event: ProjectEventV1): void;
+    onDiagnosticsSummary?(event: DiagnosticsSummaryEventV1): void;
+    onRequestCompleted?(event: RequestCompletedEventV1): void;
+}
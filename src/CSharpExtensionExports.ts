@@ -7,6 +7,8 @@ import { Advisor } from "./features/diagnosticsProvider";
 import { EventStream } from "./EventStream";
 import TestManager from "./features/dotnetTest";
 import { GlobalBrokeredServiceContainer } from "@microsoft/servicehub-framework";
+import { Disposable } from "vscode";
+import { CSharpEventSink } from "./CSharpExtensionEvents";
 
 export interface OmnisharpExtensionExports {
     initializationFinished: () => Promise<void>;
@@ -14,10 +16,17 @@ export interface OmnisharpExtensionExports {
     getTestManager: () => Promise<TestManager>;
     eventStream: EventStream;
     logDirectory: string;
+    registerEventSink: (sink: CSharpEventSink) => Disposable;
 }
 
 export interface CSharpExtensionExports {
     initializationFinished: () => Promise<void>;
     logDirectory: string;
     profferBrokeredServices: (container: GlobalBrokeredServiceContainer) => void;
+
+    /**
+     * Registers a sink for the events of the language server, like the projects it loads. The sink declares the
+     * version of the events it handles, and registering throws if this extension doesn't support that version.
+     */
+    registerEventSink: (sink: CSharpEventSink) => Disposable;
 }
@@ -43,6 +43,29 @@ export async function mapAsync<T1, T2>(
     return Promise.all(array.map(selector));
 }
 
+/**
+ * Like mapAsync, but with at most `concurrency` selectors running at the same time. The results are in the order of
+ * the array, regardless of the order the selectors complete in.
+ */
+export async function mapAsyncWithConcurrency<T1, T2>(
+    array: T1[],
+    concurrency: number,
+    selector: (value: T1, index: number, array: T1[]) => Promise<T2>,
+): Promise<T2[]> {
+    const results = new Array<T2>(array.length);
+    let nextIndex = 0;
+    const worker = async () => {
+        while (nextIndex < array.length) {
+            const index = nextIndex++;
+            results[index] = await selector(array[index], index, array);
+        }
+    };
+
+    const workers = Array.from({ length: Math.max(Math.min(concurrency, array.length), 1) }, worker);
+    await Promise.all(workers);
+    return results;
+}
+
 export async function filterAsync<T>(
     array: T[],
     predicate: (value: T, index: number, array: T[]) => Promise<boolean>,
@@ -14,6 +14,9 @@ import { getRuntimeDependencyPackageWithId } from '../tools/RuntimeDependencyPac
 import { getDotnetInfo } from '../utils/getDotnetInfo';
 import { Options } from '../shared/options';
 import { RemoteAttachPicker } from '../features/processPicker';
+import { attachToContainerProcess } from '../features/containerAttach';
+import { ProcessReattacher } from '../features/processNameAttach';
+import { DebuggerDiagnostics } from './debuggerDiagnostics';
 import CompositeDisposable from '../CompositeDisposable';
 import { BaseVsDbgConfigurationProvider } from '../shared/configurationProvider';
 import OptionProvider from '../shared/observers/OptionProvider';
@@ -60,12 +63,30 @@ export async function activate(thisExtension: vscode.Extension<any>, context: vs
         );
     }));
 
+    // Register a command to attach to a process in a local Docker or Podman container, without writing a pipeTransport.
+    disposables.add(vscode.commands.registerCommand('csharp.attachToContainerProcess', async () => attachToContainerProcess(platformInformation, csharpOutputChannel)));
+
     const factory = new DebugAdapterExecutableFactory(debugUtil, platformInformation, eventStream, thisExtension.packageJSON, thisExtension.extensionPath, options);
     /** 'clr' type does not have a intial configuration provider, but we need to register it to support the common debugger features listed in {@link BaseVsDbgConfigurationProvider} */
     context.subscriptions.push(vscode.debug.registerDebugConfigurationProvider('clr', new BaseVsDbgConfigurationProvider(platformInformation, optionProvider, csharpOutputChannel)));
     disposables.add(vscode.debug.registerDebugAdapterDescriptorFactory('coreclr', factory));
     disposables.add(vscode.debug.registerDebugAdapterDescriptorFactory('clr', factory));
 
+    // Attach again to processes attached to by name with reattachOnRestart, e.g. when dotnet watch restarts them.
+    const reattacher = new ProcessReattacher();
+    disposables.add(reattacher);
+    disposables.add(vscode.debug.registerDebugAdapterTrackerFactory('coreclr', reattacher));
+    disposables.add(vscode.debug.registerDebugAdapterTrackerFactory('clr', reattacher));
+
+    // Report processes that exit with an error before the debugger stops in them, using the debugger events.
+    const debuggerDiagnosticsChannel = vscode.window.createOutputChannel('.NET Debugger Diagnostics');
+    const debuggerDiagnostics = new DebuggerDiagnostics(debuggerDiagnosticsChannel);
+    disposables.add(debuggerDiagnosticsChannel);
+    disposables.add(debuggerDiagnostics);
+    disposables.add(vscode.debug.registerDebugAdapterTrackerFactory('coreclr', debuggerDiagnostics));
+    disposables.add(vscode.debug.registerDebugAdapterTrackerFactory('clr', debuggerDiagnostics));
+    _debuggerDiagnostics = debuggerDiagnostics;
+
     context.subscriptions.push(disposables);
 }
 
@@ -240,4 +261,13 @@ export function initializeBrokeredServicePipeName(csDevKitPipeName: string) {
  */
 export function getBrokeredServicePipeName(): string | undefined {
     return _brokeredServicePipeName;
+}
+
+let _debuggerDiagnostics: DebuggerDiagnostics | undefined;
+
+/**
+ * Fetch the diagnostics that listen to the debugger events of debug sessions, once the debugger is activated.
+ */
+export function getDebuggerDiagnostics(): DebuggerDiagnostics | undefined {
+    return _debuggerDiagnostics;
 }
\ No newline at end of file
@@ -0,0 +1,152 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { DebuggerEventsListener } from './debuggerEventsListener';
+import { DebuggerEventsSummary } from './debuggerEventsSummary';
+
+interface SessionDiagnostics {
+    listener: DebuggerEventsListener;
+    summary: DebuggerEventsSummary;
+}
+
+interface PendingSessionDiagnostics extends SessionDiagnostics {
+    timeout: NodeJS.Timeout;
+}
+
+// How long a listener waits for its session to start, in case starting the session failed or was cancelled.
+const pendingSessionTimeout = 60 * 1000;
+
+/**
+ * Listens to the debugger events of debug sessions to report target processes that exit with an error before the
+ * debugger stops in them, and writes a summary of how the processes ended and the exceptions they threw to an
+ * output channel.
+ */
+export class DebuggerDiagnostics implements vscode.DebugAdapterTrackerFactory, vscode.Disposable {
+    private _nextListenerId = 0;
+
+    // The sessions whose configuration was resolved, by the pipe of their listener, until their debug adapter starts.
+    private readonly _pendingSessions = new Map<string, PendingSessionDiagnostics>();
+    private readonly _sessions = new Map<string, SessionDiagnostics>();
+    private readonly _startListener: vscode.Disposable;
+    private readonly _terminateListener: vscode.Disposable;
+
+    public constructor(private readonly _channel: vscode.OutputChannel) {
+        this._startListener = vscode.debug.onDidStartDebugSession(session => this.onDidStartDebugSession(session));
+        this._terminateListener = vscode.debug.onDidTerminateDebugSession(async session => this.onDidTerminateDebugSession(session));
+    }
+
+    /**
+     * Starts a listener for the debugger events of a configuration that is about to start, and returns the name of
+     * its pipe to set as the 'debuggerEventsPipeName' of the configuration, or undefined if it can't listen.
+     */
+    public async listen(): Promise<string | undefined> {
+        const listener = new DebuggerEventsListener(`DebugEvents${this._nextListenerId++}`);
+        try {
+            await listener.start();
+        }
+        catch (err) {
+            listener.dispose();
+            return undefined;
+        }
+
+        const summary = new DebuggerEventsSummary();
+        listener.onDidReceiveEvent(event => summary.add(event));
+        const pipePath = listener.pipePath;
+        const timeout = setTimeout(() => this.disposePendingSession(pipePath), pendingSessionTimeout);
+        this._pendingSessions.set(pipePath, { listener, summary, timeout });
+        return pipePath;
+    }
+
+    public createDebugAdapterTracker(session: vscode.DebugSession): vscode.DebugAdapterTracker | undefined {
+        const pipePath: string | undefined = session.configuration.debuggerEventsPipeName;
+        const diagnostics = pipePath !== undefined ? this._pendingSessions.get(pipePath) : undefined;
+        if (pipePath === undefined || diagnostics === undefined) {
+            return undefined;
+        }
+
+        this._pendingSessions.delete(pipePath);
+        clearTimeout(diagnostics.timeout);
+        this._sessions.set(session.id, { listener: diagnostics.listener, summary: diagnostics.summary });
+        return {
+            onDidSendMessage: (message: any) => {
+                if (message.type !== 'event') {
+                    return;
+                }
+
+                if (message.event === 'stopped') {
+                    diagnostics.summary.hasStopped = true;
+                }
+                else if (message.event === 'exited' && diagnostics.summary.exitCode === undefined) {
+                    // Debuggers that don't send the processExited event still report the exit code to VS Code.
+                    diagnostics.summary.exitCode = message.body?.exitCode;
+                }
+            }
+        };
+    }
+
+    public dispose(): void {
+        this._startListener.dispose();
+        this._terminateListener.dispose();
+        for (const pipePath of [...this._pendingSessions.keys()]) {
+            this.disposePendingSession(pipePath);
+        }
+
+        for (const diagnostics of this._sessions.values()) {
+            diagnostics.listener.dispose();
+        }
+
+        this._pendingSessions.clear();
+        this._sessions.clear();
+    }
+
+    private onDidStartDebugSession(session: vscode.DebugSession): void {
+        // The tracker is created before the session starts, so a listener still pending for the session isn't used.
+        const pipePath: string | undefined = session.configuration.debuggerEventsPipeName;
+        if (pipePath !== undefined) {
+            this.disposePendingSession(pipePath);
+        }
+    }
+
+    private disposePendingSession(pipePath: string): void {
+        const diagnostics = this._pendingSessions.get(pipePath);
+        if (diagnostics !== undefined) {
+            this._pendingSessions.delete(pipePath);
+            clearTimeout(diagnostics.timeout);
+            diagnostics.listener.dispose();
+        }
+    }
+
+    private async onDidTerminateDebugSession(session: vscode.DebugSession): Promise<void> {
+        const diagnostics = this._sessions.get(session.id);
+        if (diagnostics === undefined) {
+            return;
+        }
+
+        this._sessions.delete(session.id);
+        diagnostics.listener.dispose();
+
+        const summary = diagnostics.summary;
+        const lines = summary.describe(session.name);
+        if (lines.length === 0) {
+            return;
+        }
+
+        this._channel.appendLine(`[${new Date().toLocaleTimeString()}] ${lines[0]}`);
+        lines.slice(1).forEach(line => this._channel.appendLine(line));
+        this._channel.appendLine('');
+
+        if (session.configuration.request === 'launch' && summary.exitedWithError && !summary.hasStopped) {
+            const hasBreakpoints = vscode.debug.breakpoints.some(breakpoint => breakpoint.enabled);
+            const message = hasBreakpoints
+                ? `The program '${session.name}' exited with code ${summary.exitCode} before hitting a breakpoint.`
+                : `The program '${session.name}' exited with code ${summary.exitCode}.`;
+            const showDiagnostics = 'Show Diagnostics';
+            if (await vscode.window.showWarningMessage(message, showDiagnostics) === showDiagnostics) {
+                this._channel.show(true);
+            }
+        }
+    }
+}
@@ -0,0 +1,119 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { deleteIfExists, getUnixTempDirectory } from '../common';
+import { DebuggerEventsProtocol } from './debuggerEventsProtocol';
+
+/**
+ * Listens on a pipe for the events the debugger sends when the pipe's name is set as the 'debuggerEventsPipeName'
+ * of a launch or attach configuration.
+ */
+export class DebuggerEventsListener implements vscode.Disposable {
+    private readonly _onDidReceiveEvent = new vscode.EventEmitter<DebuggerEventsProtocol.DebuggerEvent>();
+    private readonly _onDidDisconnect = new vscode.EventEmitter<void>();
+    private readonly _onWarning = new vscode.EventEmitter<string>();
+    private _serverSocket: net.Server | undefined;
+    private _isClosed = false;
+
+    public readonly onDidReceiveEvent = this._onDidReceiveEvent.event;
+
+    /** The debugger closed its connection, which it does when the debug session ends. */
+    public readonly onDidDisconnect = this._onDidDisconnect.event;
+
+    /** Invalid events and communication errors, which don't stop the listener. */
+    public readonly onWarning = this._onWarning.event;
+
+    public readonly pipePath: string;
+
+    /**
+     * @param pipeName Distinguishes the pipe from the pipes of other listeners of this process.
+     */
+    public constructor(pipeName: string) {
+        if (os.platform() === 'win32') {
+            this.pipePath = `\\\\.\\pipe\\Microsoft.VSCode.CSharpExt.${pipeName}-${process.pid}`;
+        }
+        else {
+            this.pipePath = path.join(getUnixTempDirectory(), `ms-dotnettools.csharp-${pipeName}-${process.pid}`);
+        }
+    }
+
+    public async start(): Promise<void> {
+        const serverSocket = net.createServer(socket => {
+            let remainder = Buffer.alloc(0);
+            socket.on('data', data => {
+                const split = DebuggerEventsProtocol.splitPackets(Buffer.concat([remainder, data]));
+                remainder = split.remainder;
+                for (const packet of split.packets) {
+                    let event: DebuggerEventsProtocol.DebuggerEvent;
+                    try {
+                        event = DebuggerEventsProtocol.decodePacket(packet);
+                    }
+                    catch (e) {
+                        this._onWarning.fire("Invalid event received from debugger");
+                        continue;
+                    }
+
+                    this._onDidReceiveEvent.fire(event);
+                }
+            });
+
+            socket.on('end', () => {
+                this._onDidDisconnect.fire();
+            });
+        });
+
+        // We need the local serverSocket variable for the promise to capture below,
+        // or else TypeScript will warn that the instance variable could be undefined.
+        this._serverSocket = serverSocket;
+
+        await this.removeSocketFileIfExists();
+        return new Promise((resolve, reject) => {
+            serverSocket.on('error', err => {
+                if (!serverSocket.listening) {
+                    reject(err.message);
+                } else {
+                    this._onWarning.fire(`Communications error on debugger event channel. ${err.message}`);
+                }
+            });
+
+            serverSocket.listen(this.pipePath, () => {
+                resolve();
+            });
+        });
+    }
+
+    public close(): void {
+        if (this._isClosed) {
+            return;
+        }
+
+        this._isClosed = true;
+
+        if (this._serverSocket !== undefined) {
+            this._serverSocket.close();
+        }
+    }
+
+    public dispose(): void {
+        this.close();
+        this._onDidReceiveEvent.dispose();
+        this._onDidDisconnect.dispose();
+        this._onWarning.dispose();
+    }
+
+    private async removeSocketFileIfExists(): Promise<void> {
+        if (os.platform() === 'win32') {
+            // Win32 doesn't use the file system for pipe names
+            return Promise.resolve();
+        }
+        else {
+            return deleteIfExists(this.pipePath);
+        }
+    }
+}
@@ -16,6 +16,15 @@ export namespace DebuggerEventsProtocol {
         export const ProcessLaunched = "processLaunched";
         // Debug session is ending
         export const DebuggingStopped = "debuggingStopped";
+        // A module was loaded into the target process.
+        // The ModuleLoadedEvent interface details the event payload.
+        export const ModuleLoaded = "moduleLoaded";
+        // An exception was thrown in the target process, whether or not it is handled.
+        // The ExceptionThrownEvent interface details the event payload.
+        export const ExceptionThrown = "exceptionThrown";
+        // The target process exited.
+        // The ProcessExitedEvent interface details the event payload.
+        export const ProcessExited = "processExited";
     }
 
     export interface DebuggerEvent {
@@ -28,6 +37,41 @@ export namespace DebuggerEventsProtocol {
         targetProcessId: number;
     }
 
+    export interface ModuleLoadedEvent extends DebuggerEvent {
+        // File name of the module, e.g. 'System.Private.CoreLib.dll'
+        moduleName: string;
+        // Full path of the module, if it was loaded from a file
+        modulePath?: string;
+    }
+
+    export interface ExceptionThrownEvent extends DebuggerEvent {
+        // Full name of the exception type, e.g. 'System.IO.FileNotFoundException'
+        exceptionType: string;
+        message: string;
+        // File name of the module the exception was thrown from, if known
+        moduleName?: string;
+        // Whether no handler was found for the exception, which is otherwise a first-chance exception
+        isUnhandled: boolean;
+    }
+
+    export interface ProcessExitedEvent extends DebuggerEvent {
+        targetProcessId: number;
+        exitCode: number;
+    }
+
+    // Splits the data received from the debugger into packets. Data may hold several packets, and may end with the start
+    // of a packet which the next data completes, which is returned as the remainder.
+    export function splitPackets(data: Buffer): { packets: Buffer[], remainder: Buffer } {
+        const packets: Buffer[] = [];
+        let start = 0;
+        for (let end = data.indexOf(10 /*\n*/); end >= 0; end = data.indexOf(10 /*\n*/, start)) {
+            packets.push(data.subarray(start, end + 1));
+            start = end + 1;
+        }
+
+        return { packets, remainder: data.subarray(start) };
+    }
+
     // Decodes a packet received from the debugger into an event
     export function decodePacket(packet: Buffer): DebuggerEvent {
         // Verify the message ends in a newline
@@ -0,0 +1,120 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { DebuggerEventsProtocol } from './debuggerEventsProtocol';
+
+export interface ExceptionSummary {
+    exceptionType: string;
+
+    /** The message of the first exception of the type. */
+    message: string;
+    count: number;
+    isUnhandled: boolean;
+}
+
+/**
+ * Collects the debugger events of a debug session, to explain how the target process ended.
+ */
+export class DebuggerEventsSummary {
+    public targetProcessId: number | undefined;
+    public exitCode: number | undefined;
+    public moduleCount = 0;
+    public lastLoadedModule: string | undefined;
+
+    /** Whether the target process stopped at a breakpoint, exception or step, which the events don't tell. */
+    public hasStopped = false;
+
+    private readonly _exceptions = new Map<string, ExceptionSummary>();
+
+    public add(event: DebuggerEventsProtocol.DebuggerEvent): void {
+        switch (event.eventType) {
+            case DebuggerEventsProtocol.EventType.ProcessLaunched:
+                this.targetProcessId = (<DebuggerEventsProtocol.ProcessLaunchedEvent>event).targetProcessId;
+                break;
+
+            case DebuggerEventsProtocol.EventType.ModuleLoaded:
+                this.moduleCount++;
+                this.lastLoadedModule = (<DebuggerEventsProtocol.ModuleLoadedEvent>event).moduleName;
+                break;
+
+            case DebuggerEventsProtocol.EventType.ExceptionThrown:
+                this.addException(<DebuggerEventsProtocol.ExceptionThrownEvent>event);
+                break;
+
+            case DebuggerEventsProtocol.EventType.ProcessExited:
+                const processExitedEvent = <DebuggerEventsProtocol.ProcessExitedEvent>event;
+                this.targetProcessId = processExitedEvent.targetProcessId;
+                this.exitCode = processExitedEvent.exitCode;
+                break;
+        }
+    }
+
+    /**
+     * The exceptions by type, the most frequent first. Unhandled exceptions are summarized apart from handled
+     * exceptions of the same type.
+     */
+    public get exceptions(): ExceptionSummary[] {
+        return [...this._exceptions.values()].sort((a, b) => b.count - a.count);
+    }
+
+    public get exitedWithError(): boolean {
+        return this.exitCode !== undefined && this.exitCode !== 0;
+    }
+
+    /**
+     * Describes how the process of the session ended and which exceptions it threw, or returns no lines if it exited
+     * successfully without exceptions.
+     */
+    public describe(sessionName: string): string[] {
+        const exceptions = this.exceptions;
+        if (!this.exitedWithError && exceptions.length === 0) {
+            return [];
+        }
+
+        const process = this.targetProcessId !== undefined ? `'${sessionName}' (process ${this.targetProcessId})` : `'${sessionName}'`;
+        const lines = [this.exitCode !== undefined ? `${process} exited with code ${formatExitCode(this.exitCode)}.` : `${process} ended.`];
+        if (this.exitedWithError && !this.hasStopped) {
+            lines.push('The process exited before the debugger stopped in it.');
+        }
+
+        if (this.lastLoadedModule !== undefined) {
+            lines.push(`Modules loaded: ${this.moduleCount}, the last one being ${this.lastLoadedModule}.`);
+        }
+
+        const unhandledExceptions = exceptions.filter(exception => exception.isUnhandled);
+        if (unhandledExceptions.length > 0) {
+            lines.push('Unhandled exceptions:');
+            lines.push(...unhandledExceptions.map(formatException));
+        }
+
+        const firstChanceExceptions = exceptions.filter(exception => !exception.isUnhandled);
+        if (firstChanceExceptions.length > 0) {
+            lines.push('First-chance exceptions:');
+            lines.push(...firstChanceExceptions.map(formatException));
+        }
+
+        return lines;
+    }
+
+    private addException(event: DebuggerEventsProtocol.ExceptionThrownEvent): void {
+        const key = `${event.exceptionType}|${event.isUnhandled}`;
+        const exception = this._exceptions.get(key);
+        if (exception !== undefined) {
+            exception.count++;
+        }
+        else {
+            this._exceptions.set(key, { exceptionType: event.exceptionType, message: event.message, count: 1, isUnhandled: event.isUnhandled });
+        }
+    }
+}
+
+// Exit codes of crashes are easier to recognize in hexadecimal, e.g. 0xC0000005 for an access violation on Windows.
+function formatExitCode(exitCode: number): string {
+    return exitCode === 0 ? '0' : `${exitCode} (0x${(exitCode >>> 0).toString(16).toUpperCase()})`;
+}
+
+function formatException(exception: ExceptionSummary): string {
+    return `    ${exception.count} × ${exception.exceptionType}: ${exception.message}`;
+}
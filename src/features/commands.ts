@@ -51,6 +51,8 @@ export default function registerCommands(
 
     disposable.add(vscode.commands.registerCommand('csharp.showDecompilationTerms', async () => showDecompilationTerms(context, server, optionProvider)));
 
+    disposable.add(vscode.commands.registerCommand('csharp.showRequestQueueStats', async () => showRequestQueueStats(server)));
+
     return new CompositeDisposable(disposable);
 }
 
@@ -61,6 +63,22 @@ async function showDecompilationTerms(context: vscode.ExtensionContext, server:
     await restartOmniSharp(context, server, optionProvider);
 }
 
+async function showRequestQueueStats(server: OmniSharpServer) {
+    const stats = server.getRequestQueueStats();
+    if (stats.length === 0) {
+        vscode.window.showInformationMessage('OmniSharp is not running or does not queue requests.');
+        return;
+    }
+
+    const items = stats.map(queue => ({
+        label: queue.name,
+        description: `${queue.pending} pending, ${queue.waiting}/${queue.maxSize} in flight`,
+        detail: `Average queue time: ${Math.round(queue.averageQueueTime)} ms, average response time: ${Math.round(queue.averageResponseTime)} ms, ${queue.completed} completed, ${queue.superseded} superseded`
+    }));
+
+    await vscode.window.showQuickPick(items, { placeHolder: 'OmniSharp request queues' });
+}
+
 async function restartOmniSharp(context: vscode.ExtensionContext, server: OmniSharpServer, optionProvider: OptionProvider) {
     // Update decompilation authorization.
     server.decompilationAuthorized = await getDecompilationAuthorization(context, optionProvider);
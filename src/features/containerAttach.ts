@@ -0,0 +1,201 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as child_process from 'child_process';
+import * as os from 'os';
+import * as vscode from 'vscode';
+import { PlatformInformation } from '../shared/platform';
+import { AttachItem, getProcessIdsFromDiagnosticsEndpoints, RemoteAttachPicker } from './processPicker';
+
+export type ContainerEngine = 'docker' | 'podman';
+
+export interface Container {
+    engine: ContainerEngine;
+    id: string;
+    name: string;
+    image: string;
+    status: string;
+}
+
+const containerEngines: ContainerEngine[] = ['docker', 'podman'];
+
+/**
+ * Where the debugger is installed in containers, as documented for attaching to containers with a pipe transport.
+ */
+export const containerDebuggerPath = '/vsdbg/vsdbg';
+
+// Downloads the debugger with whichever of curl and wget the image has.
+const installDebuggerScript = `if command -v curl > /dev/null; then curl -sSL https://aka.ms/getvsdbgsh; else wget -qO- https://aka.ms/getvsdbgsh; fi | sh /dev/stdin -v latest -l ${containerDebuggerPath.substring(0, containerDebuggerPath.lastIndexOf('/'))}`;
+
+// Both engines accept Go templates; fields are separated by tabs, which names and images can't contain.
+const containerListFormat = '{{.ID}}\t{{.Names}}\t{{.Image}}\t{{.Status}}';
+
+/**
+ * Lets the user pick a running container and a .NET process in it, installs the debugger into the container if it
+ * isn't there yet, and attaches to the process through 'docker exec' or 'podman exec'.
+ */
+export async function attachToContainerProcess(platformInfo: PlatformInformation, channel: vscode.OutputChannel): Promise<void> {
+    try {
+        const containers = await listContainers();
+        if (containers.length === 0) {
+            vscode.window.showErrorMessage('No running Docker or Podman containers were found.');
+            return;
+        }
+
+        const containerItem = await vscode.window.showQuickPick(
+            containers.map(container => ({ label: container.name, description: container.image, detail: `${container.engine} · ${container.id} · ${container.status}`, container })),
+            { ignoreFocusOut: true, matchOnDescription: true, placeHolder: 'Select the container to attach to' });
+        if (containerItem === undefined) {
+            return;
+        }
+
+        const container = containerItem.container;
+        const processItem = await pickContainerProcess(container, platformInfo, channel);
+        if (processItem === undefined) {
+            return;
+        }
+
+        if (!await ensureDebuggerInstalled(container)) {
+            return;
+        }
+
+        await vscode.debug.startDebugging(vscode.workspace.workspaceFolders?.[0], createContainerAttachConfiguration(container, processItem.id));
+    }
+    catch (err) {
+        vscode.window.showErrorMessage(`Unable to attach to the container. ${(<Error>err).message}`);
+    }
+}
+
+/**
+ * Lists the running containers of the container engines that are installed and running.
+ */
+export async function listContainers(): Promise<Container[]> {
+    const containerLists = await Promise.all(containerEngines.map(async engine => {
+        try {
+            return parseContainerList(engine, await execContainerEngine(engine, ['ps', '--format', containerListFormat]));
+        }
+        catch (err) {
+            // The engine isn't installed or its daemon isn't running.
+            return [];
+        }
+    }));
+
+    return containerLists.reduce((all, containers) => all.concat(containers), []);
+}
+
+// Only public for tests.
+export function parseContainerList(engine: ContainerEngine, output: string): Container[] {
+    return output.split(/\r?\n/)
+        .map(line => line.split('\t'))
+        .filter(fields => fields.length >= 4 && fields[0].length > 0)
+        .map(([id, name, image, status]) => ({ engine, id, name, image, status }));
+}
+
+export function createContainerAttachConfiguration(container: Container, processId: string): vscode.DebugConfiguration {
+    return {
+        name: `.NET Attach (${container.name})`,
+        type: 'coreclr',
+        request: 'attach',
+        processId,
+        pipeTransport: createContainerPipeTransport(container)
+    };
+}
+
+function createContainerPipeTransport(container: Container) {
+    return {
+        pipeProgram: container.engine,
+        // Names are stable across restarts of the container, unlike ids, e.g. with docker-compose, so every command
+        // of an attach runs in the container by its name.
+        pipeArgs: ['exec', '-i', container.name],
+        pipeCwd: getPipeCwd(),
+        debuggerPath: containerDebuggerPath,
+        quoteArgs: false
+    };
+}
+
+async function pickContainerProcess(container: Container, platformInfo: PlatformInformation, channel: vscode.OutputChannel): Promise<AttachItem | undefined> {
+    const processes = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Listing the processes in ${container.name}` },
+        async () => {
+            const pipeTransport = createContainerPipeTransport(container);
+            const pipeCmd = RemoteAttachPicker.createPipeCmdFromArray(pipeTransport.pipeProgram, pipeTransport.pipeArgs, pipeTransport.quoteArgs);
+            const items = await RemoteAttachPicker.getRemoteOSAndProcesses(pipeCmd, pipeTransport.pipeCwd, channel, platformInfo);
+            const dotnetProcessIds = await getContainerDotNetProcessIds(container);
+            items.forEach(item => item.isDotNet = item.isDotNet || dotnetProcessIds.has(item.id));
+            return items;
+        });
+
+    // Containers usually run a handful of processes, so show them all if none could be recognized as .NET.
+    const dotnetProcesses = processes.filter(item => item.isDotNet);
+    return vscode.window.showQuickPick(dotnetProcesses.length > 0 ? dotnetProcesses : processes, {
+        ignoreFocusOut: true,
+        matchOnDescription: true,
+        matchOnDetail: true,
+        placeHolder: `Select the process in ${container.name} to attach to`
+    });
+}
+
+async function getContainerDotNetProcessIds(container: Container): Promise<Set<string>> {
+    try {
+        const output = await execContainerEngine(container.engine, ['exec', container.name, 'sh', '-c', 'ls -1 "${TMPDIR:-/tmp}"']);
+        return getProcessIdsFromDiagnosticsEndpoints(output.split(/\r?\n/), false);
+    }
+    catch (err) {
+        return new Set<string>();
+    }
+}
+
+async function ensureDebuggerInstalled(container: Container): Promise<boolean> {
+    if (await isDebuggerInstalled(container)) {
+        return true;
+    }
+
+    const install = 'Install';
+    const selection = await vscode.window.showInformationMessage(
+        `The .NET debugger is not installed in the container ${container.name}. Install it to ${containerDebuggerPath}? This downloads the install script from https://aka.ms/getvsdbgsh and runs it in the container as root.`, install);
+    if (selection !== install) {
+        return false;
+    }
+
+    await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: `Installing the .NET debugger in ${container.name}` }, async () => {
+        // The container may run as a user that can't write to the root of the file system.
+        await execContainerEngine(container.engine, ['exec', '-u', 'root', container.name, 'sh', '-c', installDebuggerScript]);
+    });
+
+    // The install script succeeds without downloading anything when the image has neither curl nor wget.
+    if (!await isDebuggerInstalled(container)) {
+        vscode.window.showErrorMessage(`Failed to install the .NET debugger in the container ${container.name}. Make sure the image has curl or wget, or install the debugger to ${containerDebuggerPath} in the image.`);
+        return false;
+    }
+
+    return true;
+}
+
+async function isDebuggerInstalled(container: Container): Promise<boolean> {
+    try {
+        await execContainerEngine(container.engine, ['exec', container.name, 'test', '-x', containerDebuggerPath]);
+        return true;
+    }
+    catch (err) {
+        return false;
+    }
+}
+
+function getPipeCwd(): string {
+    return vscode.workspace.workspaceFolders?.[0].uri.fsPath ?? os.homedir();
+}
+
+async function execContainerEngine(engine: ContainerEngine, args: string[]): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+        child_process.execFile(engine, args, { maxBuffer: 500 * 1024 }, (error, stdout, stderr) => {
+            if (error) {
+                reject(stderr ? new Error(stderr.trim()) : error);
+                return;
+            }
+
+            resolve(stdout);
+        });
+    });
+}
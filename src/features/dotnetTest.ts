@@ -3,15 +3,13 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import * as net from 'net';
-import * as os from 'os';
 import * as path from 'path';
 import * as protocol from '../omnisharp/protocol';
 import * as serverUtils from "../omnisharp/utils";
-import * as utils from '../common';
 import * as vscode from 'vscode';
 import AbstractProvider from './abstractProvider';
 import { DebuggerEventsProtocol } from '../coreclr-debug/debuggerEventsProtocol';
+import { DebuggerEventsListener } from '../coreclr-debug/debuggerEventsListener';
 import { OmniSharpServer } from '../omnisharp/server';
 import { TestExecutionCountReport, ReportDotNetTestResults, DotNetTestRunStart, DotNetTestMessage, DotNetTestRunFailure, DotNetTestsInClassRunStart, DotNetTestDebugWarning, DotNetTestDebugProcessStart, DotNetTestDebugComplete, DotNetTestDebugStart, DotNetTestsInClassDebugStart, DotNetTestDebugStartFailure, DotNetTestRunInContextStart, DotNetTestDebugInContextStart } from '../omnisharp/loggingEvents';
 import { EventStream } from '../EventStream';
@@ -22,6 +20,7 @@ import { LanguageMiddlewareFeature } from '../omnisharp/LanguageMiddlewareFeatur
 import OptionProvider from '../shared/observers/OptionProvider';
 
 const TelemetryReportingDelay = 2 * 60 * 1000; // two minutes
+export const TestLaunchConfigurationName = ".NET Test Launch";
 
 export default class TestManager extends AbstractProvider {
 
@@ -231,7 +230,7 @@ export default class TestManager extends AbstractProvider {
         }
     }
 
-    public async runDotnetTestsInClass(className: string, methodsInClass: string[], fileName: string, testFrameworkName: string, noBuild: boolean = false) {
+    public async runDotnetTestsInClass(className: string, methodsInClass: string[], fileName: string, testFrameworkName: string, noBuild: boolean = false): Promise<protocol.V2.DotNetTestResult[] | undefined> {
 
         //to do: try to get the class name here
         this._eventStream.post(new DotNetTestsInClassRunStart(className));
@@ -246,10 +245,12 @@ export default class TestManager extends AbstractProvider {
         try {
             let results = await this._runTestsInClass(fileName, runSettings, testFrameworkName, targetFrameworkVersion, methodsInClass, noBuild);
             this._eventStream.post(new ReportDotNetTestResults(results));
+            return results;
         }
         catch (error) {
             const message = (error as Error).message;
             this._eventStream.post(new DotNetTestRunFailure(message));
+            return undefined;
         }
         finally {
             listener.dispose();
@@ -329,7 +330,7 @@ export default class TestManager extends AbstractProvider {
         let launchConfiguration: LaunchConfiguration = {
             ...result,
             type: result.type || "coreclr",
-            name: ".NET Test Launch",
+            name: TestLaunchConfigurationName,
             request: "launch",
             debuggerEventsPipeName: debuggerEventsPipeName,
             program: program,
@@ -422,21 +423,32 @@ export default class TestManager extends AbstractProvider {
     }
 
     public async debugDotnetTestsInClass(className: string, methodsToRun: string[], fileName: string, testFrameworkName: string, noBuild: boolean = false) {
+        const debugRun = await this.startDebuggingDotnetTestsInClass(className, methodsToRun, fileName, testFrameworkName, noBuild);
+        return debugRun.started;
+    }
+
+    /**
+     * Starts debugging the tests of a class, returning the results of the run once debugging stops, as reported by
+     * the debug event listener of this run. Disposing the run stops listening for its results.
+     */
+    public async startDebuggingDotnetTestsInClass(className: string, methodsToRun: string[], fileName: string, testFrameworkName: string, noBuild: boolean = false): Promise<TestDebugRun> {
 
         this._eventStream.post(new DotNetTestsInClassDebugStart(className));
 
         let { debugEventListener, targetFrameworkVersion } = await this._recordDebugAndGetDebugValues(fileName, testFrameworkName);
         let runSettings = this._getRunSettings(fileName);
+        const debugRun = (started: boolean): TestDebugRun => ({ started, results: debugEventListener.results, dispose: () => debugEventListener.close() });
 
         try {
             let config = await this._getLaunchConfigurationForVSTestClass(fileName, methodsToRun, runSettings, testFrameworkName, targetFrameworkVersion, debugEventListener, noBuild);
             const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(fileName));
-            return vscode.debug.startDebugging(workspaceFolder, config);
+            return debugRun(await vscode.debug.startDebugging(workspaceFolder, config));
         }
         catch (error) {
             const message = (error as Error).message;
             this._eventStream.post(new DotNetTestDebugStartFailure(message));
             debugEventListener.close();
+            return debugRun(false);
         }
     }
 
@@ -541,28 +553,37 @@ export default class TestManager extends AbstractProvider {
     }
 }
 
+export interface TestDebugRun {
+    started: boolean;
+
+    /**
+     * The results of the debugged tests, or undefined if the run's listener was closed before debugging stopped.
+     */
+    results: Promise<protocol.V2.DotNetTestResult[] | undefined>;
+    dispose(): void;
+}
+
 class DebugEventListener {
     static s_activeInstance: DebugEventListener | undefined;
     _fileName: string;
     _server: OmniSharpServer;
-    _pipePath: string;
     _eventStream: EventStream;
+    _listener: DebuggerEventsListener;
+    _testCompletedListener: Disposable | undefined;
+    _results: protocol.V2.DotNetTestResult[] = [];
+    _resolveResults!: (results: protocol.V2.DotNetTestResult[] | undefined) => void;
 
-    _serverSocket: net.Server | undefined;
     _isClosed: boolean = false;
 
+    public readonly results: Promise<protocol.V2.DotNetTestResult[] | undefined>;
+
     constructor(fileName: string, server: OmniSharpServer, eventStream: EventStream) {
         this._fileName = fileName;
         this._server = server;
         this._eventStream = eventStream;
-
-        if (os.platform() === 'win32') {
-            this._pipePath = "\\\\.\\pipe\\Microsoft.VSCode.CSharpExt.TestDebugEvents" + process.pid;
-        }
-        else {
-            let tmpdir = utils.getUnixTempDirectory();
-            this._pipePath = path.join(tmpdir, "ms-dotnettools.csharp-tde-" + process.pid);
-        }
+        this._listener = new DebuggerEventsListener("TestDebugEvents");
+        // tslint:disable-next-line: promise-must-complete
+        this.results = new Promise(resolve => this._resolveResults = resolve);
     }
 
     public async start(): Promise<void> {
@@ -574,58 +595,31 @@ class DebugEventListener {
 
         DebugEventListener.s_activeInstance = this;
 
-        const serverSocket = net.createServer(socket => {
-            socket.on('data', buffer => {
-                let event: DebuggerEventsProtocol.DebuggerEvent;
-                try {
-                    event = DebuggerEventsProtocol.decodePacket(buffer);
-                }
-                catch (e) {
-                    this._eventStream.post(new DotNetTestDebugWarning("Invalid event received from debugger"));
-                    return;
-                }
-
-                switch (event.eventType) {
-                    case DebuggerEventsProtocol.EventType.ProcessLaunched:
-                        let processLaunchedEvent = <DebuggerEventsProtocol.ProcessLaunchedEvent>(event);
-                        this._eventStream.post(new DotNetTestDebugProcessStart(processLaunchedEvent.targetProcessId));
-                        this.onProcessLaunched(processLaunchedEvent.targetProcessId);
-                        break;
-
-                    case DebuggerEventsProtocol.EventType.DebuggingStopped:
-                        this._eventStream.post(new DotNetTestDebugComplete());
-                        this.onDebuggingStopped();
-                        break;
-                }
-            });
-
-            socket.on('end', () => {
-                this.onDebuggingStopped();
-            });
+        // OmniSharp only reports the results of a debugged run as each test completes.
+        this._testCompletedListener = this._server.onTestCompleted(result => this._results.push(result));
+
+        this._listener.onWarning(message => this._eventStream.post(new DotNetTestDebugWarning(message)));
+        this._listener.onDidDisconnect(() => this.onDebuggingStopped());
+        this._listener.onDidReceiveEvent(event => {
+            switch (event.eventType) {
+                case DebuggerEventsProtocol.EventType.ProcessLaunched:
+                    let processLaunchedEvent = <DebuggerEventsProtocol.ProcessLaunchedEvent>(event);
+                    this._eventStream.post(new DotNetTestDebugProcessStart(processLaunchedEvent.targetProcessId));
+                    this.onProcessLaunched(processLaunchedEvent.targetProcessId);
+                    break;
+
+                case DebuggerEventsProtocol.EventType.DebuggingStopped:
+                    this._eventStream.post(new DotNetTestDebugComplete());
+                    this.onDebuggingStopped();
+                    break;
+            }
         });
 
-        // We need the local serverSocket variable for the promise to capture below,
-        // or else TypeScript will warn that the instance variable could be undefined.
-        this._serverSocket = serverSocket;
-
-        await this.removeSocketFileIfExists();
-        return new Promise((resolve, reject) => {
-            serverSocket.on('error', err => {
-                if (!serverSocket.listening) {
-                    reject(err.message);
-                } else {
-                    this._eventStream.post(new DotNetTestDebugWarning(`Communications error on debugger event channel. ${err.message}`));
-                }
-            });
-
-            serverSocket.listen(this._pipePath, () => {
-                resolve();
-            });
-        });
+        return this._listener.start();
     }
 
     public pipePath(): string {
-        return this._pipePath;
+        return this._listener.pipePath;
     }
 
     public close() {
@@ -638,10 +632,9 @@ class DebugEventListener {
         }
 
         this._isClosed = true;
-
-        if (this._serverSocket !== undefined) {
-            this._serverSocket.close();
-        }
+        this._listener.dispose();
+        this._testCompletedListener?.dispose();
+        this._resolveResults(undefined);
     }
 
     private async onProcessLaunched(targetProcessId: number): Promise<void> {
@@ -672,20 +665,12 @@ class DebugEventListener {
         };
         try {
             serverUtils.debugTestStop(this._server, request);
+            this._eventStream.post(new ReportDotNetTestResults(this._results));
+            this._resolveResults(this._results);
             this.close();
         }
         catch (error) {
             return;
         }
     }
-
-    private async removeSocketFileIfExists(): Promise<void> {
-        if (os.platform() === 'win32') {
-            // Win32 doesn't use the file system for pipe names
-            return Promise.resolve();
-        }
-        else {
-            return utils.deleteIfExists(this._pipePath);
-        }
-    }
 }
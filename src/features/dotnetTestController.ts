@@ -0,0 +1,442 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import * as protocol from '../omnisharp/protocol';
+import * as serverUtils from '../omnisharp/utils';
+import * as vscode from 'vscode';
+import AbstractProvider from './abstractProvider';
+import CompositeDisposable from '../CompositeDisposable';
+import TestManager, { TestDebugRun, TestLaunchConfigurationName } from './dotnetTest';
+import { DotNetTestRunFailure } from '../omnisharp/loggingEvents';
+import { EventStream } from '../EventStream';
+import { getTestMethodName, getTestOutcome, groupResultsByMethod, TestDurations, waitForDebuggedTestResults } from './dotnetTestResults';
+import { LanguageMiddlewareFeature } from '../omnisharp/LanguageMiddlewareFeature';
+import { OmniSharpServer } from '../omnisharp/server';
+import { createTestFailureMessage, splitFullyQualifiedName } from '../shared/testExplorer';
+import { findTestFrameworkName } from '../shared/utils';
+
+// How long to wait for the results of debugged tests after the debug session ended.
+const debuggedTestResultsTimeout = 10 * 1000;
+
+enum TestItemKind {
+    Project,
+    Namespace,
+    Class,
+    Method,
+}
+
+interface TestItemData {
+    kind: TestItemKind;
+    /** Absolute path to the csproj file that contains the test. */
+    projectPath: string;
+    /** A source file of the project, used by OmniSharp to locate the project. */
+    fileName: string;
+    testFrameworkName: string;
+    /** Fully qualified name of the test method (without any parameters), only set for methods. */
+    fullyQualifiedName?: string;
+}
+
+interface TestClassGroup {
+    className: string;
+    data: TestItemData;
+    methods: Map<string, vscode.TestItem>;
+}
+
+/**
+ * Surfaces the tests discovered by OmniSharp in the VS Code Test Explorer.
+ * The tree is shaped project -> namespace -> class -> method.
+ */
+export default class DotnetTestController extends AbstractProvider {
+    private _controller: vscode.TestController;
+    private _itemData = new WeakMap<vscode.TestItem, TestItemData>();
+
+    constructor(server: OmniSharpServer, private _testManager: TestManager, private _eventStream: EventStream, languageMiddlewareFeature: LanguageMiddlewareFeature) {
+        super(server, languageMiddlewareFeature);
+
+        this._controller = vscode.tests.createTestController('dotnetTestController', '.NET Tests');
+        this._controller.resolveHandler = async item => this._resolve(item);
+
+        const runProfile = this._controller.createRunProfile(
+            'Run',
+            vscode.TestRunProfileKind.Run,
+            async (request, token) => this._runTests(request, token),
+            /*isDefault*/ true);
+
+        const debugProfile = this._controller.createRunProfile(
+            'Debug',
+            vscode.TestRunProfileKind.Debug,
+            async (request, token) => this._debugTests(request, token),
+            /*isDefault*/ true);
+
+        // Rediscover when the set of loaded projects changes.
+        const d1 = this._server.onServerStart(async () => this._resolve(undefined));
+        const d2 = this._server.onProjectAdded(async e => this._onProjectChanged(e));
+        const d3 = this._server.onProjectChange(async e => this._onProjectChanged(e));
+        const d4 = this._server.onProjectRemoved(e => {
+            if (e.MsBuildProject) {
+                this._controller.items.delete(e.MsBuildProject.Path);
+            }
+        });
+        const d5 = this._server.onServerStop(() => this._controller.items.replace([]));
+
+        this.addDisposables(new CompositeDisposable(
+            d1, d2, d3, d4, d5,
+            runProfile,
+            debugProfile,
+            this._controller));
+    }
+
+    private async _resolve(item: vscode.TestItem | undefined): Promise<void> {
+        if (item === undefined) {
+            await this._discoverProjects();
+            return;
+        }
+
+        const data = this._itemData.get(item);
+        if (data?.kind === TestItemKind.Project) {
+            await this._discoverTests(item, data);
+        }
+    }
+
+    private async _discoverProjects(): Promise<void> {
+        if (!this._server.isRunning()) {
+            return;
+        }
+
+        let workspaceInfo: protocol.WorkspaceInformationResponse;
+        try {
+            workspaceInfo = await serverUtils.requestWorkspaceInformation(this._server);
+        }
+        catch (error) {
+            return;
+        }
+
+        const projectItems: vscode.TestItem[] = [];
+        for (const project of workspaceInfo.MsBuild?.Projects ?? []) {
+            const projectItem = this._createProjectItem(project);
+            if (projectItem !== undefined) {
+                projectItems.push(projectItem);
+            }
+        }
+
+        this._controller.items.replace(projectItems);
+    }
+
+    private async _onProjectChanged(e: protocol.ProjectInformationResponse): Promise<void> {
+        if (!e.MsBuildProject) {
+            return;
+        }
+
+        const existingItem = this._controller.items.get(e.MsBuildProject.Path);
+        const projectItem = this._createProjectItem(e.MsBuildProject);
+        if (projectItem === undefined) {
+            this._controller.items.delete(e.MsBuildProject.Path);
+            return;
+        }
+
+        this._controller.items.add(projectItem);
+
+        // Discovery builds the project, so only refresh projects the user has already expanded.
+        if (existingItem !== undefined && existingItem.children.size > 0) {
+            await this._discoverTests(projectItem, this._itemData.get(projectItem)!);
+        }
+    }
+
+    private _createProjectItem(project: protocol.MSBuildProject): vscode.TestItem | undefined {
+        const testFrameworkName = findTestFrameworkName(project.Path);
+        const fileName = project.SourceFiles.find(file => path.extname(file) === '.cs');
+        if (testFrameworkName === undefined || fileName === undefined) {
+            return undefined;
+        }
+
+        const projectItem = this._controller.createTestItem(project.Path, path.basename(project.Path, path.extname(project.Path)), vscode.Uri.file(project.Path));
+        projectItem.canResolveChildren = true;
+        this._itemData.set(projectItem, { kind: TestItemKind.Project, projectPath: project.Path, fileName, testFrameworkName });
+        return projectItem;
+    }
+
+    private async _discoverTests(projectItem: vscode.TestItem, projectData: TestItemData): Promise<void> {
+        projectItem.busy = true;
+        projectItem.error = undefined;
+
+        try {
+            const tests = await this._testManager.discoverTests(projectData.fileName, projectData.testFrameworkName, /*noBuild*/ false);
+            if (tests === undefined) {
+                projectItem.error = 'Test discovery failed. See the OmniSharp log for details.';
+                return;
+            }
+
+            this._populateProject(projectItem, projectData, tests);
+        }
+        finally {
+            projectItem.busy = false;
+        }
+    }
+
+    private _populateProject(projectItem: vscode.TestItem, projectData: TestItemData, tests: protocol.V2.TestInfo[]): void {
+        const namespaceItems = new Map<string, vscode.TestItem>();
+        const classItems = new Map<string, vscode.TestItem>();
+
+        for (const test of tests) {
+            const fullyQualifiedName = getTestMethodName(test.FullyQualifiedName);
+            const { namespaceName, className, methodName } = splitFullyQualifiedName(fullyQualifiedName);
+            const itemIdPrefix = `${projectData.projectPath}|`;
+
+            let namespaceItem = namespaceItems.get(namespaceName);
+            if (namespaceItem === undefined) {
+                namespaceItem = this._controller.createTestItem(itemIdPrefix + namespaceName, namespaceName || '<global namespace>');
+                this._itemData.set(namespaceItem, { ...projectData, kind: TestItemKind.Namespace });
+                namespaceItems.set(namespaceName, namespaceItem);
+            }
+
+            const qualifiedClassName = namespaceName ? `${namespaceName}.${className}` : className;
+            let classItem = classItems.get(qualifiedClassName);
+            if (classItem === undefined) {
+                classItem = this._controller.createTestItem(itemIdPrefix + qualifiedClassName, className);
+                this._itemData.set(classItem, { ...projectData, kind: TestItemKind.Class });
+                classItems.set(qualifiedClassName, classItem);
+                namespaceItem.children.add(classItem);
+            }
+
+            // Parameterized tests are reported once per case, but are run as a single method.
+            if (classItem.children.get(itemIdPrefix + fullyQualifiedName) !== undefined) {
+                continue;
+            }
+
+            const uri = test.CodeFilePath ? vscode.Uri.file(test.CodeFilePath) : undefined;
+            const methodItem = this._controller.createTestItem(itemIdPrefix + fullyQualifiedName, methodName, uri);
+            if (uri !== undefined && test.LineNumber > 0) {
+                methodItem.range = new vscode.Range(test.LineNumber - 1, 0, test.LineNumber - 1, 0);
+            }
+
+            this._itemData.set(methodItem, { ...projectData, kind: TestItemKind.Method, fileName: test.CodeFilePath || projectData.fileName, fullyQualifiedName });
+            classItem.children.add(methodItem);
+        }
+
+        projectItem.children.replace([...namespaceItems.values()]);
+    }
+
+    private async _runTests(request: vscode.TestRunRequest, token: vscode.CancellationToken): Promise<void> {
+        const run = this._controller.createTestRun(request);
+        const listener = this._server.onTestMessage(e => run.appendOutput(`${e.Message}\r\n`));
+        const builtProjects = new Set<string>();
+
+        try {
+            for (const group of await this._collectTestClassGroups(request)) {
+                if (token.isCancellationRequested) {
+                    group.methods.forEach(item => run.skipped(item));
+                    continue;
+                }
+
+                group.methods.forEach(item => run.started(item));
+
+                const noBuild = builtProjects.has(group.data.projectPath);
+                const durations = new TestDurations();
+                const testCompletedListener = this._server.onTestCompleted(result => durations.complete(result.MethodName));
+                let results: protocol.V2.DotNetTestResult[] | undefined;
+                try {
+                    results = await this._testManager.runDotnetTestsInClass(group.className, [...group.methods.keys()], group.data.fileName, group.data.testFrameworkName, noBuild);
+                }
+                finally {
+                    testCompletedListener.dispose();
+                }
+
+                if (results === undefined) {
+                    const message = new vscode.TestMessage('Failed to run tests. See the .NET Test Log for details.');
+                    group.methods.forEach(item => run.errored(item, message));
+                    continue;
+                }
+
+                builtProjects.add(group.data.projectPath);
+                this._reportResults(run, group, results, durations);
+            }
+        }
+        catch (error) {
+            this._eventStream.post(new DotNetTestRunFailure((error as Error).message));
+        }
+        finally {
+            listener.dispose();
+            run.end();
+        }
+    }
+
+    private _reportResults(run: vscode.TestRun, group: TestClassGroup, results: protocol.V2.DotNetTestResult[], durations: TestDurations): void {
+        const resultsByMethod = groupResultsByMethod(results);
+
+        for (const [methodName, item] of group.methods) {
+            const methodResults = resultsByMethod.get(methodName);
+            if (methodResults === undefined || methodResults.length === 0) {
+                run.skipped(item);
+                continue;
+            }
+
+            for (const result of methodResults) {
+                for (const line of [...(result.StandardOutput ?? []), ...(result.StandardError ?? [])]) {
+                    run.appendOutput(`${line}\r\n`, undefined, item);
+                }
+            }
+
+            const duration = durations.get(methodName);
+            const outcome = getTestOutcome(methodResults);
+            if (outcome === 'failed') {
+                const failures = methodResults.filter(result => result.Outcome === protocol.V2.TestOutcomes.Failed);
+                run.failed(item, failures.map(result => createTestFailureMessage(item, result.ErrorMessage, result.ErrorStackTrace, methodResults.length > 1 ? result.MethodName : undefined)), duration);
+            }
+            else if (outcome === 'skipped') {
+                run.skipped(item);
+            }
+            else {
+                run.passed(item, duration);
+            }
+        }
+    }
+
+    private async _debugTests(request: vscode.TestRunRequest, token: vscode.CancellationToken): Promise<void> {
+        const run = this._controller.createTestRun(request);
+
+        try {
+            for (const group of await this._collectTestClassGroups(request)) {
+                if (token.isCancellationRequested) {
+                    group.methods.forEach(item => run.skipped(item));
+                    continue;
+                }
+
+                group.methods.forEach(item => run.started(item));
+
+                const durations = new TestDurations();
+                const testCompletedListener = this._server.onTestCompleted(result => durations.complete(result.MethodName));
+                const sessionEnded = waitForTestDebugSessionToEnd(token);
+
+                let debugRun: TestDebugRun | undefined;
+                let results: protocol.V2.DotNetTestResult[] | undefined;
+                try {
+                    debugRun = await this._testManager.startDebuggingDotnetTestsInClass(group.className, [...group.methods.keys()], group.data.fileName, group.data.testFrameworkName);
+                    if (debugRun.started) {
+                        await sessionEnded.promise;
+                        if (!token.isCancellationRequested) {
+                            results = await waitForDebuggedTestResults(debugRun.results, debuggedTestResultsTimeout);
+                        }
+                    }
+                }
+                finally {
+                    // A cancelled run's session may still be debugging, and its listener stops the tests when it ends.
+                    if (!token.isCancellationRequested) {
+                        debugRun?.dispose();
+                    }
+
+                    sessionEnded.dispose();
+                    testCompletedListener.dispose();
+                }
+
+                if (!debugRun?.started) {
+                    const message = new vscode.TestMessage('Failed to start debugging the tests. See the .NET Test Log for details.');
+                    group.methods.forEach(item => run.errored(item, message));
+                    continue;
+                }
+
+                if (results === undefined) {
+                    if (token.isCancellationRequested) {
+                        group.methods.forEach(item => run.skipped(item));
+                    }
+                    else {
+                        const message = new vscode.TestMessage('The results of the debugged tests were not reported. See the .NET Test Log for details.');
+                        group.methods.forEach(item => run.errored(item, message));
+                    }
+
+                    continue;
+                }
+
+                this._reportResults(run, group, results, durations);
+            }
+        }
+        catch (error) {
+            this._eventStream.post(new DotNetTestRunFailure((error as Error).message));
+        }
+        finally {
+            run.end();
+        }
+    }
+
+    /**
+     * Expands the requested items into the test methods they contain, grouped by class,
+     * as OmniSharp runs a batch of tests through the class based endpoints.
+     */
+    private async _collectTestClassGroups(request: vscode.TestRunRequest): Promise<TestClassGroup[]> {
+        const groups = new Map<string, TestClassGroup>();
+        const excluded = new Set(request.exclude ?? []);
+
+        const visit = async (item: vscode.TestItem): Promise<void> => {
+            if (excluded.has(item)) {
+                return;
+            }
+
+            const data = this._itemData.get(item);
+            if (data === undefined) {
+                return;
+            }
+
+            if (data.kind === TestItemKind.Project && item.children.size === 0) {
+                await this._discoverTests(item, data);
+            }
+
+            if (data.kind !== TestItemKind.Method) {
+                const children: vscode.TestItem[] = [];
+                item.children.forEach(child => { children.push(child); });
+                for (const child of children) {
+                    await visit(child);
+                }
+
+                return;
+            }
+
+            const fullyQualifiedName = data.fullyQualifiedName!;
+            const className = fullyQualifiedName.substring(0, fullyQualifiedName.lastIndexOf('.'));
+            const groupKey = `${data.projectPath}|${className}`;
+            let group = groups.get(groupKey);
+            if (group === undefined) {
+                group = { className, data, methods: new Map<string, vscode.TestItem>() };
+                groups.set(groupKey, group);
+            }
+
+            group.methods.set(fullyQualifiedName, item);
+        };
+
+        if (request.include !== undefined) {
+            for (const item of request.include) {
+                await visit(item);
+            }
+        }
+        else {
+            const roots: vscode.TestItem[] = [];
+            this._controller.items.forEach(item => { roots.push(item); });
+            for (const item of roots) {
+                await visit(item);
+            }
+        }
+
+        return [...groups.values()];
+    }
+}
+
+function waitForTestDebugSessionToEnd(token: vscode.CancellationToken): { promise: Promise<void>, dispose: () => void } {
+    let disposables: vscode.Disposable[] = [];
+    const promise = new Promise<void>(resolve => {
+        disposables.push(vscode.debug.onDidTerminateDebugSession(session => {
+            if (session.name === TestLaunchConfigurationName) {
+                resolve();
+            }
+        }));
+        disposables.push(token.onCancellationRequested(() => resolve()));
+    });
+
+    return {
+        promise,
+        dispose: () => {
+            disposables.forEach(d => d.dispose());
+            disposables = [];
+        }
+    };
+}
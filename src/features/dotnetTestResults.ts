@@ -0,0 +1,78 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as protocol from '../omnisharp/protocol';
+
+export type TestOutcome = 'passed' | 'failed' | 'skipped';
+
+/** Removes the argument list that some frameworks (e.g. NUnit) append to parameterized test names. */
+export function getTestMethodName(fullyQualifiedName: string): string {
+    const argumentsStart = fullyQualifiedName.indexOf('(');
+    return argumentsStart >= 0 ? fullyQualifiedName.substring(0, argumentsStart) : fullyQualifiedName;
+}
+
+/** Groups the results by test method, as parameterized tests report one result per case. */
+export function groupResultsByMethod(results: protocol.V2.DotNetTestResult[]): Map<string, protocol.V2.DotNetTestResult[]> {
+    const resultsByMethod = new Map<string, protocol.V2.DotNetTestResult[]>();
+    for (const result of results) {
+        const methodName = getTestMethodName(result.MethodName);
+        const methodResults = resultsByMethod.get(methodName) ?? [];
+        methodResults.push(result);
+        resultsByMethod.set(methodName, methodResults);
+    }
+
+    return resultsByMethod;
+}
+
+/** A method fails if any of its cases failed, and is skipped only if all of its cases were skipped. */
+export function getTestOutcome(methodResults: protocol.V2.DotNetTestResult[]): TestOutcome {
+    if (methodResults.some(result => result.Outcome === protocol.V2.TestOutcomes.Failed)) {
+        return 'failed';
+    }
+
+    if (methodResults.every(result => result.Outcome === protocol.V2.TestOutcomes.Skipped)) {
+        return 'skipped';
+    }
+
+    return 'passed';
+}
+
+/**
+ * Measures the duration of each test method from the time OmniSharp reports it completed, as the test results don't
+ * include it. The duration of a test is the time since the previous test of the run completed, or since the run
+ * started for the first one.
+ */
+export class TestDurations {
+    private readonly _durations = new Map<string, number>();
+    private _lastCompletionTime: number;
+
+    public constructor(startTime: number = Date.now()) {
+        this._lastCompletionTime = startTime;
+    }
+
+    public complete(fullyQualifiedName: string, time: number = Date.now()): void {
+        const methodName = getTestMethodName(fullyQualifiedName);
+        this._durations.set(methodName, (this._durations.get(methodName) ?? 0) + time - this._lastCompletionTime);
+        this._lastCompletionTime = time;
+    }
+
+    public get(methodName: string): number | undefined {
+        return this._durations.get(methodName);
+    }
+}
+
+/**
+ * Waits for the results of a debugged run, which are reported when the debugger's events pipe says debugging stopped
+ * and may come after the debug session ended. Resolves to undefined if they aren't reported within the timeout.
+ */
+export async function waitForDebuggedTestResults(results: Promise<protocol.V2.DotNetTestResult[] | undefined>, timeout: number): Promise<protocol.V2.DotNetTestResult[] | undefined> {
+    let timer: NodeJS.Timeout | undefined;
+    try {
+        return await Promise.race([results, new Promise<undefined>(resolve => timer = setTimeout(() => resolve(undefined), timeout))]);
+    }
+    finally {
+        clearTimeout(timer);
+    }
+}
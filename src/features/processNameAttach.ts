@@ -0,0 +1,213 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { PlatformInformation } from '../shared/platform';
+import { AttachItem, DotNetAttachItemsProviderFactory, RemoteAttachPicker } from './processPicker';
+
+// The debugger only gets the processId, so how the process was found is kept under a key it ignores, to reattach with.
+const attachedByKey = '__attachedBy';
+
+const waitForProcessPollingInterval = 1000;
+
+interface ProcessNameOptions {
+    processName?: string;
+    processNameRegex?: string;
+}
+
+/**
+ * Whether the process of an attach configuration has to be found by the extension. The debugger finds a process by
+ * `processName` by itself, but can't match a regular expression, wait for the process or reattach to it.
+ */
+export function isAttachByProcessName(configuration: vscode.DebugConfiguration): boolean {
+    if (configuration.request !== 'attach' || configuration.processId) {
+        return false;
+    }
+
+    return !!configuration.processNameRegex || (!!configuration.processName && (!!configuration.waitForProcess || !!configuration.reattachOnRestart));
+}
+
+/**
+ * Finds the process an attach configuration selects by `processName` or `processNameRegex`, waiting for it to start
+ * if `waitForProcess` is set, and asks the user to pick one if several match. The configuration is updated to attach
+ * to the process by its id.
+ */
+export async function findProcessByName(configuration: vscode.DebugConfiguration, platformInfo: PlatformInformation): Promise<AttachItem | undefined> {
+    const options: ProcessNameOptions = { processName: configuration.processName || undefined, processNameRegex: configuration.processNameRegex || undefined };
+    const processDescription = options.processNameRegex !== undefined ? `matching '${options.processNameRegex}'` : `named '${options.processName}'`;
+    try {
+        matchProcessesByName([], options);
+    }
+    catch (err) {
+        vscode.window.showErrorMessage(`The processNameRegex of configuration "${configuration.name}" is not a valid regular expression. ${(<Error>err).message}`);
+        return undefined;
+    }
+
+    const findProcesses = async () => {
+        const processes = configuration.pipeTransport
+            ? await RemoteAttachPicker.getAttachItems(configuration, platformInfo)
+            : await DotNetAttachItemsProviderFactory.Get().getAttachItems();
+        const matchingProcesses = matchProcessesByName(processes, options);
+        return configuration.reattachOnRestart ? excludeDotNetWatchHosts(matchingProcesses) : matchingProcesses;
+    };
+
+    let matchingProcesses = await findProcesses();
+    if (matchingProcesses.length === 0 && configuration.waitForProcess) {
+        matchingProcesses = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Waiting for a process ${processDescription} to start`, cancellable: true },
+            async (progress, token) => {
+                while (!token.isCancellationRequested) {
+                    await new Promise(resolve => setTimeout(resolve, waitForProcessPollingInterval));
+                    const processes = await findProcesses();
+                    if (processes.length > 0) {
+                        return processes;
+                    }
+                }
+
+                return [];
+            });
+
+        if (matchingProcesses.length === 0) {
+            // Waiting was cancelled.
+            return undefined;
+        }
+    }
+
+    let process: AttachItem | undefined;
+    if (matchingProcesses.length === 0) {
+        vscode.window.showErrorMessage(`No process ${processDescription} is running.`);
+    }
+    else if (matchingProcesses.length === 1) {
+        process = matchingProcesses[0];
+    }
+    else {
+        process = await vscode.window.showQuickPick(matchingProcesses, {
+            ignoreFocusOut: true,
+            matchOnDescription: true,
+            matchOnDetail: true,
+            placeHolder: `Several processes ${processDescription} are running. Select the process to attach to`
+        });
+    }
+
+    if (process !== undefined) {
+        configuration[attachedByKey] = options;
+        delete configuration.processName;
+        delete configuration.processNameRegex;
+    }
+
+    return process;
+}
+
+/**
+ * Selects the processes by `processNameRegex`, which is tested against their names and command lines, or else by
+ * `processName`, which is compared to their names and executables ignoring case and the .exe extension. Executables
+ * are compared as well because Linux truncates the names of processes to 15 characters.
+ */
+export function matchProcessesByName(processes: AttachItem[], options: ProcessNameOptions): AttachItem[] {
+    if (options.processNameRegex !== undefined) {
+        const regex = new RegExp(options.processNameRegex);
+        return processes.filter(process => regex.test(process.label) || (process.commandLine !== undefined && regex.test(process.commandLine)));
+    }
+
+    if (options.processName !== undefined) {
+        const processName = normalizeProcessName(options.processName);
+        return processes.filter(process => normalizeProcessName(process.label) === processName
+            || (process.commandLine !== undefined && normalizeProcessName(getExecutableName(process.commandLine)) === processName));
+    }
+
+    return [];
+}
+
+/**
+ * Leaves out the `dotnet watch` processes that restart the application, which a `processNameRegex` matching the
+ * application's command line usually matches as well, unless no other process matches.
+ */
+export function excludeDotNetWatchHosts(processes: AttachItem[]): AttachItem[] {
+    const applicationProcesses = processes.filter(process => process.commandLine === undefined || !isDotNetWatchHost(process.commandLine));
+    return applicationProcesses.length > 0 ? applicationProcesses : processes;
+}
+
+function isDotNetWatchHost(commandLine: string): boolean {
+    // `dotnet watch` runs dotnet-watch.dll in a process of its own.
+    return /^"?([^"]*[\\/])?dotnet(\.exe)?"?\s+watch(\s|$)/i.test(commandLine)
+        || /(^|[\\/\s"])dotnet-watch(\.dll|\.exe)?("|\s|$)/i.test(commandLine);
+}
+
+function normalizeProcessName(name: string): string {
+    return name.toLowerCase().replace(/\.exe$/, '');
+}
+
+function getExecutableName(commandLine: string): string {
+    const executable = commandLine.startsWith('"') ? commandLine.substring(1).split('"')[0] : commandLine.split(' ')[0];
+    return executable.split(/[\\/]/).pop() ?? '';
+}
+
+/**
+ * Creates the configuration to attach again to a process that was found by name, once it exits, or returns undefined
+ * if the configuration doesn't ask to reattach.
+ */
+export function getReattachConfiguration(configuration: vscode.DebugConfiguration): vscode.DebugConfiguration | undefined {
+    const attachedBy: ProcessNameOptions | undefined = configuration[attachedByKey];
+    if (!configuration.reattachOnRestart || attachedBy === undefined) {
+        return undefined;
+    }
+
+    const reattachConfiguration: vscode.DebugConfiguration = { ...configuration, waitForProcess: true };
+    delete reattachConfiguration.processId;
+    delete reattachConfiguration[attachedByKey];
+    // The debugger events of the ended session were listened to on a pipe of its own.
+    delete reattachConfiguration.debuggerEventsPipeName;
+    if (attachedBy.processNameRegex !== undefined) {
+        reattachConfiguration.processNameRegex = attachedBy.processNameRegex;
+    }
+    else {
+        reattachConfiguration.processName = attachedBy.processName;
+    }
+
+    return reattachConfiguration;
+}
+
+/**
+ * Attaches again when a process that was attached to with `reattachOnRestart` exits, e.g. when `dotnet watch`
+ * restarts it, so breakpoints keep working. Stopping the session detaches from the process, which keeps running, so
+ * only sessions whose process exited are restarted.
+ */
+export class ProcessReattacher implements vscode.DebugAdapterTrackerFactory, vscode.Disposable {
+    private readonly exitedSessionIds = new Set<string>();
+    private readonly terminateListener: vscode.Disposable;
+
+    public constructor() {
+        this.terminateListener = vscode.debug.onDidTerminateDebugSession(async session => this.onDidTerminateDebugSession(session));
+    }
+
+    public createDebugAdapterTracker(session: vscode.DebugSession): vscode.DebugAdapterTracker | undefined {
+        if (getReattachConfiguration(session.configuration) === undefined) {
+            return undefined;
+        }
+
+        return {
+            onDidSendMessage: (message: any) => {
+                if (message.type === 'event' && message.event === 'exited') {
+                    this.exitedSessionIds.add(session.id);
+                }
+            }
+        };
+    }
+
+    public dispose(): void {
+        this.terminateListener.dispose();
+    }
+
+    private async onDidTerminateDebugSession(session: vscode.DebugSession): Promise<void> {
+        if (!this.exitedSessionIds.delete(session.id)) {
+            return;
+        }
+
+        const configuration = getReattachConfiguration(session.configuration);
+        if (configuration !== undefined) {
+            await vscode.debug.startDebugging(session.workspaceFolder, configuration);
+        }
+    }
+}
@@ -15,6 +15,8 @@ import { findPowerShell, getExtensionPath } from '../common';
 export interface AttachItem extends vscode.QuickPickItem {
     id: string;
     flags: number;
+    isDotNet?: boolean;
+    commandLine?: string;
 }
 
 export interface AttachItemsProvider {
@@ -22,15 +24,41 @@ export interface AttachItemsProvider {
 }
 
 export class AttachPicker {
+    // Remembered for the session, as users attaching to .NET processes tend to do so repeatedly.
+    private static showOnlyDotNetProcesses = false;
+
     constructor(private attachItemsProvider: AttachItemsProvider) { }
 
     public async ShowAttachEntries(): Promise<AttachItem | undefined> {
         const processEntries = await this.attachItemsProvider.getAttachItems();
-        return vscode.window.showQuickPick(processEntries, {
-            ignoreFocusOut: true,
-            matchOnDescription: true,
-            matchOnDetail: true,
-            placeHolder: "Select the process to attach to",
+        const quickPick = vscode.window.createQuickPick<AttachItem>();
+        quickPick.ignoreFocusOut = true;
+        quickPick.matchOnDescription = true;
+        quickPick.matchOnDetail = true;
+        quickPick.placeholder = "Select the process to attach to";
+
+        const update = () => {
+            quickPick.items = AttachPicker.showOnlyDotNetProcesses ? processEntries.filter(item => item.isDotNet) : processEntries;
+            quickPick.buttons = [AttachPicker.showOnlyDotNetProcesses
+                ? { iconPath: new vscode.ThemeIcon('filter-filled'), tooltip: "Show All Processes" }
+                : { iconPath: new vscode.ThemeIcon('filter'), tooltip: "Show Only .NET Processes" }];
+        };
+        update();
+
+        return new Promise<AttachItem | undefined>(resolve => {
+            quickPick.onDidTriggerButton(() => {
+                AttachPicker.showOnlyDotNetProcesses = !AttachPicker.showOnlyDotNetProcesses;
+                update();
+            });
+            quickPick.onDidAccept(() => {
+                resolve(quickPick.selectedItems[0]);
+                quickPick.hide();
+            });
+            quickPick.onDidHide(() => {
+                resolve(undefined);
+                quickPick.dispose();
+            });
+            quickPick.show();
         });
     }
 }
@@ -192,6 +220,19 @@ export class RemoteAttachPicker {
     }
 
     public static async ShowAttachEntries(args: any, platformInfo: PlatformInformation): Promise<AttachItem | undefined> {
+        const processes = await RemoteAttachPicker.getAttachItems(args, platformInfo);
+        return vscode.window.showQuickPick(processes, {
+            ignoreFocusOut: true,
+            matchOnDescription: true,
+            matchOnDetail: true,
+            placeHolder: "Select the process to attach to",
+        });
+    }
+
+    /**
+     * Lists the processes on the machine the pipeTransport of a configuration connects to.
+     */
+    public static async getAttachItems(args: any, platformInfo: PlatformInformation): Promise<AttachItem[]> {
         // Create remote attach output channel for errors.
         if (RemoteAttachPicker._channel === undefined) {
             RemoteAttachPicker._channel = vscode.window.createOutputChannel('remote-attach');
@@ -205,23 +246,17 @@ export class RemoteAttachPicker {
 
         if (!name) {
             // Config name not found.
-            return Promise.reject<AttachItem>(new Error("Name not defined in current configuration."));
+            return Promise.reject<AttachItem[]>(new Error("Name not defined in current configuration."));
         }
 
         if (!args.pipeTransport || !args.pipeTransport.debuggerPath) {
             // Missing PipeTransport and debuggerPath, prompt if user wanted to just do local attach.
-            return Promise.reject<AttachItem>(new Error("Configuration \"" + name + "\" in launch.json does not have a " +
+            return Promise.reject<AttachItem[]>(new Error("Configuration \"" + name + "\" in launch.json does not have a " +
                 "pipeTransport argument with debuggerPath for remote process listing."));
         } else {
             const pipeTransport = this.getPipeTransportOptions(args.pipeTransport, os.platform());
             const pipeCmd = await RemoteAttachPicker.createPipeCmd(pipeTransport.pipeProgram, pipeTransport.pipeArgs, pipeTransport.quoteArgs);
-            const processes = await RemoteAttachPicker.getRemoteOSAndProcesses(pipeCmd, pipeTransport.pipeCwd, RemoteAttachPicker._channel, platformInfo);
-            return vscode.window.showQuickPick(processes, {
-                ignoreFocusOut: true,
-                matchOnDescription: true,
-                matchOnDetail: true,
-                placeHolder: "Select the process to attach to",
-            });
+            return RemoteAttachPicker.getRemoteOSAndProcesses(pipeCmd, pipeTransport.pipeCwd, RemoteAttachPicker._channel, platformInfo);
         }
     }
 
@@ -260,6 +295,17 @@ export interface Process {
     pid: string;
     commandLine?: string;
     flags?: number;
+
+    /** Whether the process hosts the .NET runtime, if that could be determined. */
+    isDotNet?: boolean;
+
+    /** The version of the shared .NET runtime the process runs on, which self-contained apps don't have. */
+    runtimeVersion?: string;
+    workingDirectory?: string;
+    user?: string;
+
+    /** How long the process has been running, in seconds. */
+    elapsedSeconds?: number;
 }
 
 export class DotNetAttachItemsProviderFactory {
@@ -277,57 +323,198 @@ export class DotNetAttachItemsProviderFactory {
 abstract class DotNetAttachItemsProvider implements AttachItemsProvider {
     protected abstract getInternalProcessEntries(): Promise<Process[]>;
 
+    /**
+     * Reads what can't be listed for all processes at once, like the runtime version. Only the .NET processes are
+     * inspected, as there can be hundreds of other processes.
+     */
+    protected async readDotNetProcessDetails(dotnetProcesses: Process[]): Promise<void> { }
+
     async getAttachItems(): Promise<AttachItem[]> {
-        return this.getInternalProcessEntries().then(processEntries => {
-            return sortProcessEntries(processEntries, os.platform());
-        });
+        const processEntries = await this.getInternalProcessEntries();
+        const dotnetProcessIds = await getDiagnosticsEndpointProcessIds();
+        for (const process of processEntries) {
+            process.isDotNet = dotnetProcessIds.has(process.pid);
+        }
+
+        await this.readDotNetProcessDetails(processEntries.filter(process => process.isDotNet));
+        return sortProcessEntries(processEntries, os.platform());
     }
 }
 
 function sortProcessEntries(processEntries: Process[], osPlatform: string): AttachItem[] {
+    // Processes named dotnet are .NET processes even if they disabled diagnostics, or the diagnostics endpoints
+    // couldn't be listed, e.g. on remote machines.
+    let dotnetProcessName = (osPlatform === 'win32') ? 'dotnet.exe' : 'dotnet';
+    const isDotNetProcess = (process: Process) => process.isDotNet === true || process.name.toLowerCase() === dotnetProcessName;
+
     // localeCompare is significantly slower than < and > (2000 ms vs 80 ms for 10,000 elements)
     // We can change to localeCompare if this becomes an issue
-    let dotnetProcessName = (osPlatform === 'win32') ? 'dotnet.exe' : 'dotnet';
     processEntries = processEntries.sort((a, b) => {
-        if (a.name.toLowerCase() === dotnetProcessName && b.name.toLowerCase() === dotnetProcessName) {
-            if (a.commandLine !== undefined && b.commandLine !== undefined) {
-                return a.commandLine.toLowerCase() < b.commandLine.toLowerCase() ? -1 : 1;
-            } else if (a.commandLine !== undefined) {
-                return -1;
-            } else {
-                return 1;
-            }
-        } else if (a.name.toLowerCase() === dotnetProcessName) {
+        const aIsDotNet = isDotNetProcess(a);
+        const bIsDotNet = isDotNetProcess(b);
+        if (aIsDotNet !== bIsDotNet) {
+            return aIsDotNet ? -1 : 1;
+        } else if (a.name.toLowerCase() !== b.name.toLowerCase()) {
+            return a.name.toLowerCase() < b.name.toLowerCase() ? -1 : 1;
+        } else if (a.commandLine !== undefined && b.commandLine !== undefined) {
+            return a.commandLine.toLowerCase() < b.commandLine.toLowerCase() ? -1 : 1;
+        } else if (a.commandLine !== undefined) {
             return -1;
-        } else if (b.name.toLowerCase() === dotnetProcessName) {
-            return 1;
         } else {
-            return a.name.toLowerCase() < b.name.toLowerCase() ? -1 : 1;
+            return 1;
         }
     });
 
     let attachItems = processEntries.map(process => ({
         label: process.name,
-        description: process.pid,
-        detail: process.commandLine,
+        description: getProcessDescription(process, isDotNetProcess(process)),
+        detail: process.workingDirectory !== undefined ? `${process.commandLine ?? ''} (${process.workingDirectory})` : process.commandLine,
         id: process.pid,
         flags: process.flags ?? 0,
+        isDotNet: isDotNetProcess(process),
+        commandLine: process.commandLine,
     }));
     return attachItems;
 }
 
+function getProcessDescription(process: Process, isDotNet: boolean): string {
+    const parts = [process.pid];
+    if (isDotNet) {
+        parts.push(process.runtimeVersion !== undefined ? `.NET ${process.runtimeVersion}` : '.NET');
+    }
+
+    if (process.user !== undefined) {
+        parts.push(process.user);
+    }
+
+    if (process.elapsedSeconds !== undefined) {
+        parts.push(formatElapsedTime(process.elapsedSeconds));
+    }
+
+    return parts.join(' · ');
+}
+
+// Only public for tests.
+export function formatElapsedTime(seconds: number): string {
+    const days = Math.floor(seconds / 86400);
+    const hours = Math.floor(seconds % 86400 / 3600);
+    const minutes = Math.floor(seconds % 3600 / 60);
+    if (days > 0) {
+        return `up ${days}d ${hours}h`;
+    } else if (hours > 0) {
+        return `up ${hours}h ${minutes}m`;
+    } else if (minutes > 0) {
+        return `up ${minutes}m ${seconds % 60}s`;
+    } else {
+        return `up ${seconds}s`;
+    }
+}
+
+/**
+ * Returns the ids of the processes that host the .NET runtime, found by the diagnostics IPC endpoints the runtime
+ * creates for tools like dotnet-trace: a named pipe on Windows, and a socket in the temp directory on other platforms.
+ * Processes that set DOTNET_EnableDiagnostics=0 don't have one.
+ */
+async function getDiagnosticsEndpointProcessIds(): Promise<Set<string>> {
+    const isWindows = os.platform() === 'win32';
+    try {
+        return getProcessIdsFromDiagnosticsEndpoints(await fs.readdir(isWindows ? '\\\\.\\pipe\\' : os.tmpdir()), isWindows);
+    }
+    catch (err) {
+        return new Set<string>();
+    }
+}
+
+/**
+ * Returns the ids of the processes the diagnostics IPC endpoints among the names of the pipes or temp files are for.
+ */
+export function getProcessIdsFromDiagnosticsEndpoints(endpointNames: string[], isWindows: boolean): Set<string> {
+    const endpointPattern = isWindows ? /^dotnet-diagnostic-(\d+)$/ : /^dotnet-diagnostic-(\d+)-\d+-socket$/;
+    return new Set(endpointNames.map(name => endpointPattern.exec(name)?.[1]).filter((pid): pid is string => pid !== undefined));
+}
+
 export class PsAttachItemsProvider extends DotNetAttachItemsProvider {
+    // Unlike the remote commands, these also list the user and elapsed time, which all ps implementations support.
+    public static get linuxPsCommand() { return `ps axww -o pid=,flags=,etime=,user=,comm=${RemoteAttachPicker.commColumnTitle},args=`; }
+    public static get osxPsCommand() { return `ps axww -o pid=,flags=,etime=,user=,comm=${RemoteAttachPicker.commColumnTitle},args= -c`; }
+
     protected async getInternalProcessEntries(): Promise<Process[]> {
         // the BSD version of ps uses '-c' to have 'comm' only output the executable name and not
         // the full path. The Linux version of ps has 'comm' to only display the name of the executable
         // Note that comm on Linux systems is truncated to 16 characters:
         // https://bugzilla.redhat.com/show_bug.cgi?id=429565
         // Since 'args' contains the full path to the executable, even if truncated, searching will work as desired.
-        const psCommand = os.platform() === 'darwin' ? RemoteAttachPicker.osxPsCommand : RemoteAttachPicker.linuxPsCommand;
+        const psCommand = os.platform() === 'darwin' ? PsAttachItemsProvider.osxPsCommand : PsAttachItemsProvider.linuxPsCommand;
         return execChildProcess(psCommand).then(processes => {
-            return PsOutputParser.parseProcessFromPs(processes);
+            return PsOutputParser.parseProcessWithDetailsFromPs(processes);
         });
     }
+
+    protected async readDotNetProcessDetails(dotnetProcesses: Process[]): Promise<void> {
+        if (os.platform() === 'darwin') {
+            await readDarwinProcessDetails(dotnetProcesses);
+        }
+        else {
+            await Promise.all(dotnetProcesses.map(async process => readLinuxProcessDetails(process)));
+        }
+    }
+}
+
+const runtimeVersionPattern = /[\\/]Microsoft\.NETCore\.App[\\/]([^\\/\s]+)[\\/]libcoreclr\.(?:so|dylib)\s*$/m;
+const windowsRuntimeVersionPattern = /[\\/]Microsoft\.NETCore\.App[\\/]([^\\/]+)[\\/]coreclr\.dll$/i;
+
+async function readLinuxProcessDetails(process: Process): Promise<void> {
+    // Processes of other users can't be inspected without elevation.
+    try {
+        process.workingDirectory = await fs.readlink(`/proc/${process.pid}/cwd`);
+    }
+    catch (err) { }
+
+    try {
+        const maps = await fs.readFile(`/proc/${process.pid}/maps`, 'utf8');
+        process.runtimeVersion = runtimeVersionPattern.exec(maps)?.[1];
+    }
+    catch (err) { }
+}
+
+async function readDarwinProcessDetails(processes: Process[]): Promise<void> {
+    if (processes.length === 0) {
+        return;
+    }
+
+    let output: string;
+    try {
+        // List the working directories and mapped files, as field lines: p<pid>, f<descriptor> and n<name>.
+        output = await execChildProcess(`lsof -a -p ${processes.map(process => process.pid).join(',')} -d cwd,txt -Fpfn`);
+    }
+    catch (err) {
+        return;
+    }
+
+    let process: Process | undefined;
+    let descriptor = '';
+    for (const line of output.split(/\r?\n/)) {
+        const value = line.substring(1);
+        switch (line[0]) {
+            case 'p':
+                process = processes.find(p => p.pid === value);
+                break;
+            case 'f':
+                descriptor = value;
+                break;
+            case 'n':
+                if (process === undefined) {
+                    break;
+                }
+                else if (descriptor === 'cwd') {
+                    process.workingDirectory = value;
+                }
+                else {
+                    process.runtimeVersion = process.runtimeVersion ?? runtimeVersionPattern.exec(value)?.[1];
+                }
+                break;
+        }
+    }
 }
 
 export class PsOutputParser {
@@ -396,6 +583,33 @@ export class PsOutputParser {
         return processEntries;
     }
 
+    // Only public for tests.
+    public static parseProcessWithDetailsFromPs(processes: string): Process[] {
+        // lines[0] is the header of the table
+        return processes.split(os.EOL).slice(1)
+            .filter(line => line)
+            .map(line => this.parseLineWithDetailsFromPs(line))
+            .filter((process): process is Process => process !== undefined);
+    }
+
+    private static parseLineWithDetailsFromPs(line: string): Process | undefined {
+        // Like parseLineFromPs, with the elapsed time ([[dd-]hh:]mm:ss) and user columns before the executable name.
+        const psEntry = new RegExp(`^\\s*([0-9]+)\\s+([0-9a-fA-F]+)\\s+([0-9:-]+)\\s+(\\S+)\\s+(.{${PsOutputParser.secondColumnCharacters - 1}})\\s+(.*)$`);
+        const matches = psEntry.exec(line);
+        if (matches?.length === 7) {
+            return {
+                name: matches[5].trim(),
+                pid: matches[1].trim(),
+                commandLine: matches[6].trim(),
+                flags: parseInt(matches[2].trim(), 16), // flags comes in as hex
+                elapsedSeconds: parseElapsedTime(matches[3]),
+                user: matches[4],
+            };
+        }
+
+        return undefined;
+    }
+
     private static parseLineFromPs(line: string): Process | undefined {
         // Explanation of the regex:
         //   - any leading whitespace
@@ -426,21 +640,63 @@ export class PsOutputParser {
     }
 }
 
+function parseElapsedTime(elapsedTime: string): number {
+    const [days, time] = elapsedTime.includes('-') ? elapsedTime.split('-') : ['0', elapsedTime];
+    const [seconds, minutes, hours] = time.split(':').map(part => parseInt(part, 10)).reverse();
+    return ((parseInt(days, 10) * 24 + (hours ?? 0)) * 60 + (minutes ?? 0)) * 60 + seconds;
+}
+
 export class CimAttachItemsProvider extends DotNetAttachItemsProvider {
     constructor(private pwsh: string) { super(); }
 
     protected async getInternalProcessEntries(): Promise<Process[]> {
         const pwshCommand: string = `${this.pwsh} -NoProfile -Command`;
-        const cimCommand: string = 'Get-CimInstance Win32_Process | Select-Object Name,ProcessId,CommandLine | ConvertTo-JSON';
+        const cimCommand: string = 'Get-CimInstance Win32_Process | Select-Object Name,ProcessId,CommandLine,CreationDate | ConvertTo-JSON';
         const processes: string = await execChildProcess(`${pwshCommand} "${cimCommand}"`);
         return CimProcessParser.ParseProcessFromCim(processes);
     }
+
+    protected async readDotNetProcessDetails(dotnetProcesses: Process[]): Promise<void> {
+        if (dotnetProcesses.length === 0) {
+            return;
+        }
+
+        // The owner and the modules of processes of other users can't be read without elevation, so each is
+        // read on its own. The script is encoded so its quotes survive the command line.
+        const script = `$ids = @(${dotnetProcesses.map(process => process.pid).join(',')})
+$details = foreach ($id in $ids) {
+    $owner = $null
+    $coreclr = $null
+    try { $owner = (Get-CimInstance Win32_Process -Filter "ProcessId = $id" | Invoke-CimMethod -MethodName GetOwner).User } catch { }
+    try { $coreclr = (Get-Process -Id $id).Modules | Where-Object { $_.ModuleName -eq 'coreclr.dll' } | Select-Object -First 1 -ExpandProperty FileName } catch { }
+    [pscustomobject]@{ ProcessId = $id; User = $owner; CoreClrPath = $coreclr }
 }
+ConvertTo-Json -InputObject @($details)`;
+        const encodedScript = Buffer.from(script, 'utf16le').toString('base64');
+
+        let output: string;
+        try {
+            output = await execChildProcess(`${this.pwsh} -NoProfile -EncodedCommand ${encodedScript}`);
+        }
+        catch (err) {
+            return;
+        }
+
+        CimProcessParser.ParseProcessDetailsFromCim(output, dotnetProcesses);
+    }
+}
+
+type CimProcessDetails = {
+    ProcessId: number;
+    User: string | null;
+    CoreClrPath: string | null;
+};
 
 type CimProcessInfo = {
     Name: string;
     ProcessId: number;
     CommandLine: string | null;
+    CreationDate?: string | null;
 };
 
 export class CimProcessParser {
@@ -458,13 +714,52 @@ export class CimProcessParser {
             if (commandLine?.startsWith(this.ntObjectManagerPathPrefix)) {
                 commandLine = commandLine.slice(this.ntObjectManagerPathPrefix.length);
             }
-            return {
+            const process: Process = {
                 name: info.Name,
                 pid: `${info.ProcessId}`,
                 commandLine,
             };
+
+            const creationTime = this.parseCreationDate(info.CreationDate);
+            if (creationTime !== undefined) {
+                process.elapsedSeconds = Math.max(0, Math.floor((Date.now() - creationTime) / 1000));
+            }
+
+            return process;
         });
     }
+
+    // Only public for tests.
+    public static ParseProcessDetailsFromCim(details: string, processes: Process[]): void {
+        let processDetails: CimProcessDetails[];
+        try {
+            processDetails = JSON.parse(details);
+        }
+        catch (err) {
+            return;
+        }
+
+        for (const info of processDetails) {
+            const process = processes.find(p => p.pid === `${info.ProcessId}`);
+            if (process === undefined) {
+                continue;
+            }
+
+            process.user = info.User ?? undefined;
+            process.runtimeVersion = info.CoreClrPath ? windowsRuntimeVersionPattern.exec(info.CoreClrPath)?.[1] : undefined;
+        }
+    }
+
+    // Windows PowerShell serializes dates as "/Date(<milliseconds>)/", and PowerShell 7 as ISO 8601 strings.
+    private static parseCreationDate(creationDate: string | null | undefined): number | undefined {
+        if (!creationDate) {
+            return undefined;
+        }
+
+        const milliseconds = /^\/Date\((-?\d+)\)\/$/.exec(creationDate);
+        const time = milliseconds !== null ? parseInt(milliseconds[1], 10) : Date.parse(creationDate);
+        return isNaN(time) ? undefined : time;
+    }
 }
 
 export class WmicAttachItemsProvider extends DotNetAttachItemsProvider {
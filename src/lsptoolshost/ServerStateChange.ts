@@ -6,4 +6,10 @@
 export enum ServerStateChange {
     Started = 0,
     ProjectInitializationComplete = 1,
+    Starting = 2,
+    Stopped = 3,
+    /**
+     * The server stopped without being asked to, e.g. because it crashed or failed to start.
+     */
+    Errored = 4,
 }
\ No newline at end of file
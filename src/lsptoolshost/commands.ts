@@ -7,7 +7,7 @@ import * as vscode from 'vscode';
 import { UriConverter } from './uriConverter';
 import * as languageClient from 'vscode-languageclient/node';
 import { RoslynLanguageServer } from './roslynLanguageServer';
-import { createLaunchTargetForSolution } from '../shared/LaunchTarget';
+import { LaunchTargetKind, createLaunchTargetForFolder, createLaunchTargetForProject, createLaunchTargetForSolution } from '../shared/LaunchTarget';
 
 export function registerCommands(context: vscode.ExtensionContext, languageServer: RoslynLanguageServer) {
     // It is very important to be careful about the types used as parameters for these command callbacks.
@@ -23,6 +23,7 @@ export function registerCommands(context: vscode.ExtensionContext, languageServe
     context.subscriptions.push(vscode.commands.registerCommand('roslyn.client.completionComplexEdit', completionComplexEdit));
     context.subscriptions.push(vscode.commands.registerCommand('dotnet.restartServer', async () => restartServer(languageServer)));
     context.subscriptions.push(vscode.commands.registerCommand('dotnet.openSolution', async () => openSolution(languageServer)));
+    context.subscriptions.push(vscode.commands.registerCommand('dotnet.openProjects', async () => openProjects(languageServer)));
 }
 
 /**
@@ -109,15 +110,70 @@ async function openSolution(languageServer: RoslynLanguageServer): Promise<void>
     return;
   }
 
+  const openSolutionPaths = languageServer.getSolutionFiles().map(solutionFile => solutionFile.fsPath);
   const solutionFiles = await vscode.workspace.findFiles('**/*.sln');
-  const launchTargets = solutionFiles.map(createLaunchTargetForSolution);
-  const launchTarget = await vscode.window.showQuickPick(launchTargets, {
+  if (solutionFiles.length === 0) {
+    // Without a solution the user can still load individual projects.
+    return openProjects(languageServer);
+  }
+
+  const launchTargets = solutionFiles.map(createLaunchTargetForSolution).map(launchTarget => ({
+    ...launchTarget,
+    picked: openSolutionPaths.includes(launchTarget.target)
+  }));
+
+  // Solutions from different workspace folders can be opened side by side.
+  const selectedTargets = await vscode.window.showQuickPick(launchTargets, {
     matchOnDescription: true,
-    placeHolder: `Select solution file`
+    canPickMany: true,
+    placeHolder: `Select solution files`
   });
 
-  if (launchTarget) {
-    languageServer.openSolution(vscode.Uri.file(launchTarget.target));
+  if (selectedTargets && selectedTargets.length > 0) {
+    languageServer.openSolutions(selectedTargets.map(launchTarget => vscode.Uri.file(launchTarget.target)), true);
   }
 }
 
+async function openProjects(languageServer: RoslynLanguageServer): Promise<void> {
+  if (!vscode.workspace.workspaceFolders) {
+    return;
+  }
+
+  const openProjectPaths = languageServer.getProjectFiles().map(projectFile => projectFile.fsPath);
+  const projectFiles = await vscode.workspace.findFiles('**/*.csproj', '**/node_modules/**');
+  const launchTargets = [
+    ...vscode.workspace.workspaceFolders.map(createLaunchTargetForFolder),
+    ...projectFiles.map(createLaunchTargetForProject)
+  ].map(launchTarget => ({
+    ...launchTarget,
+    picked: openProjectPaths.includes(launchTarget.target)
+  }));
+
+  const selectedTargets = await vscode.window.showQuickPick(launchTargets, {
+    matchOnDescription: true,
+    canPickMany: true,
+    placeHolder: `Select project files or folders`
+  });
+
+  if (!selectedTargets || selectedTargets.length === 0) {
+    return;
+  }
+
+  // A folder stands for all of the projects it contains.
+  const selectedProjectPaths = new Set<string>();
+  for (const launchTarget of selectedTargets) {
+    if (launchTarget.workspaceKind === LaunchTargetKind.Folder) {
+      const folderProjectFiles = await vscode.workspace.findFiles(new vscode.RelativePattern(launchTarget.target, '**/*.csproj'), '**/node_modules/**');
+      folderProjectFiles.forEach(projectFile => selectedProjectPaths.add(projectFile.fsPath));
+    } else {
+      selectedProjectPaths.add(launchTarget.target);
+    }
+  }
+
+  if (selectedProjectPaths.size === 0) {
+    vscode.window.showWarningMessage('No project files were found in the selected folders.');
+    return;
+  }
+
+  languageServer.openProjects([...selectedProjectPaths].map(projectPath => vscode.Uri.file(projectPath)), true);
+}
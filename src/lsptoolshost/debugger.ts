@@ -4,7 +4,7 @@
  *--------------------------------------------------------------------------------------------*/
 
 import * as vscode from 'vscode';
-import { addAssetsIfNecessary, generateAssets } from '../shared/assets';
+import { addAssetsIfNecessary, generateAssets, watchLaunchSettingsProfiles } from '../shared/assets';
 import { DotnetWorkspaceConfigurationProvider } from '../shared/workspaceConfigurationProvider';
 import { IWorkspaceDebugInformationProvider } from '../shared/IWorkspaceDebugInformationProvider';
 import { RoslynLanguageServer } from './roslynLanguageServer';
@@ -14,12 +14,20 @@ import OptionProvider from '../shared/observers/OptionProvider';
 import { ServerStateChange } from './ServerStateChange';
 import { DotnetConfigurationResolver } from '../shared/dotnetConfigurationProvider';
 import { getCSharpDevKit } from '../utils/getCSharpDevKit';
+import { DotnetTaskProvider, dotnetTaskType } from '../shared/dotnetTaskProvider';
+import { AutoRestore } from '../shared/autoRestore';
+import { ProjectExplorer } from '../shared/projectExplorer';
 
 export function registerDebugger(context: vscode.ExtensionContext, languageServer: RoslynLanguageServer, platformInfo: PlatformInformation, optionProvider: OptionProvider, csharpOutputChannel: vscode.OutputChannel) {
     let workspaceInformationProvider: IWorkspaceDebugInformationProvider = new RoslynWorkspaceDebugInformationProvider(languageServer);
+    const dotnetTaskProvider = new DotnetTaskProvider(workspaceInformationProvider);
+    const projectExplorer = new ProjectExplorer(workspaceInformationProvider, dotnetTaskProvider);
+    context.subscriptions.push(projectExplorer);
 
     let disposable = languageServer.registerStateChangeEvent(async (state) => {
         if (state === ServerStateChange.ProjectInitializationComplete) {
+            projectExplorer.refresh();
+
             let csharpDevkitExtension = getCSharpDevKit();
             if (!csharpDevkitExtension) {
                 // Update or add tasks.json and launch.json
@@ -30,7 +38,16 @@ export function registerDebugger(context: vscode.ExtensionContext, languageServe
     context.subscriptions.push(disposable);
 
     // Register ConfigurationProvider
-    context.subscriptions.push(vscode.debug.registerDebugConfigurationProvider('dotnet', new DotnetConfigurationResolver(workspaceInformationProvider)));
+    const dotnetConfigurationResolver = new DotnetConfigurationResolver(workspaceInformationProvider, context.workspaceState);
+    context.subscriptions.push(vscode.debug.registerDebugConfigurationProvider('dotnet', dotnetConfigurationResolver));
     context.subscriptions.push(vscode.debug.registerDebugConfigurationProvider('coreclr', new DotnetWorkspaceConfigurationProvider(workspaceInformationProvider, platformInfo, optionProvider, csharpOutputChannel)));
     context.subscriptions.push(vscode.commands.registerCommand('dotnet.generateAssets', async (selectedIndex) => generateAssets(workspaceInformationProvider, selectedIndex)));
+    context.subscriptions.push(watchLaunchSettingsProfiles(workspaceInformationProvider));
+    context.subscriptions.push(vscode.commands.registerCommand('dotnet.debug.resetLaunchTargets', async () => dotnetConfigurationResolver.resetSelectedLaunchTargets()));
+
+    // Register the dotnet tasks, which are also how projects are restored with this server.
+    context.subscriptions.push(vscode.tasks.registerTaskProvider(dotnetTaskType, dotnetTaskProvider));
+    context.subscriptions.push(vscode.commands.registerCommand('dotnet.restore.project', async () => dotnetTaskProvider.pickProjectAndRestore()));
+    context.subscriptions.push(vscode.commands.registerCommand('dotnet.restore.all', async () => dotnetTaskProvider.restoreAllProjects()));
+    context.subscriptions.push(new AutoRestore(workspaceInformationProvider, optionProvider));
 }
\ No newline at end of file
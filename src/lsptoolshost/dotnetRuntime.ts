@@ -5,6 +5,8 @@
 
 import * as vscode from 'vscode';
 import { CSharpExtensionId } from '../constants/CSharpExtensionId';
+import { HostExecutableInformation } from '../shared/constants/HostExecutableInformation';
+import { IHostExecutableResolver } from '../shared/constants/IHostExecutableResolver';
 
 export const DotNetRuntimeVersion = '7.0';
 
@@ -56,3 +58,12 @@ export async function acquireDotNetProcessDependencies(path: string) {
 
     return dotnetPath;
 }
+
+/**
+ * Resolves the .NET runtime the language server runs on, e.g. to report its information in issues.
+ */
+export class RuntimeResolver implements IHostExecutableResolver {
+    public async getHostExecutableInfo(): Promise<HostExecutableInformation> {
+        return { version: DotNetRuntimeVersion, path: await acquireRuntime(), env: process.env };
+    }
+}
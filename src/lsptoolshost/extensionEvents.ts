@@ -0,0 +1,60 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { LanguageServerState } from '../CSharpExtensionEvents';
+import { EventSinks, registerDiagnosticsSummary } from '../shared/eventSinks';
+import { RoslynLanguageServer } from './roslynLanguageServer';
+import { RoslynWorkspaceDebugInformationProvider } from './RoslynWorkspaceDebugConfigurationProvider';
+import { ServerStateChange } from './ServerStateChange';
+
+const serverStates: { [state in ServerStateChange]: LanguageServerState } = {
+    [ServerStateChange.Starting]: 'starting',
+    [ServerStateChange.Started]: 'started',
+    [ServerStateChange.ProjectInitializationComplete]: 'projectsLoaded',
+    [ServerStateChange.Stopped]: 'stopped',
+    [ServerStateChange.Errored]: 'errored',
+};
+
+/**
+ * Posts the events of the Roslyn language server to the event sinks other extensions registered.
+ */
+export function registerExtensionEvents(context: vscode.ExtensionContext, languageServer: RoslynLanguageServer, eventSinks: EventSinks) {
+    // The server doesn't report projects one by one, so they are compared to the projects loaded before.
+    const workspaceInformationProvider = new RoslynWorkspaceDebugInformationProvider(languageServer);
+    let loadedProjects = new Set<string>();
+
+    const updateLoadedProjects = async () => {
+        const projects = new Set<string>();
+        for (const workspaceFolder of vscode.workspace.workspaceFolders ?? []) {
+            const folderProjects = await workspaceInformationProvider.getWorkspaceDebugInformation(workspaceFolder.uri);
+            folderProjects?.forEach(project => projects.add(project.projectPath));
+        }
+
+        setLoadedProjects(projects);
+    };
+
+    const setLoadedProjects = (projects: Set<string>) => {
+        [...loadedProjects].filter(projectPath => !projects.has(projectPath))
+            .forEach(projectPath => eventSinks.postProjectUnloaded({ server: 'roslyn', projectPath }));
+        [...projects].filter(projectPath => !loadedProjects.has(projectPath))
+            .forEach(projectPath => eventSinks.postProjectLoaded({ server: 'roslyn', projectPath }));
+        loadedProjects = projects;
+    };
+
+    context.subscriptions.push(
+        languageServer.registerStateChangeEvent(async state => {
+            eventSinks.postServerStateChanged({ server: 'roslyn', state: serverStates[state] });
+
+            if (state === ServerStateChange.ProjectInitializationComplete) {
+                await updateLoadedProjects();
+            }
+            else if (state === ServerStateChange.Stopped || state === ServerStateChange.Errored) {
+                setLoadedProjects(new Set<string>());
+            }
+        }),
+        languageServer.registerRequestCompletedEvent((method, durationMs) => eventSinks.postRequestCompleted({ server: 'roslyn', method, durationMs })),
+        registerDiagnosticsSummary(eventSinks, 'roslyn'));
+}
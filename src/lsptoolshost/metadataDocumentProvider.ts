@@ -0,0 +1,131 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { TextDocumentIdentifier } from 'vscode-languageclient/node';
+import { RoslynLanguageServer } from './roslynLanguageServer';
+import { MetadataSourceRequest, RoslynProtocol } from './roslynProtocol';
+import { ServerStateChange } from './ServerStateChange';
+import { UriConverter } from './uriConverter';
+import { MetadataSourceCache } from './metadataSourceCache';
+import { getDecompilationTermsAcceptance, resetDecompilationAuthorization } from '../omnisharp/decompilationPrompt';
+
+const hasSourceLinkContextKey = 'dotnet.metadataDocumentHasSourceLink';
+
+export function registerMetadataDocumentProvider(context: vscode.ExtensionContext, languageServer: RoslynLanguageServer) {
+    const provider = new MetadataDocumentProvider(context, languageServer);
+    context.subscriptions.push(provider);
+    context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(MetadataDocumentProvider.scheme, provider));
+    context.subscriptions.push(vscode.commands.registerCommand('dotnet.openSourceLink', async (uri?: vscode.Uri) => provider.openSourceLink(uri)));
+    context.subscriptions.push(vscode.commands.registerCommand('csharp.showDecompilationTerms', async () => provider.showDecompilationTerms()));
+}
+
+/**
+ * Provides the contents of the csharp-metadata documents the server returns as the location of symbols defined in
+ * referenced assemblies, e.g. when going to the definition of a type from a NuGet package. The documents are opened
+ * as C# so the language client synchronizes them with the server, which lets features like find all references
+ * work within them.
+ */
+class MetadataDocumentProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    public static readonly scheme = 'csharp-metadata';
+
+    /**
+     * Decompiling is expensive, so keep the sources of this many documents around after they are closed.
+     */
+    private static readonly maxCachedDocuments = 50;
+
+    private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    public readonly onDidChange = this._onDidChange.event;
+
+    private _documents = new MetadataSourceCache(MetadataDocumentProvider.maxCachedDocuments);
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor(private _context: vscode.ExtensionContext, private _languageServer: RoslynLanguageServer) {
+        this._disposables.push(
+            this._onDidChange,
+            vscode.workspace.onDidOpenTextDocument(async document => this.onDidOpenTextDocument(document)),
+            vscode.window.onDidChangeActiveTextEditor(editor => this.updateSourceLinkContext(editor)),
+            _languageServer.registerStateChangeEvent(async state => {
+                // The sources are tied to the workspace the server loaded, so get them again from the new server.
+                if (state === ServerStateChange.Starting) {
+                    this._documents.clear();
+                }
+            }));
+    }
+
+    public dispose() {
+        this._disposables.forEach(disposable => disposable.dispose());
+        this._documents.clear();
+    }
+
+    public async provideTextDocumentContent(uri: vscode.Uri, token: vscode.CancellationToken): Promise<string> {
+        const key = uri.toString();
+        let source = this._documents.get(key);
+        if (source === undefined) {
+            const params: RoslynProtocol.MetadataSourceParams = {
+                textDocument: TextDocumentIdentifier.create(UriConverter.serialize(uri)),
+                allowDecompilation: await this.isDecompilationAllowed()
+            };
+
+            // The server has no source for symbols it can't find anymore, e.g. after their project was unloaded.
+            const result = await this._languageServer.sendRequest(MetadataSourceRequest.type, params, token);
+            if (result === null) {
+                this.updateSourceLinkContext(vscode.window.activeTextEditor);
+                return '// The source of this symbol is not available.';
+            }
+
+            source = result;
+            this._documents.set(key, source);
+        }
+
+        this.updateSourceLinkContext(vscode.window.activeTextEditor);
+        return source.text;
+    }
+
+    public async openSourceLink(uri: vscode.Uri | undefined) {
+        uri = uri ?? vscode.window.activeTextEditor?.document.uri;
+        const sourceLinkUri = uri !== undefined ? this._documents.getSourceLinkUri(uri.toString()) : undefined;
+        if (sourceLinkUri === undefined) {
+            vscode.window.showInformationMessage('The assembly this document was generated from has no SourceLink information.');
+            return;
+        }
+
+        await vscode.env.openExternal(vscode.Uri.parse(sourceLinkUri));
+    }
+
+    public async showDecompilationTerms() {
+        await resetDecompilationAuthorization(this._context);
+        await getDecompilationTermsAcceptance(this._context);
+
+        // The open documents may have been generated with the previous answer.
+        this._documents.clear();
+        for (const document of vscode.workspace.textDocuments) {
+            if (document.uri.scheme === MetadataDocumentProvider.scheme) {
+                this._onDidChange.fire(document.uri);
+            }
+        }
+    }
+
+    private async isDecompilationAllowed() {
+        const navigateToDecompiledSources = vscode.workspace.getConfiguration().get<boolean>('dotnet.navigation.navigateToDecompiledSources', true);
+        if (!navigateToDecompiledSources) {
+            return false;
+        }
+
+        return getDecompilationTermsAcceptance(this._context);
+    }
+
+    private async onDidOpenTextDocument(document: vscode.TextDocument) {
+        // The language is picked from the file extension of the document, which not every generated document has.
+        if (document.uri.scheme === MetadataDocumentProvider.scheme && document.languageId !== 'csharp') {
+            await vscode.languages.setTextDocumentLanguage(document, 'csharp');
+        }
+    }
+
+    private updateSourceLinkContext(editor: vscode.TextEditor | undefined) {
+        const hasSourceLink = editor !== undefined && this._documents.getSourceLinkUri(editor.document.uri.toString()) !== undefined;
+        vscode.commands.executeCommand('setContext', hasSourceLinkContextKey, hasSourceLink);
+    }
+}
@@ -0,0 +1,56 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { RoslynProtocol } from './roslynProtocol';
+
+/**
+ * Keeps the sources of the most recently used metadata documents, by document URI, as decompiling is expensive.
+ */
+export class MetadataSourceCache {
+    // Maps keep their insertion order, so the least recently used source is the first one.
+    private _sources = new Map<string, RoslynProtocol.MetadataSourceResult>();
+
+    public constructor(private readonly _maxSize: number) {
+    }
+
+    public get size(): number {
+        return this._sources.size;
+    }
+
+    /**
+     * Returns the source of a document and marks it as the most recently used one.
+     */
+    public get(uri: string): RoslynProtocol.MetadataSourceResult | undefined {
+        const source = this._sources.get(uri);
+        if (source !== undefined) {
+            this._sources.delete(uri);
+            this._sources.set(uri, source);
+        }
+
+        return source;
+    }
+
+    /**
+     * Adds the source of a document, evicting the least recently used source when the cache is full.
+     */
+    public set(uri: string, source: RoslynProtocol.MetadataSourceResult): void {
+        this._sources.delete(uri);
+        this._sources.set(uri, source);
+        if (this._sources.size > this._maxSize) {
+            this._sources.delete(this._sources.keys().next().value);
+        }
+    }
+
+    /**
+     * Returns the location of the original source file of a document, without marking it as used.
+     */
+    public getSourceLinkUri(uri: string): string | undefined {
+        return this._sources.get(uri)?.sourceLinkUri;
+    }
+
+    public clear(): void {
+        this._sources.clear();
+    }
+}
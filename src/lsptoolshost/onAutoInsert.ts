@@ -0,0 +1,145 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { FormattingOptions, InsertTextFormat, TextDocumentIdentifier } from 'vscode-languageclient/node';
+import { RoslynLanguageServer } from './roslynLanguageServer';
+import { OnAutoInsertRequest, RoslynProtocol } from './roslynProtocol';
+import { UriConverter } from './uriConverter';
+import OptionProvider from '../shared/observers/OptionProvider';
+import { LanguageServerOptions } from '../shared/options';
+
+/**
+ * A change in a document that may trigger the server to insert text, e.g. a typed '/' that completes a '///'.
+ */
+interface AutoInsertTrigger {
+    /**
+     * The trigger character as the server knows it.
+     */
+    character: string;
+
+    /**
+     * The position of the caret after the trigger character was inserted.
+     */
+    position: vscode.Position;
+}
+
+export function registerOnAutoInsert(context: vscode.ExtensionContext, languageServer: RoslynLanguageServer, optionProvider: OptionProvider) {
+    let source = new vscode.CancellationTokenSource();
+    context.subscriptions.push(vscode.workspace.onDidChangeTextDocument(async e => {
+        const options = optionProvider.GetLatestOptions().languageServerOptions;
+        if (!options.documentSelector.includes(e.document.languageId)) {
+            return;
+        }
+
+        if (e.contentChanges.length === 0) {
+            return;
+        }
+
+        const capabilities = await languageServer.getServerCapabilities();
+        if (!capabilities?._vs_onAutoInsertProvider) {
+            return;
+        }
+
+        // With multiple cursors there is one change per cursor, all typing the same text.
+        const triggers = getAutoInsertTriggers(e, capabilities._vs_onAutoInsertProvider._vs_triggerCharacters);
+        const enabledTriggers = triggers.filter(trigger => isAutoInsertEnabled(e.document, trigger, options));
+        if (enabledTriggers.length === 0) {
+            return;
+        }
+
+        source.cancel();
+        source = new vscode.CancellationTokenSource();
+        await applyAutoInsertEdits(languageServer, e.document, enabledTriggers, source.token);
+    }));
+}
+
+function getAutoInsertTriggers(e: vscode.TextDocumentChangeEvent, triggerCharacters: string[]): AutoInsertTrigger[] {
+    const firstText = e.contentChanges[0].text;
+    if (e.contentChanges.some(change => !change.range.isEmpty || change.text !== firstText)) {
+        return [];
+    }
+
+    // Pressing enter inserts the line break followed by the indentation of the new line.
+    const character = /^\r?\n[ \t]*$/.test(firstText) ? '\n' : firstText;
+    if (!triggerCharacters.includes(character)) {
+        return [];
+    }
+
+    // Change ranges are relative to the document before the edit, so shift each one by the text inserted before it.
+    const changes = [...e.contentChanges].sort((a, b) => a.rangeOffset - b.rangeOffset);
+    return changes.map((change, index) => ({
+        character,
+        position: e.document.positionAt(change.rangeOffset + (index + 1) * change.text.length)
+    }));
+}
+
+function isAutoInsertEnabled(document: vscode.TextDocument, trigger: AutoInsertTrigger, options: LanguageServerOptions): boolean {
+    switch (trigger.character) {
+        case '/':
+            return options.autoInsertDocumentationComments;
+        case '"':
+            return options.autoInsertRawStringLiterals;
+        case '\n':
+            // A new line either continues a documentation comment or is typed between a pair of braces.
+            const previousLine = trigger.position.line > 0 ? document.lineAt(trigger.position.line - 1).text : '';
+            return previousLine.trimStart().startsWith('///')
+                ? options.autoInsertDocumentationComments
+                : options.autoInsertBraceCompletion;
+        default:
+            return true;
+    }
+}
+
+async function applyAutoInsertEdits(languageServer: RoslynLanguageServer, document: vscode.TextDocument, triggers: AutoInsertTrigger[], token: vscode.CancellationToken) {
+    const version = document.version;
+    const textDocument = TextDocumentIdentifier.create(UriConverter.serialize(document.uri));
+    const formattingOptions = getFormattingOptions();
+
+    const responses = await Promise.all(triggers.map(async trigger => {
+        const request: RoslynProtocol.OnAutoInsertParams = { _vs_textDocument: textDocument, _vs_position: trigger.position, _vs_ch: trigger.character, _vs_options: formattingOptions };
+        return languageServer.sendRequest(OnAutoInsertRequest.type, request, token);
+    }));
+
+    // The edits were computed for this version of the document; don't apply them if the user kept typing.
+    if (token.isCancellationRequested || document.version !== version) {
+        return;
+    }
+
+    const textEdits = responses
+        .filter((response): response is RoslynProtocol.OnAutoInsertResponseItem => !!response)
+        .map(response => createTextEdit(response));
+    if (textEdits.length === 0) {
+        return;
+    }
+
+    let edit = new vscode.WorkspaceEdit();
+    edit.set(document.uri, textEdits);
+
+    const applied = await vscode.workspace.applyEdit(edit);
+    if (!applied) {
+        throw new Error("Tried to insert text but an error occurred.");
+    }
+}
+
+function createTextEdit(response: RoslynProtocol.OnAutoInsertResponseItem): vscode.TextEdit {
+    const textEdit = response._vs_textEdit;
+    const range = new vscode.Range(textEdit.range.start.line, textEdit.range.start.character, textEdit.range.end.line, textEdit.range.end.character);
+
+    if (response._vs_textEditFormat === InsertTextFormat.PlainText) {
+        return vscode.TextEdit.replace(range, textEdit.newText);
+    }
+
+    // SnippetTextEdit isn't in the version of the VS Code API we compile against.
+    const code: any = vscode;
+    return new code.SnippetTextEdit(range, new vscode.SnippetString(textEdit.newText));
+}
+
+function getFormattingOptions() : FormattingOptions {
+    const editorConfig = vscode.workspace.getConfiguration('editor');
+    const tabSize = editorConfig.get<number>('tabSize') ?? 4;
+    const insertSpaces = editorConfig.get<boolean>('insertSpaces') ?? true;
+    return FormattingOptions.create(tabSize, insertSpaces);
+}
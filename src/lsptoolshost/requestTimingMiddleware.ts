@@ -0,0 +1,56 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+/**
+ * The LSP methods of the requests VS Code makes through the language client, by the name of the middleware that
+ * intercepts them. Workspace diagnostics are left out as the request stays open to stream the diagnostics.
+ */
+export const timedRequestMethods: { readonly [middleware: string]: string } = {
+    provideCompletionItem: 'textDocument/completion',
+    resolveCompletionItem: 'completionItem/resolve',
+    provideHover: 'textDocument/hover',
+    provideSignatureHelp: 'textDocument/signatureHelp',
+    provideDefinition: 'textDocument/definition',
+    provideTypeDefinition: 'textDocument/typeDefinition',
+    provideImplementation: 'textDocument/implementation',
+    provideReferences: 'textDocument/references',
+    provideDocumentHighlights: 'textDocument/documentHighlight',
+    provideDocumentSymbols: 'textDocument/documentSymbol',
+    provideWorkspaceSymbols: 'workspace/symbol',
+    provideCodeActions: 'textDocument/codeAction',
+    resolveCodeAction: 'codeAction/resolve',
+    provideCodeLenses: 'textDocument/codeLens',
+    resolveCodeLens: 'codeLens/resolve',
+    provideDocumentFormattingEdits: 'textDocument/formatting',
+    provideDocumentRangeFormattingEdits: 'textDocument/rangeFormatting',
+    provideOnTypeFormattingEdits: 'textDocument/onTypeFormatting',
+    provideRenameEdits: 'textDocument/rename',
+    provideFoldingRanges: 'textDocument/foldingRange',
+    provideInlayHints: 'textDocument/inlayHint',
+    resolveInlayHint: 'inlayHint/resolve',
+    provideDocumentSemanticTokens: 'textDocument/semanticTokens/full',
+    provideDocumentSemanticTokensEdits: 'textDocument/semanticTokens/full/delta',
+    provideDocumentRangeSemanticTokens: 'textDocument/semanticTokens/range',
+    provideDiagnostics: 'textDocument/diagnostic',
+};
+
+/**
+ * Creates language client middleware that reports the time the requests in timedRequestMethods took to complete
+ * successfully. Every middleware gets the function that makes the request as its last argument.
+ */
+export function createRequestTimingMiddleware(onRequestCompleted: (method: string, durationMs: number) => void): { [middleware: string]: (...args: any[]) => Promise<any> } {
+    const middleware: { [middleware: string]: (...args: any[]) => Promise<any> } = {};
+    for (const [name, method] of Object.entries(timedRequestMethods)) {
+        middleware[name] = async (...args: any[]) => {
+            const next: (...nextArgs: any[]) => any = args.pop();
+            const startTime = Date.now();
+            const result = await next(...args);
+            onRequestCompleted(method, Date.now() - startTime);
+            return result;
+        };
+    }
+
+    return middleware;
+}
@@ -9,6 +9,10 @@ import * as path from 'path';
 import * as cp from 'child_process';
 import { registerCommands } from './commands';
 import { registerDebugger } from './debugger';
+import { registerUnitTestingCommands } from './unitTesting';
+import { registerServerStatus } from './serverStatus';
+import { registerOnAutoInsert } from './onAutoInsert';
+import { registerMetadataDocumentProvider } from './metadataDocumentProvider';
 import { UriConverter } from './uriConverter';
 
 import {
@@ -24,8 +28,6 @@ import {
     Trace,
     RequestType,
     RequestType0,
-    FormattingOptions,
-    TextDocumentIdentifier,
     DocumentDiagnosticRequest,
     DocumentDiagnosticReport,
     CancellationToken,
@@ -37,6 +39,8 @@ import {
     CompletionRequest,
     CompletionResolveRequest,
     CompletionItem,
+    PartialResultParams,
+    ProtocolRequestType,
 } from 'vscode-languageclient/node';
 import { PlatformInformation } from '../shared/platform';
 import { acquireDotNetProcessDependencies } from './dotnetRuntime';
@@ -46,7 +50,7 @@ import { DynamicFileInfoHandler } from '../razor/src/DynamicFile/DynamicFileInfo
 import ShowInformationMessage from '../shared/observers/utils/ShowInformationMessage';
 import EventEmitter = require('events');
 import Disposable from '../Disposable';
-import { RegisterSolutionSnapshotRequest, OnAutoInsertRequest, RoslynProtocol, ProjectInitializationCompleteNotification } from './roslynProtocol';
+import { RegisterSolutionSnapshotRequest, RoslynProtocol, ProjectInitializationCompleteNotification, DebugAttachRequest, OpenSolutionsNotification, OpenProjectNotification, ProjectLoadProgressNotification, ProjectLoadFailedNotification } from './roslynProtocol';
 import { OpenSolutionParams } from './OpenSolutionParams';
 import { CSharpDevKitExports } from '../CSharpDevKitExports';
 import { ISolutionSnapshotProvider, SolutionSnapshotId } from './services/ISolutionSnapshotProvider';
@@ -56,6 +60,11 @@ import TelemetryReporter from '@vscode/extension-telemetry';
 import CSharpIntelliCodeExports from '../CSharpIntelliCodeExports';
 import { csharpDevkitExtensionId, getCSharpDevKit } from '../utils/getCSharpDevKit';
 import { randomUUID } from 'crypto';
+import { ServerCrashSupervisor } from './serverCrashSupervisor';
+import { EventSinks } from '../shared/eventSinks';
+import { registerExtensionEvents } from './extensionEvents';
+import { getProjectFilesExcludePattern, getRememberedWorkspaceTargets, maxDefaultProjects, rememberWorkspaceTargets } from './workspaceTargets';
+import { createRequestTimingMiddleware } from './requestTimingMiddleware';
 
 let _languageServer: RoslynLanguageServer;
 let _channel: vscode.OutputChannel;
@@ -85,6 +94,17 @@ export class RoslynLanguageServer {
      */
     private static readonly serverStateChangeEvent: string = "serverStateChange";
 
+    /**
+     * Event names used to fire events to the _eventBus when the server reports progress loading projects.
+     */
+    private static readonly projectLoadProgressEvent: string = "projectLoadProgress";
+    private static readonly projectLoadFailedEvent: string = "projectLoadFailed";
+
+    /**
+     * Event name used to fire events to the _eventBus when a request the extension made completes.
+     */
+    private static readonly requestCompletedEvent: string = "requestCompleted";
+
     /**
      * The timeout for stopping the language server (in ms).
      */
@@ -106,11 +126,33 @@ export class RoslynLanguageServer {
     private _eventBus = new EventEmitter();
 
     /**
-     * The solution file previously opened; we hold onto this so we can send this back over if the server were to be relaunched for any reason, like some other configuration
+     * The solution files previously opened; we hold onto these so we can send them back over if the server were to be relaunched for any reason, like some other configuration
      * change that required the server to restart, or some other catastrophic failure that completely took down the process. In the case that the process is crashing because
-     * of trying to load this solution file, we'll rely on VS Code's support to eventually stop relaunching the LSP server entirely.
+     * of trying to load these solution files, we'll rely on VS Code's support to eventually stop relaunching the LSP server entirely.
      */
-    private _solutionFile: vscode.Uri | undefined;
+    private _solutionFiles: vscode.Uri[] | undefined;
+
+    /**
+     * The project files previously opened outside of any solution; held onto for the same reason as _solutionFiles.
+     */
+    private _projectFiles: vscode.Uri[] | undefined;
+
+    /**
+     * Keeps diagnostic information about the server process and decides whether to restart it after a crash.
+     * Lives across restarts of the language client so that repeated crashes can be detected.
+     */
+    private _crashSupervisor: ServerCrashSupervisor;
+
+    /**
+     * The server and dotnet paths the server process was last started with, for crash reports.
+     */
+    private _serverPath: string | undefined;
+    private _dotnetPath: string | undefined;
+
+    /**
+     * Set while we are stopping the server ourselves, to tell a requested stop apart from a crash.
+     */
+    private _isStopping: boolean = false;
 
     constructor(
         private platformInfo: PlatformInformation,
@@ -118,6 +160,14 @@ export class RoslynLanguageServer {
         private context: vscode.ExtensionContext,
         private telemetryReporter: TelemetryReporter
     ) {
+        this._crashSupervisor = new ServerCrashSupervisor(context, optionProvider, _channel, () => ({
+            serverPath: this._serverPath ?? '',
+            serverVersion: optionProvider.GetLatestOptions().commonOptions.serverPath ? 'custom' : context.extension.packageJSON.defaults.roslyn,
+            dotnetPath: this._dotnetPath ?? '',
+            solutions: this.getSolutionFiles().map(solutionFile => solutionFile.fsPath),
+            projects: this.getProjectFiles().map(projectFile => projectFile.fsPath)
+        }));
+
         // subscribe to extension change events so that we can get notified if C# Dev Kit is added/removed later.
         this.context.subscriptions.push(vscode.extensions.onDidChange(async () => {
             let csharpDevkitExtension = getCSharpDevKit();
@@ -172,8 +222,9 @@ export class RoslynLanguageServer {
                 // Notify the server about file changes to '.clientrc files contain in the workspace
                 fileEvents: vscode.workspace.createFileSystemWatcher('**/*.*')
             },
-            traceOutputChannel: _traceChannel,
+            traceOutputChannel: this._crashSupervisor.recordTraces(_traceChannel),
             outputChannel: _channel,
+            errorHandler: this._crashSupervisor,
             uriConverters: {
                 // VSCode encodes the ":" as "%3A" in file paths, for example "file:///c%3A/Users/dabarbet/source/repos/ConsoleApp8/ConsoleApp8/Program.cs".
                 // System.Uri does not decode the LocalPath property correctly into a valid windows path, instead you get something like
@@ -184,6 +235,7 @@ export class RoslynLanguageServer {
                 protocol2Code: UriConverter.deserialize,
             },
             middleware: {
+                ...createRequestTimingMiddleware((method, durationMs) => this._eventBus.emit(RoslynLanguageServer.requestCompletedEvent, method, durationMs)),
                 workspace: {
                     configuration: (params) => readConfigurations(params),
                 }
@@ -206,11 +258,15 @@ export class RoslynLanguageServer {
         // setTrace only works after the client is already running.
         // We don't use registerOnStateChange here because we need to access the actual _languageClient instance.
         this._languageClient.onDidChangeState(async (state) => {
-            if (state.newState === State.Running) {
+            if (state.newState === State.Starting) {
+                this._eventBus.emit(RoslynLanguageServer.serverStateChangeEvent, ServerStateChange.Starting);
+            } else if (state.newState === State.Running) {
                 await this._languageClient!.setTrace(languageClientTraceLevel);
-                await this.sendOpenSolutionNotification();
+                await this.sendOpenNotifications();
                 await this.sendOrSubscribeForServiceBrokerConnection();
                 this._eventBus.emit(RoslynLanguageServer.serverStateChangeEvent, ServerStateChange.Started);
+            } else if (state.newState === State.Stopped) {
+                this._eventBus.emit(RoslynLanguageServer.serverStateChangeEvent, this._isStopping ? ServerStateChange.Stopped : ServerStateChange.Errored);
             }
         });
 
@@ -218,6 +274,28 @@ export class RoslynLanguageServer {
            this._eventBus.emit(RoslynLanguageServer.serverStateChangeEvent, ServerStateChange.ProjectInitializationComplete);
         });
 
+        this._languageClient.onNotification(ProjectLoadProgressNotification.type, (params) => {
+            this._eventBus.emit(RoslynLanguageServer.projectLoadProgressEvent, params);
+        });
+
+        this._languageClient.onNotification(ProjectLoadFailedNotification.type, (params) => {
+            _channel.appendLine(`Failed to load project '${params.projectPath}': ${params.message}`);
+            this._eventBus.emit(RoslynLanguageServer.projectLoadFailedEvent, params);
+        });
+
+        // The server calls back to us to attach the debugger when running tests under the debugger.
+        this._languageClient.onRequest(DebugAttachRequest.type, async (request) => {
+            const debugConfiguration: vscode.DebugConfiguration = {
+                name: '.NET Test Attach',
+                type: 'coreclr',
+                request: 'attach',
+                processId: request.processId
+            };
+
+            const didAttach = await vscode.debug.startDebugging(undefined, debugConfiguration);
+            return { didAttach };
+        });
+
         // Start the client. This will also launch the server
         this._languageClient.start();
 
@@ -226,23 +304,38 @@ export class RoslynLanguageServer {
 
         // If Dev Kit isn't installed, then we are responsible for picking the solution to open, assuming the user hasn't explicitly
         // disabled it.
-        if (!this._wasActivatedWithCSharpDevkit && options.commonOptions.defaultSolution !== 'disable' && this._solutionFile === undefined) {
+        if (!this._wasActivatedWithCSharpDevkit && options.commonOptions.defaultSolution !== 'disable' && this._solutionFiles === undefined && this._projectFiles === undefined) {
             if (options.commonOptions.defaultSolution !== '') {
-                this.openSolution(vscode.Uri.file(options.commonOptions.defaultSolution));
+                this.openSolutions([vscode.Uri.file(options.commonOptions.defaultSolution)]);
             } else {
-                // Auto open if there is just one solution target; if there's more the one we'll just let the user pick with the picker.
-                const solutionUris = await vscode.workspace.findFiles('**/*.sln', '**/node_modules/**', 2);
-                if (solutionUris && solutionUris.length === 1) {
-                    this.openSolution(solutionUris[0]);
+                // Prefer what the user last picked for this workspace, otherwise auto open the solution of each workspace folder
+                // that has just one, or its projects if it has none; if there's more than one we'll just let the user pick with the picker.
+                const rememberedTargets = getRememberedWorkspaceTargets(this.context.workspaceState);
+                const { solutionUris, projectUris, largeFolders } = rememberedTargets
+                    ? { solutionUris: rememberedTargets.solutionPaths.map(filePath => vscode.Uri.file(filePath)), projectUris: rememberedTargets.projectPaths.map(filePath => vscode.Uri.file(filePath)), largeFolders: [] }
+                    : await findDefaultWorkspaceTargets(options.commonOptions.excludePaths);
+
+                if (solutionUris.length > 0 || projectUris.length > 0) {
+                    this.open(solutionUris, projectUris, false);
+                }
+
+                // Loading the projects of large folders can take a long time, so the user is asked first.
+                for (const largeFolder of largeFolders) {
+                    this.promptToOpenFolderProjects(largeFolder.workspaceFolder, largeFolder.projectUris);
                 }
             }
         }
     }
 
     public async stop(): Promise<void> {
-        await this._languageClient?.stop(RoslynLanguageServer._stopTimeout);
-        this._languageClient?.dispose(RoslynLanguageServer._stopTimeout);
-        this._languageClient = undefined;
+        this._isStopping = true;
+        try {
+            await this._languageClient?.stop(RoslynLanguageServer._stopTimeout);
+            this._languageClient?.dispose(RoslynLanguageServer._stopTimeout);
+            this._languageClient = undefined;
+        } finally {
+            this._isStopping = false;
+        }
     }
 
     /**
@@ -264,6 +357,31 @@ export class RoslynLanguageServer {
         return new Disposable(() => this._eventBus.removeListener(RoslynLanguageServer.serverStateChangeEvent, listener));
     }
 
+    /**
+     * Allows consumers of this server to register for progress reported by the server while it loads projects.
+     */
+    public registerProjectLoadProgressEvent(listener: (params: RoslynProtocol.ProjectLoadProgressParams) => void): Disposable {
+        this._eventBus.addListener(RoslynLanguageServer.projectLoadProgressEvent, listener);
+        return new Disposable(() => this._eventBus.removeListener(RoslynLanguageServer.projectLoadProgressEvent, listener));
+    }
+
+    /**
+     * Allows consumers of this server to register for projects that the server failed to load.
+     */
+    public registerProjectLoadFailedEvent(listener: (params: RoslynProtocol.ProjectLoadFailedParams) => void): Disposable {
+        this._eventBus.addListener(RoslynLanguageServer.projectLoadFailedEvent, listener);
+        return new Disposable(() => this._eventBus.removeListener(RoslynLanguageServer.projectLoadFailedEvent, listener));
+    }
+
+    /**
+     * Allows consumers of this server to register for the time requests took to complete successfully, both those made
+     * through this class and those VS Code makes through the language client, e.g. for completion or diagnostics.
+     */
+    public registerRequestCompletedEvent(listener: (method: string, durationMs: number) => void): Disposable {
+        this._eventBus.addListener(RoslynLanguageServer.requestCompletedEvent, listener);
+        return new Disposable(() => this._eventBus.removeListener(RoslynLanguageServer.requestCompletedEvent, listener));
+    }
+
     /**
      * Returns whether or not the underlying LSP server is running or not.
      */
@@ -279,7 +397,10 @@ export class RoslynLanguageServer {
             throw new Error('Tried to send request while server is not started.');
         }
 
+        this._crashSupervisor.recordRequest(type.method);
+        const startTime = Date.now();
         let response = await this._languageClient!.sendRequest(type, params, token);
+        this._eventBus.emit(RoslynLanguageServer.requestCompletedEvent, type.method, Date.now() - startTime);
         return response;
     }
 
@@ -291,10 +412,42 @@ export class RoslynLanguageServer {
             throw new Error('Tried to send request while server is not started.');
         }
 
+        this._crashSupervisor.recordRequest(type.method);
+        const startTime = Date.now();
         let response = await this._languageClient!.sendRequest(type, token);
+        this._eventBus.emit(RoslynLanguageServer.requestCompletedEvent, type.method, Date.now() - startTime);
         return response;
     }
 
+    /**
+     * Makes an LSP request to the server that reports partial results. The partial results are passed to
+     * onProgress as they arrive; the final response contains any results that were not already reported.
+     */
+    public async sendRequestWithProgress<Params extends PartialResultParams, Response, PartialResult, Error, RegistrationOptions>(
+        type: ProtocolRequestType<Params, Response, PartialResult, Error, RegistrationOptions>,
+        params: Params,
+        onProgress: (partialResult: PartialResult) => Promise<void>,
+        token: vscode.CancellationToken): Promise<Response> {
+        if (!this.isRunning()) {
+            throw new Error('Tried to send request while server is not started.');
+        }
+
+        this._crashSupervisor.recordRequest(type.method);
+        const partialResultToken = randomUUID();
+        params.partialResultToken = partialResultToken;
+        const disposable = this._languageClient!.onProgress(type, partialResultToken, async (partialResult) => onProgress(partialResult));
+
+        try {
+            const startTime = Date.now();
+            const response = await this._languageClient!.sendRequest(type, params, token);
+            this._eventBus.emit(RoslynLanguageServer.requestCompletedEvent, type.method, Date.now() - startTime);
+            return response;
+        }
+        finally {
+            disposable.dispose();
+        }
+    }
+
     public async registerSolutionSnapshot(token: vscode.CancellationToken) : Promise<SolutionSnapshotId> {
         let response = await _languageServer.sendRequest0(RegisterSolutionSnapshotRequest.type, token);
         if (response)
@@ -305,15 +458,80 @@ export class RoslynLanguageServer {
         throw new Error('Unable to retrieve current solution.');
     }
 
-    public async openSolution(solutionFile: vscode.Uri): Promise<void> {
-        this._solutionFile = solutionFile;
-        await this.sendOpenSolutionNotification();
+    /**
+     * Returns the solution files currently open in the server.
+     */
+    public getSolutionFiles(): vscode.Uri[] {
+        return this._solutionFiles ?? [];
+    }
+
+    /**
+     * Returns the project files currently open in the server outside of any solution.
+     */
+    public getProjectFiles(): vscode.Uri[] {
+        return this._projectFiles ?? [];
+    }
+
+    /**
+     * Opens the given solution files, replacing any solutions or projects that were previously open.
+     * @param rememberChoice Whether the solutions should be reopened the next time this workspace is opened.
+     */
+    public async openSolutions(solutionFiles: vscode.Uri[], rememberChoice: boolean = false): Promise<void> {
+        await this.open(solutionFiles, [], rememberChoice);
     }
 
-    private async sendOpenSolutionNotification() {
-        if (this._solutionFile !== undefined && this._languageClient !== undefined && this._languageClient.isRunning()) {
-            let protocolUri = this._languageClient.clientOptions.uriConverters!.code2Protocol(this._solutionFile);
+    /**
+     * Opens the given project files without a solution, replacing any solutions or projects that were previously open.
+     * @param rememberChoice Whether the projects should be reopened the next time this workspace is opened.
+     */
+    public async openProjects(projectFiles: vscode.Uri[], rememberChoice: boolean = false): Promise<void> {
+        await this.open([], projectFiles, rememberChoice);
+    }
+
+    private async open(solutionFiles: vscode.Uri[], projectFiles: vscode.Uri[], rememberChoice: boolean): Promise<void> {
+        this._solutionFiles = solutionFiles;
+        this._projectFiles = projectFiles;
+
+        if (rememberChoice) {
+            await rememberWorkspaceTargets(this.context.workspaceState, {
+                solutionPaths: solutionFiles.map(solutionFile => solutionFile.fsPath),
+                projectPaths: projectFiles.map(projectFile => projectFile.fsPath)
+            });
+        }
+
+        await this.sendOpenNotifications();
+    }
+
+    private async promptToOpenFolderProjects(workspaceFolder: vscode.WorkspaceFolder, projectUris: vscode.Uri[]): Promise<void> {
+        const openAll = 'Open All';
+        const chooseProjects = 'Choose Projects';
+        const message = `The folder '${workspaceFolder.name}' has no solution and ${projectUris.length} projects. Loading all of them may take a long time.`;
+        const choice = await vscode.window.showInformationMessage(message, openAll, chooseProjects);
+        if (choice === openAll) {
+            await this.open(this.getSolutionFiles(), [...this.getProjectFiles(), ...projectUris], false);
+        }
+        else if (choice === chooseProjects) {
+            await vscode.commands.executeCommand('dotnet.openProjects');
+        }
+    }
+
+    private async sendOpenNotifications() {
+        if (this._languageClient === undefined || !this._languageClient.isRunning()) {
+            return;
+        }
+
+        const uriConverter = this._languageClient.clientOptions.uriConverters!;
+        if (this._solutionFiles !== undefined && this._solutionFiles.length === 1) {
+            let protocolUri = uriConverter.code2Protocol(this._solutionFiles[0]);
             await this._languageClient.sendNotification("solution/open", new OpenSolutionParams(protocolUri));
+        } else if (this._solutionFiles !== undefined && this._solutionFiles.length > 1) {
+            const protocolUris = this._solutionFiles.map(solutionFile => uriConverter.code2Protocol(solutionFile));
+            await this._languageClient.sendNotification(OpenSolutionsNotification.type, { solutions: protocolUris });
+        }
+
+        if (this._projectFiles !== undefined && this._projectFiles.length > 0) {
+            const protocolUris = this._projectFiles.map(projectFile => uriConverter.code2Protocol(projectFile));
+            await this._languageClient.sendNotification(OpenProjectNotification.type, { projects: protocolUris });
         }
     }
 
@@ -380,6 +598,8 @@ export class RoslynLanguageServer {
         }
 
         _channel.appendLine("Dotnet path: " + dotnetExecutablePath);
+        this._serverPath = serverPath;
+        this._dotnetPath = dotnetExecutablePath;
 
         // Take care to always run .NET processes on the runtime that we intend.
         // The dotnet.exe we point to should not go looking for other runtimes.
@@ -447,6 +667,8 @@ export class RoslynLanguageServer {
             childProcess = cp.spawn(serverPath, args, cpOptions);
         }
 
+        childProcess.stderr.on('data', (data: Buffer) => this._crashSupervisor.recordStderr(data.toString()));
+
         return childProcess;
     }
 
@@ -584,7 +806,7 @@ export class SolutionSnapshotProvider implements ISolutionSnapshotProvider {
     }
 }
 
-export async function activateRoslynLanguageServer(context: vscode.ExtensionContext, platformInfo: PlatformInformation, optionProvider: OptionProvider, outputChannel: vscode.OutputChannel, reporter: TelemetryReporter) {
+export async function activateRoslynLanguageServer(context: vscode.ExtensionContext, platformInfo: PlatformInformation, optionProvider: OptionProvider, outputChannel: vscode.OutputChannel, reporter: TelemetryReporter, eventSinks: EventSinks) {
 
     // Create a channel for outputting general logs from the language server.
     _channel = outputChannel;
@@ -599,74 +821,50 @@ export async function activateRoslynLanguageServer(context: vscode.ExtensionCont
     // Register any needed debugger components that need to communicate with the language server.
     registerDebugger(context, _languageServer, platformInfo, optionProvider, _channel);
 
-    let options = optionProvider.GetLatestOptions();
-    let source = new vscode.CancellationTokenSource();
-    vscode.workspace.onDidChangeTextDocument(async e => {
-        if (!options.languageServerOptions.documentSelector.includes(e.document.languageId))
-        {
-            return;
-        }
-
-        if (e.contentChanges.length > 1 || e.contentChanges.length === 0) {
-            return;
-        }
-
-        const change = e.contentChanges[0];
+    // Register the test controller and commands for running tests through the language server.
+    registerUnitTestingCommands(context, _languageServer, optionProvider);
 
-        if (!change.range.isEmpty) {
-            return;
-        }
+    // Register the status bar item showing whether the server is ready, must be registered before the server starts.
+    registerServerStatus(context, _languageServer, _channel);
 
-        const capabilities = await _languageServer.getServerCapabilities();
+    // Register the handler that lets the server insert text as the user types, e.g. documentation comments.
+    registerOnAutoInsert(context, _languageServer, optionProvider);
 
-        if (capabilities._vs_onAutoInsertProvider) {
-            if (!capabilities._vs_onAutoInsertProvider._vs_triggerCharacters.includes(change.text)) {
-                return;
-            }
+    // Register the provider for the sources of symbols defined in metadata, e.g. decompiled NuGet packages.
+    registerMetadataDocumentProvider(context, _languageServer);
 
-            source.cancel();
-            source = new vscode.CancellationTokenSource();
-            await applyAutoInsertEdit(e, source.token);
-        }
-    });
+    // Post the events of the server to the sinks registered through the extension exports.
+    registerExtensionEvents(context, _languageServer, eventSinks);
 
     // Start the language server.
     await _languageServer.start();
 }
 
-async function applyAutoInsertEdit(e: vscode.TextDocumentChangeEvent, token: vscode.CancellationToken) {
-    const change = e.contentChanges[0];
-
-    // Need to add 1 since the server expects the position to be where the caret is after the last token has been inserted.
-    const position = new vscode.Position(change.range.start.line, change.range.start.character + 1);
-    const uri = UriConverter.serialize(e.document.uri);
-    const textDocument = TextDocumentIdentifier.create(uri);
-    const formattingOptions = getFormattingOptions();
-    const request: RoslynProtocol.OnAutoInsertParams = { _vs_textDocument: textDocument, _vs_position: position, _vs_ch: change.text, _vs_options: formattingOptions };
-    let response = await _languageServer.sendRequest(OnAutoInsertRequest.type, request, token);
-    if (response)
-    {
-        const textEdit = response._vs_textEdit;
-        const startPosition = new vscode.Position(textEdit.range.start.line, textEdit.range.start.character);
-        const endPosition = new vscode.Position(textEdit.range.end.line, textEdit.range.end.character);
-        const docComment = new vscode.SnippetString(textEdit.newText);
-        const code: any = vscode;
-        const textEdits = [new code.SnippetTextEdit(new vscode.Range(startPosition, endPosition), docComment)];
-        let edit = new vscode.WorkspaceEdit();
-        edit.set(e.document.uri, textEdits);
-
-        const applied = vscode.workspace.applyEdit(edit);
-        if (!applied) {
-            throw new Error("Tried to insert a comment but an error occurred.");
+/**
+ * Finds what to open for each workspace folder: its solution file if it contains exactly one, or all of its
+ * project files if it contains no solution at all. The projects of folders with more than maxDefaultProjects
+ * projects are returned separately, to ask the user before opening them.
+ */
+async function findDefaultWorkspaceTargets(excludePaths: string[]): Promise<{ solutionUris: vscode.Uri[], projectUris: vscode.Uri[], largeFolders: { workspaceFolder: vscode.WorkspaceFolder, projectUris: vscode.Uri[] }[] }> {
+    const solutionUris: vscode.Uri[] = [];
+    const projectUris: vscode.Uri[] = [];
+    const largeFolders: { workspaceFolder: vscode.WorkspaceFolder, projectUris: vscode.Uri[] }[] = [];
+    const excludePattern = getProjectFilesExcludePattern(excludePaths);
+    for (const workspaceFolder of vscode.workspace.workspaceFolders ?? []) {
+        const folderSolutionUris = await vscode.workspace.findFiles(new vscode.RelativePattern(workspaceFolder, '**/*.sln'), excludePattern, 2);
+        if (folderSolutionUris.length === 1) {
+            solutionUris.push(folderSolutionUris[0]);
+        } else if (folderSolutionUris.length === 0) {
+            const folderProjectUris = await vscode.workspace.findFiles(new vscode.RelativePattern(workspaceFolder, '**/*.csproj'), excludePattern);
+            if (folderProjectUris.length > maxDefaultProjects) {
+                largeFolders.push({ workspaceFolder, projectUris: folderProjectUris });
+            } else {
+                projectUris.push(...folderProjectUris);
+            }
         }
     }
-}
 
-function getFormattingOptions() : FormattingOptions {
-    const editorConfig = vscode.workspace.getConfiguration('editor');
-    const tabSize = editorConfig.get<number>('tabSize') ?? 4;
-    const insertSpaces = editorConfig.get<boolean>('insertSpaces') ?? true;
-    return FormattingOptions.create(tabSize, insertSpaces);
+    return { solutionUris, projectUris, largeFolders };
 }
 
 // this method is called when your extension is deactivated
@@ -3,7 +3,7 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { FormattingOptions, InsertTextFormat, MessageDirection, NotificationType, Position, RequestType, RequestType0, TextDocumentIdentifier, TextEdit, URI, integer } from "vscode-languageserver-protocol";
+import { FormattingOptions, InsertTextFormat, MessageDirection, NotificationType, PartialResultParams, Position, ProtocolRequestType, Range, RequestType, RequestType0, TextDocumentIdentifier, TextEdit, URI, WorkDoneProgressParams, integer } from "vscode-languageserver-protocol";
 
 export declare namespace RoslynProtocol {
     export interface WorkspaceDebugConfigurationParams {
@@ -65,6 +65,204 @@ export declare namespace RoslynProtocol {
         */
         id: integer;
     }
+
+    export interface DiscoverTestsParams {
+        textDocument: TextDocumentIdentifier;
+    }
+
+    export interface DiscoveredTest {
+        /**
+         * The fully qualified name of the test method, e.g. Namespace.Class.Method.
+         */
+        fullyQualifiedName: string;
+
+        /**
+         * The name of the test to show in the UI.
+         */
+        displayName: string;
+
+        /**
+         * The range of the test method in the document.
+         */
+        range: Range;
+
+        /**
+         * The range of the test's containing class in the document.
+         */
+        classRange: Range;
+
+        /**
+         * User readable name of the project containing the test.
+         */
+        projectName: string;
+    }
+
+    export interface RunTestsParams extends WorkDoneProgressParams, PartialResultParams {
+        /**
+         * The text document containing the tests to run.
+         */
+        textDocument: TextDocumentIdentifier;
+
+        /**
+         * The range encompassing the tests to run.
+         * Note that this range does not have to fully encompass the test method(s);
+         * any test method that intersects with the range will be run.
+         */
+        range: Range;
+
+        /**
+         * Whether the request should attempt to call back to the client to attach a debugger before running the tests.
+         */
+        attachDebugger: boolean;
+    }
+
+    export interface TestProgress {
+        /**
+         * The total number of tests passed at the time of the report.
+         */
+        testsPassed: integer;
+
+        /**
+         * The total number of tests failed at the time of the report.
+         */
+        testsFailed: integer;
+
+        /**
+         * The total number of tests skipped at the time of the report.
+         */
+        testsSkipped: integer;
+
+        /**
+         * The total number of tests that will eventually be run.
+         */
+        totalTests: integer;
+    }
+
+    export interface TestResult {
+        /**
+         * The fully qualified name of the test method (without parameters).
+         */
+        fullyQualifiedName: string;
+
+        /**
+         * The name of the individual test case, differs from the method name for parameterized tests.
+         */
+        displayName: string;
+
+        /**
+         * One of 'passed', 'failed' or 'skipped'.
+         */
+        outcome: string;
+
+        /**
+         * The duration of the test in milliseconds.
+         */
+        duration: integer;
+
+        errorMessage?: string;
+
+        stackTrace?: string;
+    }
+
+    export interface RunTestsPartialResult {
+        /**
+         * The stage of the test run, e.g. 'building', 'discovering' or 'running'.
+         */
+        stage: string;
+
+        /**
+         * A message to show in the test output.
+         */
+        message: string;
+
+        progress?: TestProgress;
+
+        /**
+         * Results for tests that completed since the last report.
+         */
+        results?: TestResult[];
+    }
+
+    export interface DebugAttachParams {
+        processId: integer;
+    }
+
+    export interface DebugAttachResult {
+        didAttach: boolean;
+    }
+
+    export interface OpenSolutionsParams {
+        /**
+         * The solution files to load into the workspace, typically one per workspace folder.
+         */
+        solutions: URI[];
+    }
+
+    export interface ProjectLoadProgressParams {
+        /**
+         * The number of projects that have finished loading, successfully or not.
+         */
+        loadedProjectCount: integer;
+
+        /**
+         * The total number of projects being loaded.
+         */
+        totalProjectCount: integer;
+
+        /**
+         * The absolute path to the project that is currently loading, if any.
+         */
+        currentProjectPath?: string;
+    }
+
+    export interface ProjectLoadFailedParams {
+        /**
+         * The absolute path to the project that failed to load.
+         */
+        projectPath: string;
+
+        /**
+         * Why the project failed to load.
+         */
+        message: string;
+    }
+
+    export interface OpenProjectParams {
+        /**
+         * The project files to load into the workspace when there is no solution file.
+         */
+        projects: URI[];
+    }
+
+    export interface MetadataSourceParams {
+        /**
+         * The csharp-metadata document the server returned as the location of a symbol defined in metadata.
+         */
+        textDocument: TextDocumentIdentifier;
+
+        /**
+         * Whether the user agreed to the decompiler terms. If not, the server returns the metadata signatures only.
+         */
+        allowDecompilation: boolean;
+    }
+
+    export interface MetadataSourceResult {
+        /**
+         * The source of the document.
+         */
+        text: string;
+
+        /**
+         * Where the source came from: generated from the metadata signatures, decompiled from IL or retrieved
+         * through the SourceLink information in the assembly's PDB.
+         */
+        kind: 'metadata' | 'decompiled' | 'sourceLink';
+
+        /**
+         * The location of the original source file when the assembly's PDB has SourceLink information.
+         */
+        sourceLinkUri?: URI;
+    }
 }
 
 export namespace WorkspaceDebugConfigurationRequest {
@@ -91,3 +289,50 @@ export namespace ProjectInitializationCompleteNotification {
     export const type = new NotificationType(method);
 }
 
+export namespace ProjectLoadProgressNotification {
+    export const method: 'workspace/_roslyn_projectLoadProgress' = 'workspace/_roslyn_projectLoadProgress';
+    export const messageDirection: MessageDirection = MessageDirection.serverToClient;
+    export const type = new NotificationType<RoslynProtocol.ProjectLoadProgressParams>(method);
+}
+
+export namespace ProjectLoadFailedNotification {
+    export const method: 'workspace/_roslyn_projectLoadFailed' = 'workspace/_roslyn_projectLoadFailed';
+    export const messageDirection: MessageDirection = MessageDirection.serverToClient;
+    export const type = new NotificationType<RoslynProtocol.ProjectLoadFailedParams>(method);
+}
+
+export namespace DiscoverTestsRequest {
+    export const method: 'textDocument/_roslyn_discoverTests' = 'textDocument/_roslyn_discoverTests';
+    export const messageDirection: MessageDirection = MessageDirection.clientToServer;
+    export const type = new RequestType<RoslynProtocol.DiscoverTestsParams, RoslynProtocol.DiscoveredTest[], void>(method);
+}
+
+export namespace RunTestsRequest {
+    export const method: 'textDocument/_roslyn_runTests' = 'textDocument/_roslyn_runTests';
+    export const messageDirection: MessageDirection = MessageDirection.clientToServer;
+    export const type = new ProtocolRequestType<RoslynProtocol.RunTestsParams, RoslynProtocol.RunTestsPartialResult[], RoslynProtocol.RunTestsPartialResult[], void, void>(method);
+}
+
+export namespace DebugAttachRequest {
+    export const method: 'workspace/_roslyn_debugAttach' = 'workspace/_roslyn_debugAttach';
+    export const messageDirection: MessageDirection = MessageDirection.serverToClient;
+    export const type = new RequestType<RoslynProtocol.DebugAttachParams, RoslynProtocol.DebugAttachResult, void>(method);
+}
+
+export namespace OpenSolutionsNotification {
+    export const method: 'solution/_roslyn_openSolutions' = 'solution/_roslyn_openSolutions';
+    export const messageDirection: MessageDirection = MessageDirection.clientToServer;
+    export const type = new NotificationType<RoslynProtocol.OpenSolutionsParams>(method);
+}
+
+export namespace OpenProjectNotification {
+    export const method: 'project/open' = 'project/open';
+    export const messageDirection: MessageDirection = MessageDirection.clientToServer;
+    export const type = new NotificationType<RoslynProtocol.OpenProjectParams>(method);
+}
+
+export namespace MetadataSourceRequest {
+    export const method: 'textDocument/_roslyn_metadataSource' = 'textDocument/_roslyn_metadataSource';
+    export const messageDirection: MessageDirection = MessageDirection.clientToServer;
+    export const type = new RequestType<RoslynProtocol.MetadataSourceParams, RoslynProtocol.MetadataSourceResult | null, void>(method);
+}
@@ -0,0 +1,51 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+/**
+ * Decides whether and when to restart the language server after a crash. Repeated crashes are backed off and
+ * eventually stop the server altogether.
+ */
+export class ServerCrashPolicy {
+    /**
+     * The server is not restarted again once it crashes this many times in crashWindow milliseconds.
+     */
+    public static readonly maxCrashes = 5;
+    public static readonly crashWindow = 3 * 60 * 1000;
+
+    /**
+     * The delay before restarting the server after the first crash, doubled for every following crash.
+     */
+    public static readonly initialRestartDelay = 1000;
+
+    private _crashTimes: number[] = [];
+
+    /**
+     * Records a crash and returns the number of crashes in the last crashWindow milliseconds, including this one,
+     * and the delay before restarting the server in milliseconds, or undefined if it crashed too often to be
+     * restarted. The count starts over once the server is not restarted.
+     */
+    public recordCrash(now: number = Date.now()): { recentCrashes: number, restartDelay: number | undefined } {
+        this._crashTimes = this._crashTimes.filter(time => now - time <= ServerCrashPolicy.crashWindow);
+        this._crashTimes.push(now);
+
+        const recentCrashes = this._crashTimes.length;
+        if (recentCrashes >= ServerCrashPolicy.maxCrashes) {
+            this._crashTimes = [];
+            return { recentCrashes, restartDelay: undefined };
+        }
+
+        return { recentCrashes, restartDelay: ServerCrashPolicy.initialRestartDelay * Math.pow(2, recentCrashes - 1) };
+    }
+}
+
+/**
+ * Appends the lines in text to lines, keeping at most maxLines of the latest ones.
+ */
+export function appendLines(lines: string[], text: string, maxLines: number) {
+    lines.push(...text.split(/\r?\n/).filter(line => line.length > 0));
+    if (lines.length > maxLines) {
+        lines.splice(0, lines.length - maxLines);
+    }
+}
@@ -0,0 +1,176 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CloseAction, CloseHandlerResult, ErrorAction, ErrorHandler, ErrorHandlerResult, Message } from 'vscode-languageclient/node';
+import OptionProvider from '../shared/observers/OptionProvider';
+import { appendLines, ServerCrashPolicy } from './serverCrashPolicy';
+
+/**
+ * Information about the running server that is written to the crash bundle.
+ */
+export interface ServerProcessInfo {
+    serverPath: string;
+    serverVersion: string;
+    dotnetPath: string;
+    solutions: string[];
+    projects: string[];
+}
+
+interface RecentRequest {
+    method: string;
+    time: string;
+}
+
+/**
+ * Watches over the Roslyn language server process. It keeps the last lines the server wrote to stderr, the last
+ * LSP trace messages and the last requests we made so that when the server crashes we can write a crash bundle
+ * the user can attach to an issue. The language client restarts the server after a crash, reopening the documents
+ * that are open in the editor, and the RoslynLanguageServer sends the open solutions and projects again once it is
+ * running. Repeated crashes are backed off and eventually stop the server altogether.
+ */
+export class ServerCrashSupervisor implements ErrorHandler {
+    private static readonly maxLogLines = 200;
+    private static readonly maxRecentRequests = 50;
+
+    private _stderrLines: string[] = [];
+    private _traceLines: string[] = [];
+    private _recentRequests: RecentRequest[] = [];
+    private _crashPolicy = new ServerCrashPolicy();
+
+    constructor(
+        private context: vscode.ExtensionContext,
+        private optionProvider: OptionProvider,
+        private channel: vscode.OutputChannel,
+        private getServerProcessInfo: () => ServerProcessInfo) {
+    }
+
+    public recordStderr(data: string) {
+        appendLines(this._stderrLines, data, ServerCrashSupervisor.maxLogLines);
+    }
+
+    public recordRequest(method: string) {
+        this._recentRequests.push({ method, time: new Date().toISOString() });
+        if (this._recentRequests.length > ServerCrashSupervisor.maxRecentRequests) {
+            this._recentRequests.shift();
+        }
+    }
+
+    /**
+     * Wraps the trace output channel so the trace messages written by the language client are also kept for the crash bundle.
+     */
+    public recordTraces(traceChannel: vscode.OutputChannel): vscode.OutputChannel {
+        const traceLines = this._traceLines;
+        return {
+            get name() { return traceChannel.name; },
+            append(value: string) {
+                appendLines(traceLines, value, ServerCrashSupervisor.maxLogLines);
+                traceChannel.append(value);
+            },
+            appendLine(value: string) {
+                appendLines(traceLines, value, ServerCrashSupervisor.maxLogLines);
+                traceChannel.appendLine(value);
+            },
+            replace(value: string) { traceChannel.replace(value); },
+            clear() { traceChannel.clear(); },
+            show(columnOrPreserveFocus?: vscode.ViewColumn | boolean, preserveFocus?: boolean) {
+                if (typeof columnOrPreserveFocus === 'boolean') {
+                    traceChannel.show(columnOrPreserveFocus);
+                } else {
+                    traceChannel.show(columnOrPreserveFocus, preserveFocus);
+                }
+            },
+            hide() { traceChannel.hide(); },
+            dispose() { traceChannel.dispose(); },
+        };
+    }
+
+    public error(_error: Error, _message: Message | undefined, count: number | undefined): ErrorHandlerResult {
+        // Same as the language client's default: tolerate a few transient connection errors before shutting down.
+        if (count !== undefined && count <= 3) {
+            return { action: ErrorAction.Continue };
+        }
+
+        return { action: ErrorAction.Shutdown };
+    }
+
+    public async closed(): Promise<CloseHandlerResult> {
+        const { recentCrashes, restartDelay } = this._crashPolicy.recordCrash();
+
+        let crashBundlePath: string | undefined;
+        try {
+            crashBundlePath = await this.writeCrashBundle(recentCrashes);
+            this.channel.appendLine(`The language server crashed. A crash report was written to ${crashBundlePath}`);
+        } catch (error) {
+            this.channel.appendLine(`The language server crashed. Failed to write a crash report: ${error}`);
+        }
+
+        if (restartDelay === undefined) {
+            this.showCrashLoopMessage(crashBundlePath);
+            return {
+                action: CloseAction.DoNotRestart,
+                message: `The language server crashed ${ServerCrashPolicy.maxCrashes} times in the last 3 minutes and will not be restarted.`,
+                handled: true
+            };
+        }
+
+        this.channel.appendLine(`Restarting the language server in ${restartDelay / 1000} seconds.`);
+        await new Promise(resolve => setTimeout(resolve, restartDelay));
+
+        // Logs from the crashed process are in the crash bundle; start afresh for the new one.
+        this._stderrLines = [];
+        this._traceLines = [];
+        return { action: CloseAction.Restart, handled: true };
+    }
+
+    private async writeCrashBundle(recentCrashes: number): Promise<string> {
+        const options = this.optionProvider.GetLatestOptions();
+        const crashBundle = {
+            time: new Date().toISOString(),
+            extensionVersion: this.context.extension.packageJSON.version,
+            vscodeVersion: vscode.version,
+            recentCrashes,
+            server: this.getServerProcessInfo(),
+            options: {
+                common: options.commonOptions,
+                languageServer: options.languageServerOptions
+            },
+            openDocuments: vscode.workspace.textDocuments
+                .filter(document => document.uri.scheme === 'file' && options.languageServerOptions.documentSelector.includes(document.languageId))
+                .map(document => document.uri.fsPath),
+            recentRequests: this._recentRequests,
+            stderr: this._stderrLines,
+            trace: this._traceLines
+        };
+
+        const crashBundleDirectory = path.join(this.context.logUri.fsPath, 'crashes');
+        await fs.promises.mkdir(crashBundleDirectory, { recursive: true });
+
+        const crashBundlePath = path.join(crashBundleDirectory, `roslyn-crash-${crashBundle.time.replace(/[:.]/g, '-')}.json`);
+        await fs.promises.writeFile(crashBundlePath, JSON.stringify(crashBundle, null, 4));
+        return crashBundlePath;
+    }
+
+    private showCrashLoopMessage(crashBundlePath: string | undefined) {
+        const reportIssue = 'Report Issue';
+        const openCrashReport = 'Open Crash Report';
+        const restart = 'Restart Language Server';
+        const items = crashBundlePath !== undefined ? [reportIssue, openCrashReport, restart] : [reportIssue, restart];
+
+        vscode.window.showErrorMessage(
+            `The C# language server crashed ${ServerCrashPolicy.maxCrashes} times in the last 3 minutes and will not be restarted. Please report an issue and attach the crash report.`,
+            ...items).then(async selectedItem => {
+                if (selectedItem === reportIssue) {
+                    await vscode.commands.executeCommand('csharp.reportIssue');
+                } else if (selectedItem === openCrashReport) {
+                    await vscode.window.showTextDocument(vscode.Uri.file(crashBundlePath!));
+                } else if (selectedItem === restart) {
+                    await vscode.commands.executeCommand('dotnet.restartServer');
+                }
+            });
+    }
+}
@@ -0,0 +1,119 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { RoslynLanguageServer } from './roslynLanguageServer';
+import { RoslynProtocol } from './roslynProtocol';
+import { ServerStateChange } from './ServerStateChange';
+import { getServerStatusKind, getStatusBarText, getStatusDetail, getStatusText, ServerStatusKind, ServerStatusState } from './serverStatusText';
+import { getCSharpDevKit } from '../utils/getCSharpDevKit';
+
+interface ServerStatusItem extends vscode.QuickPickItem {
+    execute?(): Thenable<unknown> | void;
+}
+
+export function registerServerStatus(context: vscode.ExtensionContext, languageServer: RoslynLanguageServer, outputChannel: vscode.OutputChannel) {
+    const serverStatus = new ServerStatus(languageServer, outputChannel);
+    context.subscriptions.push(serverStatus);
+    context.subscriptions.push(vscode.commands.registerCommand('dotnet.showServerStatus', async () => serverStatus.show()));
+}
+
+/**
+ * Shows the state of the Roslyn language server and the progress it is making loading projects in
+ * the status bar, with more details available through the dotnet.showServerStatus command.
+ */
+class ServerStatus implements vscode.Disposable {
+    private _statusBarItem: vscode.StatusBarItem;
+    private _disposables: vscode.Disposable[] = [];
+
+    private _status = ServerStatusKind.Starting;
+    private _progress: RoslynProtocol.ProjectLoadProgressParams | undefined;
+    private _failedProjects = new Map<string, string>();
+
+    constructor(private _languageServer: RoslynLanguageServer, private _outputChannel: vscode.OutputChannel) {
+        this._statusBarItem = vscode.window.createStatusBarItem('dotnet.server.status', vscode.StatusBarAlignment.Left, Number.MIN_VALUE);
+        this._statusBarItem.name = '.NET Language Server Status';
+        this._statusBarItem.command = 'dotnet.showServerStatus';
+
+        this._disposables.push(
+            this._statusBarItem,
+            _languageServer.registerStateChangeEvent(async (state) => this.onServerStateChange(state)),
+            _languageServer.registerProjectLoadProgressEvent(params => {
+                // Projects are also loaded after the server is ready, e.g. when another solution is opened.
+                this._progress = params;
+                if (params.loadedProjectCount < params.totalProjectCount) {
+                    this._status = ServerStatusKind.LoadingProjects;
+                }
+                this.update();
+            }),
+            _languageServer.registerProjectLoadFailedEvent(params => {
+                this._failedProjects.set(params.projectPath, params.message);
+                this.update();
+            }));
+
+        this.update();
+
+        // C# Dev Kit shows the status of the language server itself.
+        if (!getCSharpDevKit()) {
+            this._statusBarItem.show();
+        }
+    }
+
+    public dispose() {
+        this._disposables.forEach(disposable => disposable.dispose());
+    }
+
+    public async show() {
+        const items: ServerStatusItem[] = [
+            { label: getStatusText(this.state), detail: getStatusDetail(this.state) }
+        ];
+
+        for (const file of [...this._languageServer.getSolutionFiles(), ...this._languageServer.getProjectFiles()]) {
+            items.push({
+                label: `$(file) ${path.basename(file.fsPath)}`,
+                description: vscode.workspace.asRelativePath(file),
+                execute: async () => vscode.window.showTextDocument(file)
+            });
+        }
+
+        for (const [projectPath, message] of this._failedProjects) {
+            items.push({
+                label: `$(warning) ${path.basename(projectPath)} failed to load`,
+                detail: message,
+                execute: async () => vscode.window.showTextDocument(vscode.Uri.file(projectPath))
+            });
+        }
+
+        items.push(
+            { label: '$(output) Show Output', execute: () => this._outputChannel.show(true) },
+            { label: '$(debug-restart) Restart Language Server', execute: async () => vscode.commands.executeCommand('dotnet.restartServer') });
+
+        const selectedItem = await vscode.window.showQuickPick(items, { placeHolder: '.NET Language Server Status' });
+        await selectedItem?.execute?.();
+    }
+
+    private get state(): ServerStatusState {
+        return { status: this._status, progress: this._progress, failedProjectCount: this._failedProjects.size };
+    }
+
+    private async onServerStateChange(state: ServerStateChange) {
+        this._status = getServerStatusKind(state);
+        if (state === ServerStateChange.Starting) {
+            this._progress = undefined;
+            this._failedProjects.clear();
+        }
+
+        this.update();
+    }
+
+    private update() {
+        this._statusBarItem.text = getStatusBarText(this.state);
+        this._statusBarItem.tooltip = getStatusDetail(this.state);
+        this._statusBarItem.backgroundColor = this._status === ServerStatusKind.Errored
+            ? new vscode.ThemeColor('statusBarItem.errorBackground')
+            : undefined;
+    }
+}
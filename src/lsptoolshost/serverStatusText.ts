@@ -0,0 +1,90 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import { RoslynProtocol } from './roslynProtocol';
+import { ServerStateChange } from './ServerStateChange';
+
+export enum ServerStatusKind {
+    Starting,
+    LoadingProjects,
+    Ready,
+    Stopped,
+    Errored
+}
+
+/**
+ * What the status of the Roslyn language server shows.
+ */
+export interface ServerStatusState {
+    status: ServerStatusKind;
+    progress: RoslynProtocol.ProjectLoadProgressParams | undefined;
+    failedProjectCount: number;
+}
+
+export function getServerStatusKind(state: ServerStateChange): ServerStatusKind {
+    switch (state) {
+        case ServerStateChange.Starting:
+            return ServerStatusKind.Starting;
+        case ServerStateChange.Started:
+            return ServerStatusKind.LoadingProjects;
+        case ServerStateChange.ProjectInitializationComplete:
+            return ServerStatusKind.Ready;
+        case ServerStateChange.Stopped:
+            return ServerStatusKind.Stopped;
+        case ServerStateChange.Errored:
+            return ServerStatusKind.Errored;
+    }
+}
+
+export function getStatusBarText(state: ServerStatusState): string {
+    switch (state.status) {
+        case ServerStatusKind.Starting:
+            return '$(sync~spin) C#: Starting';
+        case ServerStatusKind.LoadingProjects:
+            return state.progress !== undefined
+                ? `$(sync~spin) C#: Loading ${state.progress.loadedProjectCount}/${state.progress.totalProjectCount}`
+                : '$(sync~spin) C#: Loading';
+        case ServerStatusKind.Ready:
+            return state.failedProjectCount > 0 ? `$(warning) C#: ${state.failedProjectCount} failed` : '$(check) C#';
+        case ServerStatusKind.Stopped:
+            return '$(circle-slash) C#: Stopped';
+        case ServerStatusKind.Errored:
+            return '$(error) C#: Error';
+    }
+}
+
+export function getStatusText(state: ServerStatusState): string {
+    switch (state.status) {
+        case ServerStatusKind.Starting:
+            return 'Starting the language server';
+        case ServerStatusKind.LoadingProjects:
+            return state.progress !== undefined
+                ? `Loading ${state.progress.loadedProjectCount} of ${state.progress.totalProjectCount} projects`
+                : 'Loading projects';
+        case ServerStatusKind.Ready:
+            return 'Ready';
+        case ServerStatusKind.Stopped:
+            return 'The language server is stopped';
+        case ServerStatusKind.Errored:
+            return 'The language server stopped unexpectedly';
+    }
+}
+
+export function getStatusDetail(state: ServerStatusState): string | undefined {
+    if (state.status === ServerStatusKind.LoadingProjects && state.progress?.currentProjectPath !== undefined) {
+        return `Loading ${path.basename(state.progress.currentProjectPath)}`;
+    }
+
+    if (state.failedProjectCount > 0) {
+        return `${state.failedProjectCount} project(s) failed to load`;
+    }
+
+    if (state.status === ServerStatusKind.Errored) {
+        return 'See the output for more information';
+    }
+
+    return undefined;
+}
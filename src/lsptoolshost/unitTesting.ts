@@ -0,0 +1,370 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import * as languageClient from 'vscode-languageclient/node';
+import { RoslynLanguageServer } from './roslynLanguageServer';
+import { DiscoverTestsRequest, RoslynProtocol, RunTestsRequest } from './roslynProtocol';
+import { ServerStateChange } from './ServerStateChange';
+import { UriConverter } from './uriConverter';
+import OptionProvider from '../shared/observers/OptionProvider';
+import { createTestFailureMessage, splitFullyQualifiedName } from '../shared/testExplorer';
+import { getCSharpDevKit } from '../utils/getCSharpDevKit';
+
+/**
+ * How long to wait after the last edit to a document before rediscovering its tests (in ms).
+ */
+const discoveryDelay = 1000;
+
+interface TestItemData {
+    uri: vscode.Uri;
+    /**
+     * The range sent to the server to run this item, only set for classes and methods.
+     */
+    range?: vscode.Range;
+    /**
+     * Fully qualified name of the test method, only set for methods.
+     */
+    fullyQualifiedName?: string;
+}
+
+interface TestRunUnit {
+    uri: vscode.Uri;
+    range: vscode.Range;
+    /**
+     * The test methods the server is expected to run, keyed by fully qualified name.
+     */
+    methods: Map<string, vscode.TestItem>;
+}
+
+export function registerUnitTestingCommands(context: vscode.ExtensionContext, languageServer: RoslynLanguageServer, optionProvider: OptionProvider) {
+    // C# Dev Kit shows the tests in its own test controller, and the commands are only enabled without it.
+    if (getCSharpDevKit()) {
+        return;
+    }
+
+    const controller = new RoslynTestController(languageServer, optionProvider);
+    context.subscriptions.push(controller);
+
+    context.subscriptions.push(vscode.commands.registerTextEditorCommand(
+        'dotnet.test.runTestsInContext',
+        async (textEditor: vscode.TextEditor) => controller.runTestsInContext(textEditor, /*attachDebugger*/ false)));
+    context.subscriptions.push(vscode.commands.registerTextEditorCommand(
+        'dotnet.test.debugTestsInContext',
+        async (textEditor: vscode.TextEditor) => controller.runTestsInContext(textEditor, /*attachDebugger*/ true)));
+}
+
+/**
+ * Populates the VS Code Test Explorer from the tests the Roslyn server discovers in open documents
+ * and runs them through the server, streaming results into the Test Results view as they arrive.
+ * The tree is shaped project -> namespace -> class -> method.
+ */
+class RoslynTestController implements vscode.Disposable {
+    private _controller: vscode.TestController;
+    private _itemData = new WeakMap<vscode.TestItem, TestItemData>();
+    private _documentTests = new Map<string, vscode.TestItem[]>();
+    private _pendingDiscovery = new Map<string, NodeJS.Timeout>();
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor(private _languageServer: RoslynLanguageServer, private _optionProvider: OptionProvider) {
+        this._controller = vscode.tests.createTestController('roslynTestController', '.NET Tests');
+        this._disposables.push(this._controller);
+
+        this._disposables.push(this._controller.createRunProfile(
+            'Run',
+            vscode.TestRunProfileKind.Run,
+            async (request, token) => this._runTests(request, /*attachDebugger*/ false, token),
+            /*isDefault*/ true));
+
+        this._disposables.push(this._controller.createRunProfile(
+            'Debug',
+            vscode.TestRunProfileKind.Debug,
+            async (request, token) => this._runTests(request, /*attachDebugger*/ true, token),
+            /*isDefault*/ true));
+
+        this._disposables.push(vscode.workspace.onDidOpenTextDocument(document => this._scheduleDiscovery(document)));
+        this._disposables.push(vscode.workspace.onDidChangeTextDocument(e => this._scheduleDiscovery(e.document)));
+        this._disposables.push(_languageServer.registerStateChangeEvent(async state => {
+            if (state === ServerStateChange.ProjectInitializationComplete) {
+                vscode.workspace.textDocuments.forEach(document => this._scheduleDiscovery(document));
+            }
+        }));
+    }
+
+    public dispose() {
+        this._pendingDiscovery.forEach(timeout => clearTimeout(timeout));
+        this._pendingDiscovery.clear();
+        this._disposables.forEach(d => d.dispose());
+        this._disposables = [];
+    }
+
+    public async runTestsInContext(textEditor: vscode.TextEditor, attachDebugger: boolean): Promise<void> {
+        const uri = textEditor.document.uri;
+        const range = new vscode.Range(textEditor.selection.start, textEditor.selection.end);
+
+        const methods = new Map<string, vscode.TestItem>();
+        for (const item of this._documentTests.get(uri.toString()) ?? []) {
+            if (item.range?.intersection(range) !== undefined) {
+                methods.set(this._itemData.get(item)!.fullyQualifiedName!, item);
+            }
+        }
+
+        const request = new vscode.TestRunRequest(methods.size > 0 ? [...methods.values()] : undefined);
+        const tokenSource = new vscode.CancellationTokenSource();
+        const run = this._controller.createTestRun(request, /*name*/ undefined, /*persist*/ true);
+        try {
+            await this._runUnit(run, { uri, range, methods }, attachDebugger, tokenSource.token);
+        }
+        finally {
+            run.end();
+            tokenSource.dispose();
+        }
+    }
+
+    private _scheduleDiscovery(document: vscode.TextDocument) {
+        if (document.uri.scheme !== 'file' || !this._optionProvider.GetLatestOptions().languageServerOptions.documentSelector.includes(document.languageId)) {
+            return;
+        }
+
+        const key = document.uri.toString();
+        const pending = this._pendingDiscovery.get(key);
+        if (pending !== undefined) {
+            clearTimeout(pending);
+        }
+
+        this._pendingDiscovery.set(key, setTimeout(async () => {
+            this._pendingDiscovery.delete(key);
+            await this._discoverTests(document.uri);
+        }, discoveryDelay));
+    }
+
+    private async _discoverTests(uri: vscode.Uri): Promise<void> {
+        if (!this._languageServer.isRunning()) {
+            return;
+        }
+
+        const params: RoslynProtocol.DiscoverTestsParams = {
+            textDocument: languageClient.TextDocumentIdentifier.create(UriConverter.serialize(uri))
+        };
+
+        let tests: RoslynProtocol.DiscoveredTest[];
+        const tokenSource = new vscode.CancellationTokenSource();
+        try {
+            tests = await this._languageServer.sendRequest(DiscoverTestsRequest.type, params, tokenSource.token);
+        }
+        catch (error) {
+            // Older servers may not support test discovery, in that case there's nothing to show.
+            return;
+        }
+        finally {
+            tokenSource.dispose();
+        }
+
+        this._removeDocumentTests(uri);
+
+        const methodItems: vscode.TestItem[] = [];
+        for (const test of tests ?? []) {
+            const { namespaceName, className, methodName } = splitFullyQualifiedName(test.fullyQualifiedName);
+            const qualifiedClassName = namespaceName ? `${namespaceName}.${className}` : className;
+
+            const projectItem = this._getOrCreateItem(this._controller.items, test.projectName, test.projectName, { uri });
+            const namespaceItem = this._getOrCreateItem(projectItem.children, `${test.projectName}|${namespaceName}`, namespaceName || '<global namespace>', { uri });
+            const classItem = this._getOrCreateItem(namespaceItem.children, `${test.projectName}|${qualifiedClassName}`, className, { uri, range: toRange(test.classRange) }, uri);
+
+            const methodItem = this._controller.createTestItem(`${test.projectName}|${test.fullyQualifiedName}`, methodName, uri);
+            methodItem.range = toRange(test.range);
+            this._itemData.set(methodItem, { uri, range: methodItem.range, fullyQualifiedName: test.fullyQualifiedName });
+            classItem.children.add(methodItem);
+            methodItems.push(methodItem);
+        }
+
+        this._documentTests.set(uri.toString(), methodItems);
+    }
+
+    private _getOrCreateItem(collection: vscode.TestItemCollection, id: string, label: string, data: TestItemData, uri?: vscode.Uri): vscode.TestItem {
+        let item = collection.get(id);
+        if (item === undefined) {
+            item = this._controller.createTestItem(id, label, uri);
+            item.range = data.range;
+            this._itemData.set(item, data);
+            collection.add(item);
+        }
+
+        return item;
+    }
+
+    /**
+     * Removes the test methods previously discovered in a document, along with any containers that are left empty.
+     */
+    private _removeDocumentTests(uri: vscode.Uri) {
+        for (const methodItem of this._documentTests.get(uri.toString()) ?? []) {
+            let item: vscode.TestItem | undefined = methodItem;
+            while (item !== undefined) {
+                const parent: vscode.TestItem | undefined = item.parent;
+                if (item.children.size > 0) {
+                    break;
+                }
+
+                (parent?.children ?? this._controller.items).delete(item.id);
+                item = parent;
+            }
+        }
+
+        this._documentTests.delete(uri.toString());
+    }
+
+    private async _runTests(request: vscode.TestRunRequest, attachDebugger: boolean, token: vscode.CancellationToken): Promise<void> {
+        const run = this._controller.createTestRun(request);
+
+        try {
+            for (const unit of this._collectRunUnits(request)) {
+                if (token.isCancellationRequested) {
+                    unit.methods.forEach(item => run.skipped(item));
+                    continue;
+                }
+
+                await this._runUnit(run, unit, attachDebugger, token);
+            }
+        }
+        finally {
+            run.end();
+        }
+    }
+
+    private async _runUnit(run: vscode.TestRun, unit: TestRunUnit, attachDebugger: boolean, token: vscode.CancellationToken): Promise<void> {
+        unit.methods.forEach(item => run.started(item));
+        const reported = new Set<vscode.TestItem>();
+
+        const params: RoslynProtocol.RunTestsParams = {
+            textDocument: languageClient.TextDocumentIdentifier.create(UriConverter.serialize(unit.uri)),
+            range: languageClient.Range.create(unit.range.start.line, unit.range.start.character, unit.range.end.line, unit.range.end.character),
+            attachDebugger: attachDebugger
+        };
+
+        const onProgress = async (partialResults: RoslynProtocol.RunTestsPartialResult[]) => {
+            for (const partialResult of partialResults) {
+                this._reportPartialResult(run, unit, partialResult, reported);
+            }
+        };
+
+        try {
+            const response = await this._languageServer.sendRequestWithProgress(RunTestsRequest.type, params, onProgress, token);
+            await onProgress(response ?? []);
+        }
+        catch (error) {
+            const message = new vscode.TestMessage(`Failed to run tests: ${(error as Error).message}`);
+            unit.methods.forEach(item => {
+                if (!reported.has(item)) {
+                    run.errored(item, message);
+                    reported.add(item);
+                }
+            });
+            return;
+        }
+
+        // Anything the server didn't report on wasn't run (e.g. it was filtered out or no longer exists).
+        unit.methods.forEach(item => {
+            if (!reported.has(item)) {
+                run.skipped(item);
+            }
+        });
+    }
+
+    private _reportPartialResult(run: vscode.TestRun, unit: TestRunUnit, partialResult: RoslynProtocol.RunTestsPartialResult, reported: Set<vscode.TestItem>) {
+        if (partialResult.message) {
+            run.appendOutput(`${partialResult.message.replace(/\r?\n/g, '\r\n')}\r\n`);
+        }
+
+        if (partialResult.progress) {
+            const progress = partialResult.progress;
+            run.appendOutput(`[${partialResult.stage}] Passed: ${progress.testsPassed}, Failed: ${progress.testsFailed}, Skipped: ${progress.testsSkipped}, Total: ${progress.totalTests}\r\n`);
+        }
+
+        for (const result of partialResult.results ?? []) {
+            const item = unit.methods.get(result.fullyQualifiedName) ?? this._findMethodItem(unit.uri, result.fullyQualifiedName);
+            if (item === undefined) {
+                continue;
+            }
+
+            reported.add(item);
+            switch (result.outcome) {
+                case 'passed':
+                    run.passed(item, result.duration);
+                    break;
+                case 'failed':
+                    run.failed(item, createTestFailureMessage(item, result.errorMessage, result.stackTrace, result.displayName !== item.label ? result.displayName : undefined), result.duration);
+                    break;
+                default:
+                    run.skipped(item);
+                    break;
+            }
+        }
+    }
+
+    private _findMethodItem(uri: vscode.Uri, fullyQualifiedName: string): vscode.TestItem | undefined {
+        return this._documentTests.get(uri.toString())?.find(item => this._itemData.get(item)?.fullyQualifiedName === fullyQualifiedName);
+    }
+
+    /**
+     * Expands the requested items into the document ranges to run. Classes are run as a whole so the
+     * server only builds and starts the test host once per class.
+     */
+    private _collectRunUnits(request: vscode.TestRunRequest): TestRunUnit[] {
+        const units = new Map<vscode.TestItem, TestRunUnit>();
+        const excluded = new Set(request.exclude ?? []);
+
+        const addMethods = (unitItem: vscode.TestItem, methodItems: vscode.TestItem[]) => {
+            const data = this._itemData.get(unitItem)!;
+            let unit = units.get(unitItem);
+            if (unit === undefined) {
+                unit = { uri: data.uri, range: data.range!, methods: new Map<string, vscode.TestItem>() };
+                units.set(unitItem, unit);
+            }
+
+            for (const methodItem of methodItems) {
+                unit.methods.set(this._itemData.get(methodItem)!.fullyQualifiedName!, methodItem);
+            }
+        };
+
+        const visit = (item: vscode.TestItem) => {
+            if (excluded.has(item)) {
+                return;
+            }
+
+            const data = this._itemData.get(item);
+            if (data?.fullyQualifiedName !== undefined) {
+                addMethods(item, [item]);
+                return;
+            }
+
+            const children: vscode.TestItem[] = [];
+            item.children.forEach(child => { children.push(child); });
+
+            if (data?.range !== undefined) {
+                // A class; run it as a whole unless some of its methods were excluded.
+                const included = children.filter(child => !excluded.has(child));
+                if (included.length === children.length) {
+                    addMethods(item, included);
+                    return;
+                }
+            }
+
+            children.forEach(visit);
+        };
+
+        if (request.include !== undefined) {
+            request.include.forEach(visit);
+        }
+        else {
+            this._controller.items.forEach(visit);
+        }
+
+        return [...units.values()];
+    }
+}
+
+function toRange(range: languageClient.Range): vscode.Range {
+    return new vscode.Range(range.start.line, range.start.character, range.end.line, range.end.character);
+}
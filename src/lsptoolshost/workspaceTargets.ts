@@ -0,0 +1,64 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fs from 'fs';
+
+/**
+ * Workspace state keys under which the solutions and projects the user picked with dotnet.openSolution
+ * and dotnet.openProjects are remembered.
+ */
+const openSolutionsStateKey = 'dotnet.openSolutions';
+const openProjectsStateKey = 'dotnet.openProjects';
+
+/**
+ * The most projects of a workspace folder without a solution that are opened without asking the user first.
+ */
+export const maxDefaultProjects = 50;
+
+/**
+ * The part of the workspace state of the extension context that is used here.
+ */
+export interface WorkspaceState {
+    get<T>(key: string): T | undefined;
+    update(key: string, value: any): Thenable<void>;
+}
+
+export interface WorkspaceTargets {
+    solutionPaths: string[];
+    projectPaths: string[];
+}
+
+export async function rememberWorkspaceTargets(workspaceState: WorkspaceState, targets: WorkspaceTargets): Promise<void> {
+    await workspaceState.update(openSolutionsStateKey, targets.solutionPaths);
+    await workspaceState.update(openProjectsStateKey, targets.projectPaths);
+}
+
+/**
+ * Returns the solutions and projects the user last picked for the workspace that still exist, or undefined if the
+ * user never picked any or none of them exist anymore.
+ */
+export function getRememberedWorkspaceTargets(workspaceState: WorkspaceState, exists: (filePath: string) => boolean = fs.existsSync): WorkspaceTargets | undefined {
+    const solutionPaths = workspaceState.get<string[]>(openSolutionsStateKey)?.filter(exists) ?? [];
+    const projectPaths = workspaceState.get<string[]>(openProjectsStateKey)?.filter(exists) ?? [];
+    if (solutionPaths.length === 0 && projectPaths.length === 0) {
+        return undefined;
+    }
+
+    return { solutionPaths, projectPaths };
+}
+
+/**
+ * Returns the glob of the files to leave out when looking for the projects to open: build outputs, packages and the
+ * files excluded with the 'files.exclude' setting.
+ */
+export function getProjectFilesExcludePattern(excludePaths: string[]): string {
+    const patterns = ['**/node_modules/**', '**/bin/**', '**/obj/**'];
+    for (const excludePath of excludePaths) {
+        // The patterns of 'files.exclude' match folders, so the files they contain are excluded as well.
+        patterns.push(excludePath, `${excludePath}/**`);
+    }
+
+    return `{${patterns.join(',')}}`;
+}
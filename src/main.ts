@@ -38,9 +38,10 @@ import { activateRazorExtension } from './razor/razor';
 import { RazorLoggerObserver } from './observers/RazorLoggerObserver';
 import { AbsolutePathPackage } from './packageManager/AbsolutePathPackage';
 import { downloadAndInstallPackages } from './packageManager/downloadAndInstallPackages';
+import { getPackagesFromLocalSource } from './packageManager/localPackageSource';
 import IInstallDependencies from './packageManager/IInstallDependencies';
 import { installRuntimeDependencies } from './InstallRuntimeDependencies';
-import { isValidDownload } from './packageManager/isValidDownload';
+import { isValidDownloadFile } from './packageManager/isValidDownload';
 import { BackgroundWorkStatusBarObserver } from './observers/BackgroundWorkStatusBarObserver';
 import { getDotnetPackApi } from './DotnetPack';
 import { SolutionSnapshotProvider, activateRoslynLanguageServer } from "./lsptoolshost/roslynLanguageServer";
@@ -52,6 +53,10 @@ import Descriptors from './lsptoolshost/services/Descriptors';
 import { GlobalBrokeredServiceContainer } from '@microsoft/servicehub-framework';
 import { CSharpExtensionExports, OmnisharpExtensionExports} from './CSharpExtensionExports';
 import { csharpDevkitExtensionId, getCSharpDevKit } from './utils/getCSharpDevKit';
+import reportIssue from './features/reportIssue';
+import { getDotnetInfo } from './utils/getDotnetInfo';
+import { RuntimeResolver } from './lsptoolshost/dotnetRuntime';
+import { EventSinks } from './shared/eventSinks';
 
 export async function activate(context: vscode.ExtensionContext): Promise<CSharpExtensionExports | OmnisharpExtensionExports | null> {
     await MigrateOptions(vscode);
@@ -60,6 +65,9 @@ export async function activate(context: vscode.ExtensionContext): Promise<CSharp
 
     const eventStream = new EventStream();
 
+    // The sinks other extensions register through the exports, for the events of whichever server is used.
+    const eventSinks = new EventSinks();
+
     util.setExtensionPath(context.extension.extensionPath);
 
     let platformInfo: PlatformInformation;
@@ -106,9 +114,25 @@ export async function activate(context: vscode.ExtensionContext): Promise<CSharp
 
     let networkSettingsProvider = vscodeNetworkSettingsProvider(vscode);
     const useFramework = useOmnisharpServer && optionProvider.GetLatestOptions().omnisharpOptions.useModernNet !== true;
-    let installDependencies: IInstallDependencies = async (dependencies: AbsolutePathPackage[]) => downloadAndInstallPackages(dependencies, networkSettingsProvider, eventStream, isValidDownload);
+    // Downloads are shared by all versions of the extension, so don't keep them with the extension itself.
+    const packageCacheDirectory = vscode.Uri.joinPath(context.globalStorageUri, 'packageCache').fsPath;
+    const installDependenciesFrom = (localPackageSource: string): IInstallDependencies => async (dependencies: AbsolutePathPackage[]) =>
+        downloadAndInstallPackages(getPackagesFromLocalSource(dependencies, localPackageSource), networkSettingsProvider, eventStream, isValidDownloadFile, packageCacheDirectory);
+    let installDependencies: IInstallDependencies = async (dependencies: AbsolutePathPackage[]) =>
+        installDependenciesFrom(vscode.workspace.getConfiguration('csharp').get<string>('localPackageSource', ''))(dependencies);
     let runtimeDependenciesExist = await ensureRuntimeDependencies(context.extension, eventStream, platformInfo, installDependencies, useFramework, requiredPackageIds);
 
+    // Registered before anything else can fail, as this is how machines without internet access get the dependencies.
+    context.subscriptions.push(vscode.commands.registerCommand('csharp.installFromLocalPackages', async () => {
+        const localPackageSource = await pickLocalPackageSource();
+        if (localPackageSource === undefined) {
+            return;
+        }
+
+        csharpChannel.show(true);
+        await installFromLocalPackages(context.extension, eventStream, platformInfo, installDependenciesFrom(localPackageSource), useFramework, requiredPackageIds);
+    }));
+
     let omnisharpLangServicePromise : Promise<OmniSharp.ActivationResult> | undefined = undefined;
     let omnisharpRazorPromise : Promise<void> | undefined = undefined;
     let roslynLanguageServerPromise : Promise<void> | undefined = undefined;
@@ -127,7 +151,13 @@ export async function activate(context: vscode.ExtensionContext): Promise<CSharp
 
         context.subscriptions.push(optionProvider);
         context.subscriptions.push(ShowConfigChangePrompt(optionStream, 'dotnet.restartServer', Options.shouldLanguageServerOptionChangeTriggerReload, vscode));
-        roslynLanguageServerPromise = activateRoslynLanguageServer(context, platformInfo, optionProvider, csharpChannel, reporter);
+
+        // Reporting an issue is offered when the language server keeps crashing.
+        let openURLObserver = new OpenURLObserver(vscode);
+        eventStream.subscribe(openURLObserver.post);
+        context.subscriptions.push(vscode.commands.registerCommand('csharp.reportIssue', async () => reportIssue(vscode, context.extension.packageJSON.version, eventStream, getDotnetInfo, /*isValidPlatformForMono*/ false, optionProvider.GetLatestOptions(), new RuntimeResolver(), /*monoResolver*/ undefined)));
+
+        roslynLanguageServerPromise = activateRoslynLanguageServer(context, platformInfo, optionProvider, csharpChannel, reporter, eventSinks);
     }
     else
     {
@@ -183,7 +213,7 @@ export async function activate(context: vscode.ExtensionContext): Promise<CSharp
         }
 
         // activate language services
-        omnisharpLangServicePromise = OmniSharp.activate(context, context.extension.packageJSON, platformInfo, networkSettingsProvider, eventStream, optionProvider, context.extension.extensionPath, omnisharpChannel);
+        omnisharpLangServicePromise = OmniSharp.activate(context, context.extension.packageJSON, platformInfo, networkSettingsProvider, eventStream, optionProvider, context.extension.extensionPath, omnisharpChannel, eventSinks);
 
         context.subscriptions.push(optionProvider);
         context.subscriptions.push(ShowConfigChangePrompt(optionStream, 'o.restart', Options.shouldOmnisharpOptionChangeTriggerReload, vscode));
@@ -239,7 +269,8 @@ export async function activate(context: vscode.ExtensionContext): Promise<CSharp
                 await roslynLanguageServerPromise;
             },
             profferBrokeredServices: container => profferBrokeredServices(context, container),
-            logDirectory: context.logUri.fsPath
+            logDirectory: context.logUri.fsPath,
+            registerEventSink: sink => eventSinks.register(sink)
         };
     } else {
         return {
@@ -261,7 +292,8 @@ export async function activate(context: vscode.ExtensionContext): Promise<CSharp
                 return langService!.testManager;
             },
             eventStream,
-            logDirectory: context.logUri.fsPath
+            logDirectory: context.logUri.fsPath,
+            registerEventSink: sink => eventSinks.register(sink)
         };
     }
 }
@@ -323,6 +355,39 @@ async function ensureRuntimeDependencies(extension: vscode.Extension<CSharpExten
     return installRuntimeDependencies(extension.packageJSON, extension.extensionPath, installDependencies, eventStream, platformInfo, useFramework, requiredPackageIds);
 }
 
+async function pickLocalPackageSource(): Promise<string | undefined> {
+    const directory = 'Local directory...';
+    const mirror = 'HTTP mirror...';
+    const selected = await vscode.window.showQuickPick([directory, mirror], { placeHolder: 'Where should the dependencies be installed from?' });
+    if (selected === directory) {
+        const folders = await vscode.window.showOpenDialog({ canSelectFiles: false, canSelectFolders: true, canSelectMany: false, openLabel: 'Install' });
+        return folders?.[0]?.fsPath;
+    }
+    else if (selected === mirror) {
+        return vscode.window.showInputBox({
+            prompt: 'The URL the packages are served from',
+            placeHolder: 'https://mirror.example.com/csharp',
+            ignoreFocusOut: true,
+            validateInput: value => /^https?:\/\//i.test(value.trim()) ? undefined : 'Enter an http or https URL'
+        });
+    }
+
+    return undefined;
+}
+
+async function installFromLocalPackages(extension: vscode.Extension<CSharpExtensionExports>, eventStream: EventStream, platformInfo: PlatformInformation, installDependencies: IInstallDependencies, useFramework: boolean, requiredPackageIds: string[]): Promise<void> {
+    if (!await ensureRuntimeDependencies(extension, eventStream, platformInfo, installDependencies, useFramework, requiredPackageIds)) {
+        vscode.window.showErrorMessage('Failed to install the C# extension dependencies. See the C# output for details.');
+        return;
+    }
+
+    const reload = 'Reload Window';
+    const selected = await vscode.window.showInformationMessage('The C# extension dependencies are installed. Reload the window to start using them.', reload);
+    if (selected === reload) {
+        await vscode.commands.executeCommand('workbench.action.reloadWindow');
+    }
+}
+
 async function initializeDotnetPath(): Promise<void> {
     const dotnetPackApi = await getDotnetPackApi();
     if (dotnetPackApi !== undefined) {
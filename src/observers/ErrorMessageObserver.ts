@@ -3,7 +3,7 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { BaseEvent, ZipError, DotNetTestRunFailure, DotNetTestDebugStartFailure, IntegrityCheckFailure } from "../omnisharp/loggingEvents";
+import { BaseEvent, ZipError, DotNetTestRunFailure, DotNetTestDebugStartFailure, IntegrityCheckFailure, TarError } from "../omnisharp/loggingEvents";
 import { vscode } from "../vscodeAdapter";
 import showErrorMessage from "./utils/ShowErrorMessage";
 import { EventType } from "../omnisharp/EventType";
@@ -17,6 +17,9 @@ export class ErrorMessageObserver {
             case EventType.ZipError:
                 this.handleZipError(<ZipError>event);
                 break;
+            case EventType.TarError:
+                this.handleTarError(<TarError>event);
+                break;
             case EventType.DotNetTestRunFailure:
                 this.handleDotnetTestRunFailure(<DotNetTestRunFailure>event);
                 break;
@@ -38,6 +41,10 @@ export class ErrorMessageObserver {
         showErrorMessage(this.vscode, event.message);
     }
 
+    private handleTarError(event: TarError) {
+        showErrorMessage(this.vscode, event.message);
+    }
+
     private handleDotnetTestRunFailure(event: DotNetTestRunFailure) {
         showErrorMessage(this.vscode, `Failed to run test because ${event.message}.`);
     }
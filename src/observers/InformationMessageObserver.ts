@@ -23,7 +23,10 @@ export class InformationMessageObserver {
 
     private async handleOmnisharpServerUnresolvedDependencies(event: ObservableEvent.OmnisharpServerUnresolvedDependencies) {
         //to do: determine if we need the unresolved dependencies message
-        if (!this.optionProvider.GetLatestOptions().omnisharpOptions.suppressDotnetRestoreNotification) {
+        const options = this.optionProvider.GetLatestOptions();
+
+        // The projects are restored without asking when auto restore is enabled.
+        if (!options.omnisharpOptions.suppressDotnetRestoreNotification && !options.commonOptions.enableAutoRestore) {
             let message = `There are unresolved dependencies. Please execute the restore command to continue.`;
             return showInformationMessage(this.vscode, message, { title: "Restore", command: "dotnet.restore.all" });
         }
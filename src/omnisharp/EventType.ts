@@ -87,6 +87,9 @@ export enum EventType {
     BackgroundDiagnosticStatus = 80,
     // DevCertCreationFailure = 81, Removed as we push to output channel directly
     ShowChannel = 82,
+    DownloadResume = 83,
+    DownloadCacheHit = 84,
+    TarError = 85,
 }
 
 //Note that the EventType protocol is shared with Razor.VSCode and the numbers here should not be altered
@@ -19,6 +19,13 @@ export async function getDecompilationAuthorization(context: vscode.ExtensionCon
         return false;
     }
 
+    return getDecompilationTermsAcceptance(context);
+}
+
+/**
+ * Returns whether the user agreed to the decompiler terms, prompting them if they haven't been asked yet.
+ */
+export async function getDecompilationTermsAcceptance(context: vscode.ExtensionContext) {
     // If the terms have been acknowledged, then return whether it was authorized.
     let decompilationAuthorized = context.globalState.get<boolean | undefined>(DecompilationAuthorizedOption);
     if (decompilationAuthorized !== undefined) {
@@ -10,6 +10,9 @@ const MediumDelayMax = 500;
 const IdleDelayMax = 1500;
 const NonFocusDelayMax = 3000;
 
+// Weight given to the newest sample in the moving average of delays.
+const AverageDelaySmoothing = 0.2;
+
 export class DelayTracker {
     private _name: string;
 
@@ -21,11 +24,20 @@ export class DelayTracker {
     private _nonFocusDelays: number = 0;       // 1501-3000 milliseconds
     private _bigDelays: number = 0;            // 3000+ milliseconds
 
+    // Unlike the buckets above, these are not reset by clearMeasures so they reflect the whole session.
+    private _averageDelay: number = 0;
+    private _sampleCount: number = 0;
+
     constructor(name: string) {
         this._name = name;
     }
 
     public reportDelay(elapsedTime: number) {
+        this._averageDelay = this._sampleCount === 0
+            ? elapsedTime
+            : this._averageDelay + AverageDelaySmoothing * (elapsedTime - this._averageDelay);
+        this._sampleCount += 1;
+
         if (elapsedTime <= ImmedateDelayMax) {
             this._immediateDelays += 1;
         }
@@ -53,6 +65,17 @@ export class DelayTracker {
         return this._name;
     }
 
+    /**
+     * Returns an exponential moving average of the reported delays, weighted towards recent ones.
+     */
+    public averageDelay(): number {
+        return this._averageDelay;
+    }
+
+    public sampleCount(): number {
+        return this._sampleCount;
+    }
+
     public clearMeasures() {
         this._immediateDelays = 0;
         this._nearImmediateDelays = 0;
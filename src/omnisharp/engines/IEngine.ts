@@ -13,6 +13,7 @@ import OptionProvider from '../../shared/observers/OptionProvider';
 import { Advisor } from '../../features/diagnosticsProvider';
 import TestManager from '../../features/dotnetTest';
 import { EventStream } from '../../EventStream';
+import { RequestQueueStats } from '../requestQueue';
 
 export interface IEngine {
     start(
@@ -39,4 +40,5 @@ export interface IEngine {
         token?: CancellationToken,
     ): Promise<TResponse>;
     addListener<T = {}>(event: string, listener: (e: T) => void): Disposable;
+    getRequestQueueStats(): RequestQueueStats[];
 }
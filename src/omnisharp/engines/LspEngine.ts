@@ -25,6 +25,7 @@ import {
 import { LanguageMiddlewareFeature } from '../LanguageMiddlewareFeature';
 import { Events, OmniSharpServer } from '../server';
 import { IEngine } from './IEngine';
+import { RequestQueueStats } from '../requestQueue';
 import { PlatformInformation } from '../../shared/platform';
 import { IHostExecutableResolver } from '../../shared/constants/IHostExecutableResolver';
 import { Command, DynamicFeature, LanguageClientOptions, RequestType, StaticFeature, Trace } from 'vscode-languageclient';
@@ -379,6 +380,11 @@ export class LspEngine implements IEngine {
         throw error;
     }
 
+    public getRequestQueueStats(): RequestQueueStats[] {
+        // Requests are queued by the language client rather than by a RequestQueueCollection.
+        return [];
+    }
+
     public addListener<T = {}>(event: string, listener: (e: T) => void): Disposable {
         const eventName = `o#/${event}`.replace(/\/\//g, '/').toLowerCase();
         this.eventBus.addListener(eventName, listener);
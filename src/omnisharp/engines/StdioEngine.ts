@@ -9,7 +9,7 @@ import { CancellationToken } from '../../vscodeAdapter';
 import { ChildProcess, exec } from 'child_process';
 import { LaunchTarget } from "../../shared/LaunchTarget";
 import { ReadLine, createInterface } from 'readline';
-import { Request, RequestQueueCollection } from '../requestQueue';
+import { Request, RequestQueueCollection, RequestQueueStats } from '../requestQueue';
 import { EventEmitter } from 'events';
 import { Options } from '../../shared/options';
 import { PlatformInformation } from '../../shared/platform';
@@ -204,6 +204,10 @@ export class StdioEngine implements IEngine {
         }
     }
 
+    public getRequestQueueStats(): RequestQueueStats[] {
+        return this._requestQueue.getStats();
+    }
+
     public addListener<T = {}>(
         event: string,
         listener: (e: T) => void
@@ -5,11 +5,15 @@
 
 import * as utils from './utils';
 import * as vscode from 'vscode';
-import { addAssetsIfNecessary } from '../shared/assets';
+import { addAssetsIfNecessary, watchLaunchSettingsProfiles } from '../shared/assets';
+import { DotnetTaskProvider, dotnetTaskType } from '../shared/dotnetTaskProvider';
+import { AutoRestore } from '../shared/autoRestore';
+import { ProjectExplorer } from '../shared/projectExplorer';
 import { safeLength, sum } from '../common';
 import { DotnetWorkspaceConfigurationProvider } from '../shared/workspaceConfigurationProvider';
 import { OmniSharpServer } from './server';
 import TestManager from '../features/dotnetTest';
+import DotnetTestController from '../features/dotnetTestController';
 import registerCommands from '../features/commands';
 import { PlatformInformation } from '../shared/platform';
 import { ProjectJsonDeprecatedWarning, OmnisharpStart, RazorDevModeActive } from './loggingEvents';
@@ -25,6 +29,8 @@ import { getDecompilationAuthorization } from './decompilationPrompt';
 import { DotnetResolver } from '../shared/DotnetResolver';
 import { Advisor } from '../features/diagnosticsProvider';
 import { OmnisharpWorkspaceDebugInformationProvider } from '../OmnisharpWorkspaceDebugInformationProvider';
+import { EventSinks } from '../shared/eventSinks';
+import { registerExtensionEvents } from './extensionEvents';
 
 export interface ActivationResult {
     readonly server: OmniSharpServer;
@@ -32,7 +38,7 @@ export interface ActivationResult {
     readonly testManager: TestManager;
 }
 
-export async function activate(context: vscode.ExtensionContext, packageJSON: any, platformInfo: PlatformInformation, provider: NetworkSettingsProvider, eventStream: EventStream, optionProvider: OptionProvider, extensionPath: string, outputChannel: vscode.OutputChannel) {
+export async function activate(context: vscode.ExtensionContext, packageJSON: any, platformInfo: PlatformInformation, provider: NetworkSettingsProvider, eventStream: EventStream, optionProvider: OptionProvider, extensionPath: string, outputChannel: vscode.OutputChannel, eventSinks: EventSinks) {
     const disposables = new CompositeDisposable();
 
     const options = optionProvider.GetLatestOptions();
@@ -48,6 +54,7 @@ export async function activate(context: vscode.ExtensionContext, packageJSON: an
     const server = new OmniSharpServer(vscode, provider, packageJSON, platformInfo, eventStream, optionProvider, extensionPath, omnisharpMonoResolver, omnisharpDotnetResolver, decompilationAuthorized, context, outputChannel, languageMiddlewareFeature);
     const advisor = new Advisor(server, optionProvider); // create before server is started
     const testManager = new TestManager(optionProvider, server, eventStream, languageMiddlewareFeature);
+    const testController = new DotnetTestController(server, testManager, eventStream, languageMiddlewareFeature);
     const workspaceInformationProvider = new OmnisharpWorkspaceDebugInformationProvider(server);
 
     let registrations: Disposable | undefined;
@@ -68,6 +75,36 @@ export async function activate(context: vscode.ExtensionContext, packageJSON: an
         await addAssetsIfNecessary(context, workspaceInformationProvider);
     }));
 
+    disposables.add(watchLaunchSettingsProfiles(workspaceInformationProvider));
+    const dotnetTaskProvider = new DotnetTaskProvider(workspaceInformationProvider);
+    disposables.add(vscode.tasks.registerTaskProvider(dotnetTaskType, dotnetTaskProvider));
+
+    // The workspace debug information leaves out the solution, so that the generated assets only build the startup
+    // project, but the view shows the projects in their solution.
+    const projectExplorer = new ProjectExplorer(workspaceInformationProvider, dotnetTaskProvider, async () => {
+        if (!server.isRunning()) {
+            return undefined;
+        }
+
+        // The server was started for a folder if there is no solution.
+        const solutionPath = (await utils.requestWorkspaceInformation(server)).MsBuild?.SolutionPath;
+        return solutionPath?.toLowerCase().endsWith('.sln') ? solutionPath : undefined;
+    });
+    disposables.add(projectExplorer);
+    disposables.add(server.onServerStart(() => projectExplorer.refresh()));
+    disposables.add(server.onServerStop(() => projectExplorer.refresh()));
+    disposables.add(server.onProjectAdded(() => projectExplorer.refresh()));
+    disposables.add(server.onProjectChange(() => projectExplorer.refresh()));
+    disposables.add(server.onProjectRemoved(() => projectExplorer.refresh()));
+
+    // Projects the server reports as unresolved are restored too, instead of prompting to restore them.
+    const autoRestore = new AutoRestore(workspaceInformationProvider, optionProvider);
+    disposables.add(autoRestore);
+    disposables.add(server.onUnresolvedDependencies(e => autoRestore.restoreInBackground([e.FileName])));
+
+    // Post the events of the server to the sinks registered through the extension exports.
+    disposables.add(registerExtensionEvents(server, eventSinks));
+
     // After server is started (and projects are loaded), check to see if there are
     // any project.json projects if the suppress option is not set. If so, notify the user about migration.
     let csharpConfig = vscode.workspace.getConfiguration('csharp');
@@ -126,6 +163,7 @@ export async function activate(context: vscode.ExtensionContext, packageJSON: an
 
     // stop server on deactivate
     disposables.add(new Disposable(() => {
+        testController.dispose();
         testManager.dispose();
         advisor.dispose();
         server.stop();
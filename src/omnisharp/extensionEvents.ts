@@ -0,0 +1,45 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as protocol from './protocol';
+import { OmniSharpServer } from './server';
+import { EventSinks, registerDiagnosticsSummary } from '../shared/eventSinks';
+import CompositeDisposable from '../CompositeDisposable';
+
+/**
+ * Posts the events of the OmniSharp server to the event sinks other extensions registered.
+ */
+export function registerExtensionEvents(server: OmniSharpServer, eventSinks: EventSinks): CompositeDisposable {
+    // The server doesn't report the projects removed when it stops.
+    const loadedProjects = new Set<string>();
+
+    const onProjectAdded = (e: protocol.ProjectInformationResponse) => {
+        const projectPath = e.MsBuildProject?.Path;
+        if (projectPath !== undefined && !loadedProjects.has(projectPath)) {
+            loadedProjects.add(projectPath);
+            eventSinks.postProjectLoaded({ server: 'omnisharp', projectPath });
+        }
+    };
+
+    const onProjectRemoved = (e: protocol.ProjectInformationResponse) => {
+        const projectPath = e.MsBuildProject?.Path;
+        if (projectPath !== undefined && loadedProjects.delete(projectPath)) {
+            eventSinks.postProjectUnloaded({ server: 'omnisharp', projectPath });
+        }
+    };
+
+    return new CompositeDisposable(
+        server.onBeforeServerStart(() => eventSinks.postServerStateChanged({ server: 'omnisharp', state: 'starting' })),
+        server.onServerStart(() => eventSinks.postServerStateChanged({ server: 'omnisharp', state: 'started' })),
+        server.onServerStop(() => {
+            loadedProjects.forEach(projectPath => eventSinks.postProjectUnloaded({ server: 'omnisharp', projectPath }));
+            loadedProjects.clear();
+            eventSinks.postServerStateChanged({ server: 'omnisharp', state: 'stopped' });
+        }),
+        server.onProjectAdded(onProjectAdded),
+        server.onProjectRemoved(onProjectRemoved),
+        server.onRequestCompleted(e => eventSinks.postRequestCompleted({ server: 'omnisharp', method: e.command, durationMs: e.elapsedTime })),
+        registerDiagnosticsSummary(eventSinks, 'omnisharp'));
+}
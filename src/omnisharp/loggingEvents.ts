@@ -178,11 +178,26 @@ export class DownloadSizeObtained implements BaseEvent {
     constructor(public packageSize: number) { }
 }
 
+export class DownloadResume implements BaseEvent {
+    type = EventType.DownloadResume;
+    constructor(public packageDescription: string, public offset: number) { }
+}
+
+export class DownloadCacheHit implements BaseEvent {
+    type = EventType.DownloadCacheHit;
+    constructor(public packageDescription: string) { }
+}
+
 export class ZipError implements BaseEvent {
     type = EventType.ZipError;
     constructor(public message: string) { }
 }
 
+export class TarError implements BaseEvent {
+    type = EventType.TarError;
+    constructor(public message: string) { }
+}
+
 export class ReportDotNetTestResults implements BaseEvent {
     type = EventType.ReportDotNetTestResults;
     constructor(public results: protocol.V2.DotNetTestResult[] | undefined) { }
@@ -4,6 +4,7 @@
  *--------------------------------------------------------------------------------------------*/
 
 import * as protocol from './protocol';
+import { DelayTracker } from './delayTracker';
 
 const priorityCommands = [
     protocol.Requests.ChangeBuffer,
@@ -26,9 +27,73 @@ const normalCommands = [
     protocol.Requests.GoToTypeDefinition
 ];
 
+// Normal commands the user is actively waiting on; these are never demoted.
+const interactiveCommands = [
+    protocol.Requests.Completion,
+    protocol.Requests.CompletionResolve,
+    protocol.Requests.SignatureHelp,
+    protocol.Requests.TypeLookup
+];
+
+// Commands that modify the server's copy of a buffer.
+const bufferChangeCommands = [
+    protocol.Requests.ChangeBuffer,
+    protocol.Requests.UpdateBuffer
+];
+
+// Read-only commands whose result is computed against the current buffer contents, making
+// them stale once a newer change to the same buffer has been enqueued.
+const supersedableCommands = [
+    protocol.Requests.CodeCheck,
+    protocol.Requests.Completion,
+    protocol.Requests.GetCodeActions,
+    protocol.Requests.InlayHint,
+    protocol.Requests.QuickInfo,
+    protocol.Requests.SignatureHelp,
+    protocol.Requests.TypeLookup,
+    protocol.V2.Requests.BlockStructure,
+    protocol.V2.Requests.CodeStructure,
+    protocol.V2.Requests.GetCodeActions,
+    protocol.V2.Requests.Highlight
+];
+
+// Read-only commands for which only one pending request per file and buffer version is kept. Identical
+// requests share the result of the newest one.
+const coalescableCommands = [
+    protocol.Requests.CodeCheck,
+    protocol.Requests.InlayHint,
+    protocol.Requests.QuickInfo,
+    protocol.Requests.SignatureHelp,
+    protocol.Requests.TypeLookup,
+    protocol.V2.Requests.BlockStructure,
+    protocol.V2.Requests.CodeStructure,
+    protocol.V2.Requests.Highlight
+];
+
+// Coalescable commands that follow the cursor, so a pending request for an older position is obsolete.
+const positionalCommands = [
+    protocol.Requests.QuickInfo,
+    protocol.Requests.SignatureHelp,
+    protocol.Requests.TypeLookup
+];
+
+// Normal commands averaging more than this many milliseconds are moved to the deferred queue...
+const DemotionDelayThreshold = 1500;
+// ...until their average drops below this many milliseconds.
+const PromotionDelayThreshold = 500;
+// Interactive commands averaging more than this many milliseconds indicate the server is saturated.
+const InteractiveDelayThreshold = 250;
+// Minimum number of samples before a command's measurements are trusted.
+const MinimumSampleCount = 5;
+
 const prioritySet = new Set<string>(priorityCommands);
 const normalSet = new Set<string>(normalCommands);
 const deferredSet = new Set<string>();
+const interactiveSet = new Set<string>(interactiveCommands);
+const bufferChangeSet = new Set<string>(bufferChangeCommands);
+const supersedableSet = new Set<string>(supersedableCommands);
+const coalescableSet = new Set<string>(coalescableCommands);
+const positionalSet = new Set<string>(positionalCommands);
 
 const nonDeferredSet = new Set<string>();
 
@@ -60,3 +125,83 @@ export function isDeferredCommand(command: string) {
     deferredSet.add(command);
     return true;
 }
+
+export function isBufferChangeCommand(command: string) {
+    return bufferChangeSet.has(command);
+}
+
+export function isSupersedableCommand(command: string) {
+    return supersedableSet.has(command);
+}
+
+export function isCoalescableCommand(command: string) {
+    return coalescableSet.has(command);
+}
+
+export function isPositionalCommand(command: string) {
+    return positionalSet.has(command);
+}
+
+/**
+ * Assigns commands to queues, learning from the measured latency of each command. Normal commands
+ * that are consistently slow are moved to the deferred queue so that they don't hold up interactive
+ * requests such as completion, and are moved back once they speed up again.
+ */
+export class RequestPrioritizer {
+    private _delayTrackers = new Map<string, DelayTracker>();
+    private _demotedSet = new Set<string>();
+
+    public isPriorityCommand(command: string) {
+        return isPriorityCommand(command);
+    }
+
+    public isNormalCommand(command: string) {
+        return isNormalCommand(command) && !this._demotedSet.has(command);
+    }
+
+    public isDemotedCommand(command: string) {
+        return this._demotedSet.has(command);
+    }
+
+    public reportDelay(command: string, elapsedTime: number) {
+        let tracker = this._delayTrackers.get(command);
+        if (tracker === undefined) {
+            tracker = new DelayTracker(command);
+            this._delayTrackers.set(command, tracker);
+        }
+
+        tracker.reportDelay(elapsedTime);
+
+        if (!isNormalCommand(command) || interactiveSet.has(command) || tracker.sampleCount() < MinimumSampleCount) {
+            return;
+        }
+
+        if (tracker.averageDelay() > DemotionDelayThreshold) {
+            this._demotedSet.add(command);
+        }
+        else if (tracker.averageDelay() < PromotionDelayThreshold) {
+            this._demotedSet.delete(command);
+        }
+    }
+
+    /**
+     * Returns the average latency of a command, or undefined if it has not completed yet.
+     */
+    public averageDelay(command: string): number | undefined {
+        return this._delayTrackers.get(command)?.averageDelay();
+    }
+
+    /**
+     * Returns true when interactive commands are, on average, slower than users will tolerate.
+     */
+    public isInteractiveLatencyHigh() {
+        for (const command of interactiveCommands) {
+            const tracker = this._delayTrackers.get(command);
+            if (tracker !== undefined && tracker.sampleCount() >= MinimumSampleCount && tracker.averageDelay() > InteractiveDelayThreshold) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+}
@@ -12,11 +12,38 @@ export interface Request {
     data?: any;
     onSuccess(value: any): void;
     onError(err: any): void;
+    enqueueTime?: number;
     startTime?: number;
     endTime?: number;
     id?: number;
+    /** Identifies requests that can be coalesced: the command, file and buffer version they were made against. */
+    coalescingKey?: string;
+    /** Older requests that were coalesced into this one and are waiting on its result. */
+    coalesced?: Request[];
+    /** The newer request this one was coalesced into, while it waits on its result. */
+    coalescedInto?: Request;
+    /** The data serialized to compare it to the data of other requests with the same coalescing key, once needed. */
+    serializedData?: string;
 }
 
+export interface RequestQueueStats {
+    name: string;
+    /** Number of requests waiting to be sent to the OmniSharp server. */
+    pending: number;
+    /** Number of requests sent to the OmniSharp server that are waiting on a response. */
+    waiting: number;
+    maxSize: number;
+    completed: number;
+    superseded: number;
+    /** Average time in milliseconds requests spent pending before being sent. */
+    averageQueueTime: number;
+    /** Average time in milliseconds the OmniSharp server took to respond. */
+    averageResponseTime: number;
+}
+
+// Weight given to the newest sample in the moving averages of the queue statistics.
+const StatsSmoothing = 0.2;
+
 /**
  * This data structure manages a queue of requests that have been made and requests that have been
  * sent to the OmniSharp server and are waiting on a response.
@@ -24,6 +51,10 @@ export interface Request {
 class RequestQueue {
     private _pending: Request[] = [];
     private _waiting: Map<number, Request> = new Map<number, Request>();
+    private _completed = 0;
+    private _superseded = 0;
+    private _averageQueueTime = 0;
+    private _averageResponseTime = 0;
 
     public constructor(
         private _name: string,
@@ -37,6 +68,7 @@ class RequestQueue {
      */
     public enqueue(request: Request) {
         this.eventStream.post(new OmnisharpServerEnqueueRequest(this._name, request.command));
+        request.enqueueTime = Date.now();
         this._pending.push(request);
     }
 
@@ -49,6 +81,11 @@ class RequestQueue {
         if (request) {
             this._waiting.delete(id);
             this.eventStream.post(new OmnisharpServerDequeueRequest(this._name, "waiting", request.command, id));
+
+            request.endTime = Date.now();
+            this._completed += 1;
+            this._averageQueueTime = this.updateAverage(this._averageQueueTime, request.startTime! - request.enqueueTime!);
+            this._averageResponseTime = this.updateAverage(this._averageResponseTime, request.endTime - request.startTime!);
         }
 
         return request;
@@ -66,6 +103,31 @@ class RequestQueue {
         }
     }
 
+    /**
+     * Removes the pending requests matching the predicate because a newer request made them obsolete.
+     */
+    public supersedePending(predicate: (request: Request) => boolean): Request[] {
+        const superseded = this._pending.filter(predicate);
+        if (superseded.length === 0) {
+            return superseded;
+        }
+
+        this._pending = this._pending.filter(request => !superseded.includes(request));
+        for (const request of superseded) {
+            this._superseded += 1;
+            this.eventStream.post(new OmnisharpServerDequeueRequest(this._name, "superseded", request.command));
+        }
+
+        return superseded;
+    }
+
+    /**
+     * Returns true if the request has been sent to the OmniSharp server and is waiting on a response.
+     */
+    public isWaiting(id: number) {
+        return this._waiting.has(id);
+    }
+
     /**
      * Returns true if there are any requests pending to be sent to the OmniSharp server.
      */
@@ -80,6 +142,27 @@ class RequestQueue {
         return this._waiting.size >= this._maxSize;
     }
 
+    /**
+     * Changes the maximum number of requests that can wait on the OmniSharp server at once.
+     * Requests already sent are unaffected.
+     */
+    public setMaxSize(maxSize: number) {
+        this._maxSize = maxSize;
+    }
+
+    public getStats(): RequestQueueStats {
+        return {
+            name: this._name,
+            pending: this._pending.length,
+            waiting: this._waiting.size,
+            maxSize: this._maxSize,
+            completed: this._completed,
+            superseded: this._superseded,
+            averageQueueTime: this._averageQueueTime,
+            averageResponseTime: this._averageResponseTime
+        };
+    }
+
     /**
      * Process any pending requests and send them to the OmniSharp server.
      */
@@ -104,6 +187,10 @@ class RequestQueue {
         }
         this.eventStream.post(new OmnisharpServerProcessRequestComplete());
     }
+
+    private updateAverage(average: number, value: number) {
+        return this._completed === 1 ? value : average + StatsSmoothing * (value - average);
+    }
 }
 
 export class RequestQueueCollection {
@@ -111,6 +198,9 @@ export class RequestQueueCollection {
     private _priorityQueue: RequestQueue;
     private _normalQueue: RequestQueue;
     private _deferredQueue: RequestQueue;
+    private _deferredConcurrency: number;
+    private _prioritizer = new prioritization.RequestPrioritizer();
+    private _bufferVersions = new Map<string, number>();
 
     public constructor(
         eventStream: EventStream,
@@ -118,16 +208,17 @@ export class RequestQueueCollection {
         makeRequest: (request: Request) => number
     ) {
         this._isProcessing = false;
+        this._deferredConcurrency = Math.max(Math.floor(concurrency / 4), 2);
         this._priorityQueue = new RequestQueue('Priority', 1, eventStream, makeRequest);
         this._normalQueue = new RequestQueue('Normal', concurrency, eventStream, makeRequest);
-        this._deferredQueue = new RequestQueue('Deferred', Math.max(Math.floor(concurrency / 4), 2), eventStream, makeRequest);
+        this._deferredQueue = new RequestQueue('Deferred', this._deferredConcurrency, eventStream, makeRequest);
     }
 
     private getQueue(command: string) {
-        if (prioritization.isPriorityCommand(command)) {
+        if (this._prioritizer.isPriorityCommand(command)) {
             return this._priorityQueue;
         }
-        else if (prioritization.isNormalCommand(command)) {
+        else if (this._prioritizer.isNormalCommand(command)) {
             return this._normalQueue;
         }
         else {
@@ -135,6 +226,10 @@ export class RequestQueueCollection {
         }
     }
 
+    private get queues() {
+        return [this._priorityQueue, this._normalQueue, this._deferredQueue];
+    }
+
     public isEmpty() {
         return !this._deferredQueue.hasPending()
             && !this._normalQueue.hasPending()
@@ -142,6 +237,13 @@ export class RequestQueueCollection {
     }
 
     public enqueue(request: Request) {
+        if (prioritization.isBufferChangeCommand(request.command)) {
+            this.supersedeStaleRequests(request);
+        }
+        else if (prioritization.isCoalescableCommand(request.command)) {
+            this.coalescePendingRequests(request);
+        }
+
         const queue = this.getQueue(request.command);
         queue.enqueue(request);
 
@@ -149,13 +251,131 @@ export class RequestQueueCollection {
     }
 
     public dequeue(command: string, seq: number) {
-        const queue = this.getQueue(command);
-        return queue.dequeue(seq);
+        // A command may have moved queues since it was sent, so look for it in all of them.
+        const queue = this.queues.find(q => q.isWaiting(seq));
+        const request = queue?.dequeue(seq);
+
+        if (request !== undefined) {
+            this._prioritizer.reportDelay(command, request.endTime! - request.startTime!);
+
+            // Throttle deferred work while interactive requests are slow so they get more of the server's attention.
+            this._deferredQueue.setMaxSize(this._prioritizer.isInteractiveLatencyHigh() ? 1 : this._deferredConcurrency);
+        }
+
+        return request;
     }
 
     public cancelRequest(request: Request) {
-        const queue = this.getQueue(request.command);
-        queue.cancelRequest(request);
+        for (const queue of this.queues) {
+            queue.cancelRequest(request);
+        }
+
+        const leader = request.coalescedInto;
+        if (leader !== undefined) {
+            leader.coalesced = leader.coalesced!.filter(follower => follower !== request);
+            request.coalescedInto = undefined;
+            return;
+        }
+
+        // The callers coalesced into a cancelled request didn't cancel theirs, so one of their requests is made again
+        // on behalf of all of them.
+        const [promoted, ...followers] = request.coalesced ?? [];
+        if (promoted === undefined) {
+            return;
+        }
+
+        request.coalesced = [];
+        promoted.coalescedInto = undefined;
+        for (const follower of followers) {
+            this.followRequest(promoted, follower);
+        }
+
+        this.getQueue(promoted.command).enqueue(promoted);
+        this.drain();
+    }
+
+    public getStats(): RequestQueueStats[] {
+        return this.queues.map(queue => queue.getStats());
+    }
+
+    /**
+     * Rejects pending read-only requests for a file that is about to change, as their results
+     * would no longer match the buffer (e.g. an older /completion after a newer /changebuffer).
+     */
+    private supersedeStaleRequests(bufferChange: Request) {
+        const fileName = bufferChange.data?.FileName;
+        if (!fileName) {
+            return;
+        }
+
+        this._bufferVersions.set(fileName, (this._bufferVersions.get(fileName) ?? 0) + 1);
+
+        for (const queue of this.queues) {
+            const superseded = queue.supersedePending(request =>
+                prioritization.isSupersedableCommand(request.command) && request.data?.FileName === fileName);
+
+            for (const request of superseded) {
+                request.onError(`${request.command} was superseded by a newer change to ${fileName}.`);
+            }
+        }
+    }
+
+    /**
+     * Removes pending requests made obsolete by a newer request for the same command, file and buffer version.
+     * Callers of an identical request are given the result of the newer one; for commands that follow the cursor,
+     * callers of a request for a different position are rejected instead.
+     */
+    private coalescePendingRequests(request: Request) {
+        const fileName = request.data?.FileName;
+        if (!fileName) {
+            return;
+        }
+
+        request.coalescingKey = `${request.command}|${fileName}|${this._bufferVersions.get(fileName) ?? 0}`;
+
+        const isPositional = prioritization.isPositionalCommand(request.command);
+
+        for (const queue of this.queues) {
+            const superseded = queue.supersedePending(pending => pending.coalescingKey === request.coalescingKey
+                && (isPositional || hasSameData(pending, request)));
+
+            for (const pending of superseded) {
+                if (hasSameData(pending, request)) {
+                    this.followRequest(request, pending);
+                }
+                else {
+                    pending.onError(`${pending.command} was superseded by a newer request for ${fileName}.`);
+                }
+            }
+        }
+    }
+
+    private followRequest(request: Request, follower: Request) {
+        // The callbacks notify the followers the request has when it completes, as cancelled ones are removed.
+        if (request.coalesced === undefined) {
+            const { onSuccess, onError } = request;
+            request.onSuccess = value => {
+                onSuccess(value);
+                request.coalesced!.forEach(coalesced => coalesced.onSuccess(value));
+            };
+            request.onError = err => {
+                onError(err);
+                request.coalesced!.forEach(coalesced => coalesced.onError(err));
+            };
+            request.coalesced = [];
+        }
+
+        // The follower's own followers now wait on the request directly.
+        const followers = [follower, ...follower.coalesced ?? []];
+        if (follower.coalesced !== undefined) {
+            follower.coalesced = [];
+        }
+
+        for (const coalesced of followers) {
+            coalesced.coalescedInto = request;
+        }
+
+        request.coalesced.push(...followers);
     }
 
     public drain() {
@@ -190,3 +410,17 @@ export class RequestQueueCollection {
         this._isProcessing = false;
     }
 }
+
+/**
+ * Compares the positions of the requests before their serialized data, as the data of some requests holds a whole
+ * buffer. The serialized data is cached on the requests for the next comparisons.
+ */
+function hasSameData(a: Request, b: Request): boolean {
+    if (a.data?.Line !== b.data?.Line || a.data?.Column !== b.data?.Column) {
+        return false;
+    }
+
+    a.serializedData = a.serializedData ?? JSON.stringify(a.data);
+    b.serializedData = b.serializedData ?? JSON.stringify(b.data);
+    return a.serializedData === b.serializedData;
+}
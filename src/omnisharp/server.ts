@@ -33,6 +33,7 @@ import { validateRequirements } from './requirementCheck';
 import { Advisor } from '../features/diagnosticsProvider';
 import TestManager from '../features/dotnetTest';
 import { findLaunchTargets } from './launcher';
+import { RequestQueueStats } from './requestQueue';
 
 enum ServerState {
     Starting,
@@ -74,6 +75,7 @@ export module Events {
     export const MsBuildProjectDiagnostics = 'MsBuildProjectDiagnostics';
 
     export const TestMessage = 'TestMessage';
+    export const TestCompleted = 'TestCompleted';
 
     export const BeforeServerInstall = 'BeforeServerInstall';
     export const BeforeServerStart = 'BeforeServerStart';
@@ -85,6 +87,8 @@ export module Events {
     export const Started = 'started';
 
     export const ProjectConfiguration = 'ProjectConfiguration';
+
+    export const RequestCompleted = 'RequestCompleted';
 }
 
 const TelemetryReportingDelay = 2 * 60 * 1000; // two minutes
@@ -152,6 +156,14 @@ export class OmniSharpServer {
         await engine.waitForInitialize();
     }
 
+    public getRequestQueueStats(): RequestQueueStats[] {
+        if (this._state.status !== ServerState.Started) {
+            return [];
+        }
+
+        return this._state.engine.getRequestQueueStats();
+    }
+
     private _setState(state: State): void {
         if (state.status !== this._state.status) {
             this._state = state;
@@ -241,6 +253,10 @@ export class OmniSharpServer {
         return this._addListener(Events.TestMessage, listener, thisArg);
     }
 
+    public onTestCompleted(listener: (e: protocol.V2.DotNetTestResult) => any, thisArg?: any) {
+        return this._addListener(Events.TestCompleted, listener, thisArg);
+    }
+
     public onBeforeServerInstall(listener: () => any) {
         return this._addListener(Events.BeforeServerInstall, listener);
     }
@@ -257,6 +273,10 @@ export class OmniSharpServer {
         return this._addListener(Events.ServerStop, listener);
     }
 
+    public onRequestCompleted(listener: (e: { command: string, elapsedTime: number }) => any) {
+        return this._addListener(Events.RequestCompleted, listener);
+    }
+
     public onMultipleLaunchTargets(listener: (targets: LaunchTarget[]) => any, thisArg?: any) {
         return this._addListener(Events.MultipleLaunchTargets, listener, thisArg);
     }
@@ -696,6 +716,7 @@ export class OmniSharpServer {
         let endTime = Date.now();
         let elapsedTime = endTime - startTime;
         this._recordRequestDelay(command, elapsedTime);
+        this._fireEvent(Events.RequestCompleted, { command, elapsedTime });
 
         return response;
     }
@@ -3,11 +3,13 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
+import * as fs from 'fs';
+import * as http from 'http';
 import * as https from 'https';
 import { EventStream } from "../EventStream";
-import { DownloadSuccess, DownloadStart, DownloadFallBack, DownloadFailure, DownloadProgress, DownloadSizeObtained } from "../omnisharp/loggingEvents";
+import { DownloadSuccess, DownloadStart, DownloadFallBack, DownloadFailure, DownloadProgress, DownloadSizeObtained, DownloadResume } from "../omnisharp/loggingEvents";
 import { NestedError } from "../NestedError";
-import { parse as parseUrl } from 'url';
+import { fileURLToPath, parse as parseUrl } from 'url';
 import { getProxyAgent } from './proxy';
 import { NetworkSettingsProvider } from '../NetworkSettings';
 
@@ -40,7 +42,42 @@ export async function DownloadFile(description: string, eventStream: EventStream
     }
 }
 
+/**
+ * Downloads a file to disk instead of into memory. Content already in the file, e.g. from an interrupted download,
+ * is kept and the download resumes after it when the server supports range requests. Besides https, the url can be
+ * an http url of an internal mirror or a file url of a local copy.
+ */
+export async function DownloadFileToPath(description: string, eventStream: EventStream, networkSettingsProvider: NetworkSettingsProvider, destinationPath: string, url: string, fallbackUrl?: string): Promise<void> {
+    eventStream.post(new DownloadStart(description));
+
+    try {
+        await downloadFileToPath(description, url, destinationPath, eventStream, networkSettingsProvider);
+        eventStream.post(new DownloadSuccess(` Done!`));
+    }
+    catch (primaryUrlError) {
+        if (fallbackUrl !== undefined) {
+            eventStream.post(new DownloadFallBack(fallbackUrl));
+            try {
+                // The fallback may not serve the exact same bytes, so don't resume from what the primary Url sent.
+                await fs.promises.rm(destinationPath, { force: true });
+                await downloadFileToPath(description, fallbackUrl, destinationPath, eventStream, networkSettingsProvider);
+                eventStream.post(new DownloadSuccess(' Done!'));
+            }
+            catch (fallbackUrlError) {
+                throw primaryUrlError;
+            }
+        }
+        else {
+            throw primaryUrlError;
+        }
+    }
+}
+
 async function downloadFile(description: string, urlString: string, eventStream: EventStream, networkSettingsProvider: NetworkSettingsProvider): Promise<Buffer> {
+    if (urlString.startsWith('file:')) {
+        return readLocalFile(description, urlString, eventStream);
+    }
+
     const url = parseUrl(urlString);
     const networkSettings = networkSettingsProvider();
     const proxy = networkSettings.proxy;
@@ -112,3 +149,188 @@ async function downloadFile(description: string, urlString: string, eventStream:
         request.end();
     });
 }
+
+/**
+ * The number of times a download is resumed after the connection is lost before giving up.
+ */
+const maxResumeAttempts = 5;
+
+/**
+ * The connection was lost before the whole file was received. Unlike an error status code from the server,
+ * this is worth retrying.
+ */
+class DownloadInterruptedError extends NestedError {
+}
+
+async function downloadFileToPath(description: string, urlString: string, destinationPath: string, eventStream: EventStream, networkSettingsProvider: NetworkSettingsProvider): Promise<void> {
+    if (urlString.startsWith('file:')) {
+        return copyLocalFile(description, urlString, destinationPath, eventStream);
+    }
+
+    let progress: DownloadProgressState = { sizeObtained: false, percentage: 0 };
+    for (let attempt = 0; ; attempt++) {
+        const offset = await getFileSize(destinationPath);
+        if (offset > 0) {
+            eventStream.post(new DownloadResume(description, offset));
+        }
+
+        try {
+            return await requestFileRange(description, urlString, destinationPath, offset, progress, eventStream, networkSettingsProvider);
+        }
+        catch (error) {
+            if (!(error instanceof DownloadInterruptedError) || attempt >= maxResumeAttempts) {
+                throw error;
+            }
+        }
+    }
+}
+
+interface DownloadProgressState {
+    sizeObtained: boolean;
+    percentage: number;
+}
+
+async function requestFileRange(description: string, urlString: string, destinationPath: string, offset: number, progress: DownloadProgressState, eventStream: EventStream, networkSettingsProvider: NetworkSettingsProvider): Promise<void> {
+    const url = parseUrl(urlString);
+    const networkSettings = networkSettingsProvider();
+    const proxy = networkSettings.proxy;
+    const strictSSL = networkSettings.strictSSL;
+    const options: https.RequestOptions = {
+        host: url.hostname,
+        path: url.path,
+        agent: getProxyAgent(url, proxy, strictSSL),
+        port: url.port,
+        rejectUnauthorized: strictSSL,
+        headers: offset > 0 ? { Range: `bytes=${offset}-` } : undefined,
+    };
+
+    // Internal mirrors are not necessarily served over https.
+    const requestModule = url.protocol === 'http:' ? http : https;
+
+    return new Promise<void>((resolve, reject) => {
+        let request = requestModule.request(options, response => {
+            if (response.statusCode === 301 || response.statusCode === 302) {
+                // Redirect - download from new location
+                response.resume();
+                if (response.headers.location === undefined) {
+                    eventStream.post(new DownloadFailure(`Failed to download from ${urlString}. Redirected without location header`));
+                    return reject(new NestedError('Missing location'));
+                }
+                return resolve(requestFileRange(description, response.headers.location, destinationPath, offset, progress, eventStream, networkSettingsProvider));
+            }
+            else if (response.statusCode === 416 && offset > 0) {
+                // The partial file doesn't match what the server has, e.g. it is longer, so start over.
+                response.resume();
+                return resolve(fs.promises.rm(destinationPath, { force: true }).then(async () =>
+                    requestFileRange(description, urlString, destinationPath, 0, progress, eventStream, networkSettingsProvider)));
+            }
+            else if (response.statusCode !== 200 && !(response.statusCode === 206 && offset > 0)) {
+                // Download failed - print error message
+                response.resume();
+                eventStream.post(new DownloadFailure(`Failed to download from ${urlString}. Error code '${response.statusCode}')`));
+                return reject(new NestedError(response.statusCode!.toString())); // Known to exist because this is from a ClientRequest
+            }
+
+            if (response.headers['content-length'] === undefined) {
+                response.resume();
+                eventStream.post(new DownloadFailure(`Failed to download from ${urlString}. No content-length header`));
+                return reject(new NestedError('Missing content-length'));
+            }
+
+            // A server that doesn't support range requests sends the whole file again.
+            const resumed = response.statusCode === 206;
+            const startBytes = resumed ? offset : 0;
+            const contentLength = parseInt(response.headers['content-length'], 10);
+            const packageSize = startBytes + contentLength;
+            let downloadedBytes = startBytes;
+
+            if (!progress.sizeObtained) {
+                progress.sizeObtained = true;
+                eventStream.post(new DownloadSizeObtained(packageSize));
+            }
+
+            const file = fs.createWriteStream(destinationPath, { flags: resumed ? 'a' : 'w' });
+            file.on('error', err => {
+                response.destroy();
+                reject(new NestedError(`Failed to write to ${destinationPath}. Error Message: ${err.message || 'NONE'}`, err));
+            });
+
+            response.on('data', data => {
+                downloadedBytes += data.length;
+
+                // Update status bar item with percentage
+                let newPercentage = Math.ceil(100 * (downloadedBytes / packageSize));
+                if (newPercentage !== progress.percentage) {
+                    progress.percentage = newPercentage;
+                    eventStream.post(new DownloadProgress(progress.percentage, description));
+                }
+            });
+
+            response.on('aborted', () => {
+                file.end();
+                reject(new DownloadInterruptedError(`Connection to ${urlString} was lost after ${downloadedBytes} of ${packageSize} bytes`));
+            });
+
+            response.on('error', err => {
+                file.end();
+                reject(new DownloadInterruptedError(`Failed to download from ${urlString}. Error Message: ${err.message || 'NONE'}`, err));
+            });
+
+            file.on('finish', () => {
+                if (downloadedBytes < packageSize) {
+                    reject(new DownloadInterruptedError(`Connection to ${urlString} was lost after ${downloadedBytes} of ${packageSize} bytes`));
+                }
+                else {
+                    resolve();
+                }
+            });
+
+            response.pipe(file);
+        });
+
+        request.on('error', err => {
+            // The connection may have dropped before the server responded, which resuming can recover from as well.
+            reject(new DownloadInterruptedError(`Request error: ${err.message || 'NONE'}`, err));
+        });
+
+        // Execute the request
+        request.end();
+    });
+}
+
+async function readLocalFile(description: string, urlString: string, eventStream: EventStream): Promise<Buffer> {
+    try {
+        const buffer = await fs.promises.readFile(fileURLToPath(urlString));
+        eventStream.post(new DownloadSizeObtained(buffer.length));
+        eventStream.post(new DownloadProgress(100, description));
+        return buffer;
+    }
+    catch (error) {
+        const err = <Error>error;
+        eventStream.post(new DownloadFailure(`Failed to read from ${urlString}. Error Message: ${err.message || 'NONE'}`));
+        throw new NestedError(`Failed to read from ${urlString}`, err);
+    }
+}
+
+async function copyLocalFile(description: string, urlString: string, destinationPath: string, eventStream: EventStream): Promise<void> {
+    try {
+        const sourcePath = fileURLToPath(urlString);
+        eventStream.post(new DownloadSizeObtained(await getFileSize(sourcePath)));
+        await fs.promises.copyFile(sourcePath, destinationPath);
+        eventStream.post(new DownloadProgress(100, description));
+    }
+    catch (error) {
+        const err = <Error>error;
+        eventStream.post(new DownloadFailure(`Failed to copy from ${urlString}. Error Message: ${err.message || 'NONE'}`));
+        throw new NestedError(`Failed to copy from ${urlString}`, err);
+    }
+}
+
+async function getFileSize(filePath: string): Promise<number> {
+    try {
+        return (await fs.promises.stat(filePath)).size;
+    }
+    catch {
+        return 0;
+    }
+}
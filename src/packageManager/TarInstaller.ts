@@ -0,0 +1,402 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as stream from 'stream';
+import * as zlib from 'zlib';
+import { spawn } from 'child_process';
+import { mkdirp } from 'async-file';
+import { EventStream } from "../EventStream";
+import { InstallationStart, TarError } from "../omnisharp/loggingEvents";
+import { NestedError } from '../NestedError';
+import { AbsolutePath } from './AbsolutePath';
+
+export type TarCompression = 'gzip' | 'xz';
+
+/**
+ * Returns how the archive at the url is compressed if it is a tar archive, or undefined for any other archive.
+ */
+export function getTarCompression(url: string): TarCompression | undefined {
+    const pathname = url.split(/[?#]/)[0].toLowerCase();
+    if (pathname.endsWith('.tar.gz') || pathname.endsWith('.tgz')) {
+        return 'gzip';
+    }
+    else if (pathname.endsWith('.tar.xz') || pathname.endsWith('.txz')) {
+        return 'xz';
+    }
+
+    return undefined;
+}
+
+/**
+ * Extracts the compressed tar archive at archivePath. Unlike zip archives, tar archives keep the Unix permissions of
+ * the files and can contain symbolic links, which are both preserved. The archive is decompressed and extracted as
+ * it is read from the file, so large packages aren't loaded into memory.
+ */
+export async function InstallTar(archivePath: string, compression: TarCompression, description: string, destinationInstallPath: AbsolutePath, binaries: AbsolutePath[] | undefined, eventStream: EventStream): Promise<void> {
+    eventStream.post(new InstallationStart(description));
+
+    const binaryPaths = binaries?.map(binary => binary.value);
+    const realInstallPath = await getRealPath(destinationInstallPath.value);
+    for await (const entry of readTarEntries(decompress(archivePath, compression, eventStream), eventStream)) {
+        const absoluteEntryPath = path.resolve(destinationInstallPath.value, entry.name);
+        if (entry.type === TarEntryType.Directory && absoluteEntryPath === path.resolve(destinationInstallPath.value)) {
+            // Archives created from a folder start with the folder itself, e.g. './', which is the install path.
+            continue;
+        }
+
+        if (!isInstallPathEntry(absoluteEntryPath, destinationInstallPath.value) || !await isRealInstallPathEntry(absoluteEntryPath, realInstallPath)) {
+            const message = `The tar archive entry '${entry.name}' is outside of the install path`;
+            eventStream.post(new TarError(message));
+            throw new NestedError(message);
+        }
+
+        try {
+            await extractEntry(entry, absoluteEntryPath, realInstallPath, binaryPaths);
+        }
+        catch (err) {
+            const error = err as NodeJS.ErrnoException;
+            throw new NestedError(`Error extracting tar entry '${entry.name}': ${error.code ?? error.message}`, error);
+        }
+    }
+}
+
+async function extractEntry(entry: TarEntry, absoluteEntryPath: string, realInstallPath: string, binaryPaths: string[] | undefined) {
+    switch (entry.type) {
+        case TarEntryType.Directory:
+            await mkdirp(absoluteEntryPath, entry.mode | 0o700);
+            break;
+        case TarEntryType.File: {
+            await mkdirp(path.dirname(absoluteEntryPath), 0o775);
+            await fs.promises.rm(absoluteEntryPath, { force: true });
+
+            // Make sure executable files have correct permissions, even if the archive was created without them.
+            const fileMode = binaryPaths?.includes(absoluteEntryPath) ? entry.mode | 0o755 : entry.mode;
+            await fs.promises.writeFile(absoluteEntryPath, entry.content, { mode: fileMode });
+
+            // The mode passed when creating the file is subject to the umask.
+            await fs.promises.chmod(absoluteEntryPath, fileMode);
+            break;
+        }
+        case TarEntryType.SymbolicLink: {
+            const target = path.resolve(await getRealPath(path.dirname(absoluteEntryPath)), entry.linkName);
+            if (!isInstallPathEntry(target, realInstallPath)) {
+                throw new NestedError(`The link target '${entry.linkName}' is outside of the install path`);
+            }
+
+            await mkdirp(path.dirname(absoluteEntryPath), 0o775);
+            await fs.promises.rm(absoluteEntryPath, { force: true });
+            await fs.promises.symlink(entry.linkName, absoluteEntryPath);
+            break;
+        }
+        case TarEntryType.HardLink: {
+            // Hard link targets are relative to the root of the archive, and are extracted before the link.
+            const target = await getRealPath(path.resolve(realInstallPath, entry.linkName));
+            if (!isInstallPathEntry(target, realInstallPath)) {
+                throw new NestedError(`The link target '${entry.linkName}' is outside of the install path`);
+            }
+
+            await mkdirp(path.dirname(absoluteEntryPath), 0o775);
+            await fs.promises.rm(absoluteEntryPath, { force: true });
+            await fs.promises.copyFile(target, absoluteEntryPath);
+            await fs.promises.chmod(absoluteEntryPath, (await fs.promises.stat(target)).mode);
+            break;
+        }
+    }
+}
+
+/**
+ * Archives are not trusted to only write to the install path, e.g. with '../' in the name of an entry.
+ */
+function isInstallPathEntry(entryPath: string, installPath: string): boolean {
+    const relativePath = path.relative(installPath, entryPath);
+    return !path.isAbsolute(relativePath) && relativePath.split(path.sep)[0] !== '..';
+}
+
+/**
+ * Links extracted earlier can make an entry whose name is in the install path end up outside of it, e.g. 'a' linking
+ * to '.' and 'a/b' linking to '..' followed by 'a/b/file', so the directory an entry is written to is resolved too.
+ */
+async function isRealInstallPathEntry(entryPath: string, realInstallPath: string): Promise<boolean> {
+    try {
+        return isInstallPathEntry(await getRealPath(path.dirname(entryPath)), realInstallPath);
+    }
+    catch {
+        return false;
+    }
+}
+
+/**
+ * Resolves the links in a path. The part of the path that doesn't exist yet can't contain links, so it is kept as is.
+ */
+async function getRealPath(filePath: string): Promise<string> {
+    try {
+        return await fs.promises.realpath(filePath);
+    }
+    catch (err) {
+        const parentPath = path.dirname(filePath);
+        if ((<NodeJS.ErrnoException>err).code !== 'ENOENT' || parentPath === filePath || await isDanglingLink(filePath)) {
+            throw err;
+        }
+
+        return path.join(await getRealPath(parentPath), path.basename(filePath));
+    }
+}
+
+async function isDanglingLink(filePath: string): Promise<boolean> {
+    try {
+        return (await fs.promises.lstat(filePath)).isSymbolicLink();
+    }
+    catch {
+        return false;
+    }
+}
+
+enum TarEntryType {
+    File,
+    Directory,
+    SymbolicLink,
+    HardLink
+}
+
+interface TarEntry {
+    name: string;
+    type: TarEntryType;
+    mode: number;
+    linkName: string;
+    content: Buffer;
+}
+
+const blockSize = 512;
+
+/**
+ * Reads the entries of an uncompressed ustar archive as it is decompressed, including the GNU and PAX extensions for
+ * long names. Entries of other types, e.g. devices, aren't needed by any package and are skipped.
+ */
+async function* readTarEntries(archive: AsyncIterable<Buffer>, eventStream: EventStream): AsyncGenerator<TarEntry> {
+    const reader = new BlockReader(archive[Symbol.asyncIterator]());
+    const corrupt = (reason: string) => {
+        const message = `The tar archive is corrupt: ${reason}`;
+        eventStream.post(new TarError(message));
+        return new NestedError(message);
+    };
+
+    let longName: string | undefined;
+    let longLinkName: string | undefined;
+
+    while (true) {
+        const header = await reader.read(blockSize);
+
+        // The archive ends with two empty blocks.
+        if (header.length < blockSize || header.every(byte => byte === 0)) {
+            break;
+        }
+
+        if (!isValidChecksum(header)) {
+            throw corrupt('header checksum mismatch');
+        }
+
+        const size = readNumber(header, 124, 12);
+        const typeFlag = String.fromCharCode(header[156]);
+        const paddedSize = Math.ceil(size / blockSize) * blockSize;
+        const content = (await reader.read(paddedSize)).subarray(0, size);
+        if (content.length < size) {
+            throw corrupt('unexpected end of archive');
+        }
+
+        switch (typeFlag) {
+            case 'L':
+                longName = readString(content, 0, content.length);
+                continue;
+            case 'K':
+                longLinkName = readString(content, 0, content.length);
+                continue;
+            case 'x': {
+                const attributes = readPaxAttributes(content);
+                longName = attributes.get('path') ?? longName;
+                longLinkName = attributes.get('linkpath') ?? longLinkName;
+                continue;
+            }
+            case 'g':
+                continue;
+        }
+
+        const prefix = readString(header, 345, 155);
+        const headerName = readString(header, 0, 100);
+        const name = longName ?? (prefix.length > 0 ? `${prefix}/${headerName}` : headerName);
+        const linkName = longLinkName ?? readString(header, 157, 100);
+        longName = undefined;
+        longLinkName = undefined;
+
+        const type = getEntryType(typeFlag, name);
+        if (type === undefined) {
+            continue;
+        }
+
+        yield { name, type, mode: readNumber(header, 100, 8) & 0o7777, linkName, content };
+    }
+}
+
+/**
+ * Reads a stream of chunks in the sizes the tar format needs, which don't line up with the chunks.
+ */
+class BlockReader {
+    private _chunks: Buffer[] = [];
+    private _length = 0;
+    private _ended = false;
+
+    public constructor(private readonly _stream: AsyncIterator<Buffer>) { }
+
+    /**
+     * Reads the given number of bytes, or what is left of the stream if it ends before.
+     */
+    public async read(length: number): Promise<Buffer> {
+        while (this._length < length && !this._ended) {
+            const { value, done } = await this._stream.next();
+            if (done) {
+                this._ended = true;
+            }
+            else {
+                this._chunks.push(value);
+                this._length += value.length;
+            }
+        }
+
+        const data = this._chunks.length === 1 ? this._chunks[0] : Buffer.concat(this._chunks);
+        const rest = data.subarray(length);
+        this._chunks = rest.length > 0 ? [rest] : [];
+        this._length = rest.length;
+        return data.subarray(0, length);
+    }
+}
+
+function getEntryType(typeFlag: string, name: string): TarEntryType | undefined {
+    switch (typeFlag) {
+        case '0':
+        case '\0':
+        case '7':
+            // Old archives mark directories with a trailing slash instead of a type.
+            return name.endsWith('/') ? TarEntryType.Directory : TarEntryType.File;
+        case '1':
+            return TarEntryType.HardLink;
+        case '2':
+            return TarEntryType.SymbolicLink;
+        case '5':
+            return TarEntryType.Directory;
+        default:
+            return undefined;
+    }
+}
+
+function isValidChecksum(header: Buffer): boolean {
+    // The checksum is computed with the checksum field itself filled with spaces.
+    let sum = 0;
+    for (let i = 0; i < blockSize; i++) {
+        sum += i >= 148 && i < 156 ? 0x20 : header[i];
+    }
+
+    return sum === readNumber(header, 148, 8);
+}
+
+function readString(buffer: Buffer, offset: number, length: number): string {
+    const field = buffer.subarray(offset, offset + length);
+    const end = field.indexOf(0);
+    return field.subarray(0, end === -1 ? field.length : end).toString('utf8');
+}
+
+function readNumber(buffer: Buffer, offset: number, length: number): number {
+    // Large numbers are stored in base-256, marked by the high bit of the first byte.
+    if (buffer[offset] & 0x80) {
+        let value = buffer[offset] & 0x7f;
+        for (let i = 1; i < length; i++) {
+            value = value * 256 + buffer[offset + i];
+        }
+
+        return value;
+    }
+
+    const text = readString(buffer, offset, length).trim();
+    return text.length > 0 ? parseInt(text, 8) : 0;
+}
+
+function readPaxAttributes(content: Buffer): Map<string, string> {
+    // Each record is "<length> <key>=<value>\n", where the length counts the bytes of the whole record.
+    const attributes = new Map<string, string>();
+    for (let offset = 0; offset < content.length;) {
+        const space = content.indexOf(0x20, offset);
+        const length = space === -1 ? NaN : parseInt(content.subarray(offset, space).toString('utf8'), 10);
+        if (isNaN(length) || length <= 0) {
+            break;
+        }
+
+        const record = content.subarray(space + 1, offset + length - 1).toString('utf8');
+        const separator = record.indexOf('=');
+        if (separator > 0) {
+            attributes.set(record.substring(0, separator), record.substring(separator + 1));
+        }
+
+        offset += length;
+    }
+
+    return attributes;
+}
+
+/**
+ * Decompresses the archive as it is read. Failures to decompress are reported as the chunks are read.
+ */
+async function* decompress(archivePath: string, compression: TarCompression, eventStream: EventStream): AsyncGenerator<Buffer> {
+    try {
+        for await (const chunk of compression === 'gzip' ? gunzip(archivePath) : unxz(archivePath)) {
+            yield chunk;
+        }
+    }
+    catch (err) {
+        const message = `C# Extension was unable to decompress the ${compression} archive of its dependencies.`;
+        eventStream.post(new TarError(message));
+        throw new NestedError(message, <Error>err);
+    }
+}
+
+function gunzip(archivePath: string): AsyncIterable<Buffer> {
+    // Unlike pipe, pipeline passes the errors of reading the file on to the gunzip stream.
+    return stream.pipeline(fs.createReadStream(archivePath), zlib.createGunzip(), () => { });
+}
+
+/**
+ * Node doesn't come with an xz decompressor, so use the xz tool that comes with the distributions the tar.xz builds
+ * are published for.
+ */
+async function* unxz(archivePath: string): AsyncGenerator<Buffer> {
+    const xz = spawn('xz', ['--decompress', '--stdout', archivePath]);
+    let errorOutput = '';
+    xz.stderr.on('data', (data: Buffer) => errorOutput += data.toString());
+    const exited = new Promise<number | null>((resolve, reject) => {
+        xz.on('error', err => reject(new NestedError(`Failed to run xz: ${err.message}`, err)));
+        xz.on('close', resolve);
+    });
+
+    // The error is thrown once the output was read, or not at all if extracting fails first.
+    exited.catch(() => { });
+
+    let completed = false;
+    try {
+        for await (const chunk of xz.stdout) {
+            yield chunk;
+        }
+
+        const code = await exited;
+        if (code !== 0) {
+            throw new NestedError(`xz exited with code ${code}: ${errorOutput.trim()}`);
+        }
+
+        completed = true;
+    }
+    finally {
+        if (!completed) {
+            xz.kill();
+        }
+    }
+}
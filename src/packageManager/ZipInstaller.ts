@@ -12,17 +12,27 @@ import { InstallationStart, ZipError } from "../omnisharp/loggingEvents";
 import { NestedError } from '../NestedError';
 import { AbsolutePath } from './AbsolutePath';
 
-export async function InstallZip(buffer: Buffer, description: string, destinationInstallPath: AbsolutePath, binaries: AbsolutePath[] | undefined, eventStream: EventStream): Promise<void> {
+/**
+ * Extracts the zip archive at zipPath. The entries are read from the file as they are extracted, so large packages
+ * aren't loaded into memory.
+ */
+export async function InstallZip(zipPath: string, description: string, destinationInstallPath: AbsolutePath, binaries: AbsolutePath[] | undefined, eventStream: EventStream): Promise<void> {
     eventStream.post(new InstallationStart(description));
 
     return new Promise<void>((resolve, reject) => {
-        yauzl.fromBuffer(buffer, { lazyEntries: true }, (err, zipFile) => {
+        yauzl.open(zipPath, { lazyEntries: true }, (err, zipFile) => {
             if (err !== null) {
                 let message = "C# Extension was unable to download its dependencies. Please check your internet connection. If you use a proxy server, please visit https://aka.ms/VsCodeCsharpNetworking";
                 eventStream.post(new ZipError(message));
                 return reject(new NestedError(message));
             }
 
+            // The file is only closed by itself once all the entries were read.
+            const fail = (error: NestedError) => {
+                zipFile.close();
+                reject(error);
+            };
+
             zipFile.readEntry();
 
             zipFile.on('entry', async (entry: yauzl.Entry) => {
@@ -36,14 +46,14 @@ export async function InstallZip(buffer: Buffer, description: string, destinatio
                     }
                     catch (err) {
                         const error = err as NodeJS.ErrnoException; // Hack for TypeScript to type err correctly
-                        return reject(new NestedError('Error creating directory for zip directory entry:' + error.code ?? '', error));
+                        return fail(new NestedError('Error creating directory for zip directory entry:' + error.code ?? '', error));
                     }
                 }
                 else {
                     // File - extract it
                     zipFile.openReadStream(entry, async (err, readStream) => {
                         if (err) {
-                            return reject(new NestedError('Error reading zip stream', err));
+                            return fail(new NestedError('Error reading zip stream', err));
                         }
 
                         try {
@@ -57,7 +67,7 @@ export async function InstallZip(buffer: Buffer, description: string, destinatio
                             readStream.on('end', () => zipFile.readEntry());
                         }
                         catch (err) {
-                            return reject(new NestedError('Error creating directory for zip file entry', err as NodeJS.ErrnoException));
+                            return fail(new NestedError('Error creating directory for zip file entry', err as NodeJS.ErrnoException));
                         }
                     });
                 }
@@ -3,64 +3,194 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
+import * as path from 'path';
 import { PackageError } from './PackageError';
 import { NestedError } from "../NestedError";
-import { DownloadFile } from './FileDownloader';
+import { DownloadFileToPath } from './FileDownloader';
 import { InstallZip } from './ZipInstaller';
+import { getTarCompression, InstallTar } from './TarInstaller';
 import { EventStream } from '../EventStream';
 import { NetworkSettingsProvider } from "../NetworkSettings";
 import { AbsolutePathPackage } from "./AbsolutePathPackage";
-import { touchInstallFile, InstallFileType, deleteInstallFile, installFileExists } from "../common";
-import { InstallationFailure, IntegrityCheckFailure } from "../omnisharp/loggingEvents";
-import { mkdirpSync } from "fs-extra";
+import { touchInstallFile, InstallFileType, deleteInstallFile, installFileExists, mapAsyncWithConcurrency, deleteIfExists, fileExists } from "../common";
+import { DownloadCacheHit, InstallationFailure, IntegrityCheckFailure } from "../omnisharp/loggingEvents";
+import { mkdirp, mkdirpSync, readFile, rename, writeFile } from "fs-extra";
 import { PackageInstallStart } from "../omnisharp/loggingEvents";
 import { DownloadValidator } from './isValidDownload';
+import { CreateTmpFile, TmpAsset } from '../CreateTmpAsset';
 
-export async function downloadAndInstallPackages(packages: AbsolutePathPackage[], provider: NetworkSettingsProvider, eventStream: EventStream, downloadValidator: DownloadValidator): Promise<boolean> {
+/**
+ * The number of packages that are downloaded at the same time.
+ */
+const maxConcurrentDownloads = 4;
+
+/**
+ * Downloads and installs the packages, several at a time. If a cache directory is given, downloads of packages with
+ * an integrity hash are kept there under that hash, so installing the same package again, e.g. in another version
+ * of the extension, doesn't download it again.
+ */
+export async function downloadAndInstallPackages(packages: AbsolutePathPackage[], provider: NetworkSettingsProvider, eventStream: EventStream, downloadValidator: DownloadValidator, cacheDirectory?: string): Promise<boolean> {
     eventStream.post(new PackageInstallStart());
-    for (let pkg of packages) {
-        let installationStage = "touchBeginFile";
-        try {
-            mkdirpSync(pkg.installPath.value);
-            await touchInstallFile(pkg.installPath, InstallFileType.Begin);
-            let count = 1;
-            let willTryInstallingPackage = () => count <= 2; // try 2 times
-            while (willTryInstallingPackage()) {
-                count = count + 1;
-                installationStage = "downloadPackage";
-                let buffer = await DownloadFile(pkg.description, eventStream, provider, pkg.url, pkg.fallbackUrl);
-                if (downloadValidator(buffer, pkg.integrity, eventStream)) {
-                    installationStage = "installPackage";
-                    await InstallZip(buffer, pkg.description, pkg.installPath, pkg.binaries, eventStream);
-                    installationStage = 'touchLockFile';
-                    await touchInstallFile(pkg.installPath, InstallFileType.Lock);
-                    break;
-                }
-                else {
-                    eventStream.post(new IntegrityCheckFailure(pkg.description, pkg.url, willTryInstallingPackage()));
-                }
-            }
-        }
-        catch (error) {
-            if (error instanceof NestedError) {
-                let packageError = new PackageError(error.message, pkg, error.err);
-                eventStream.post(new InstallationFailure(installationStage, packageError));
+    const results = await mapAsyncWithConcurrency(packages, maxConcurrentDownloads,
+        async pkg => downloadAndInstallPackage(pkg, provider, eventStream, downloadValidator, cacheDirectory));
+    return results.every(installed => installed);
+}
+
+async function downloadAndInstallPackage(pkg: AbsolutePathPackage, provider: NetworkSettingsProvider, eventStream: EventStream, downloadValidator: DownloadValidator, cacheDirectory: string | undefined): Promise<boolean> {
+    let installationStage = "touchBeginFile";
+    let downloadedPackage: DownloadedPackage | undefined;
+    try {
+        mkdirpSync(pkg.installPath.value);
+        await touchInstallFile(pkg.installPath, InstallFileType.Begin);
+        installationStage = "downloadPackage";
+        downloadedPackage = await downloadPackage(pkg, provider, eventStream, downloadValidator, cacheDirectory);
+        if (downloadedPackage !== undefined) {
+            installationStage = "installPackage";
+            const tarCompression = getTarCompression(pkg.url);
+            if (tarCompression !== undefined) {
+                await InstallTar(downloadedPackage.path, tarCompression, pkg.description, pkg.installPath, pkg.binaries, eventStream);
             }
             else {
-                eventStream.post(new InstallationFailure(installationStage, error));
+                await InstallZip(downloadedPackage.path, pkg.description, pkg.installPath, pkg.binaries, eventStream);
             }
 
-            return false;
+            installationStage = 'touchLockFile';
+            await touchInstallFile(pkg.installPath, InstallFileType.Lock);
         }
-        finally {
-            try {
-                if (await installFileExists(pkg.installPath, InstallFileType.Begin)) {
-                    await deleteInstallFile(pkg.installPath, InstallFileType.Begin);
-                }
+    }
+    catch (error) {
+        if (error instanceof NestedError) {
+            let packageError = new PackageError(error.message, pkg, error.err);
+            eventStream.post(new InstallationFailure(installationStage, packageError));
+        }
+        else {
+            eventStream.post(new InstallationFailure(installationStage, error));
+        }
+
+        return false;
+    }
+    finally {
+        downloadedPackage?.dispose();
+        try {
+            if (await installFileExists(pkg.installPath, InstallFileType.Begin)) {
+                await deleteInstallFile(pkg.installPath, InstallFileType.Begin);
             }
-            catch (error) { }
         }
+        catch (error) { }
     }
 
     return true;
 }
+
+interface DownloadedPackage {
+    path: string;
+
+    /**
+     * Deletes the download if it was made to a temporary file rather than the cache.
+     */
+    dispose(): void;
+}
+
+/**
+ * Returns the file the package was downloaded to, or undefined if no download passed the integrity check. The
+ * installers read the package from the file, so it isn't loaded into memory.
+ */
+async function downloadPackage(pkg: AbsolutePathPackage, provider: NetworkSettingsProvider, eventStream: EventStream, downloadValidator: DownloadValidator, cacheDirectory: string | undefined): Promise<DownloadedPackage | undefined> {
+    const cachePath = cacheDirectory !== undefined && pkg.integrity !== undefined && pkg.integrity.length > 0
+        ? path.join(cacheDirectory, pkg.integrity.toUpperCase())
+        : undefined;
+
+    if (cachePath !== undefined && await fileExists(cachePath)) {
+        eventStream.post(new DownloadCacheHit(pkg.description));
+        if (await downloadValidator(cachePath, pkg.integrity, eventStream)) {
+            return { path: cachePath, dispose: () => { } };
+        }
+
+        // The cached file is corrupt, download it again.
+        await deleteIfExists(cachePath);
+    }
+
+    let tmpFile: TmpAsset | undefined;
+    let lockPath: string | undefined;
+    try {
+        let downloadPath: string;
+        if (cachePath !== undefined && await tryLockPartialDownload(cacheDirectory!, `${cachePath}.lock`)) {
+            // Keep partial downloads next to the cache so they can be resumed the next time the package is installed.
+            lockPath = `${cachePath}.lock`;
+            downloadPath = `${cachePath}.partial`;
+        }
+        else {
+            tmpFile = await CreateTmpFile();
+            downloadPath = tmpFile.name;
+        }
+
+        let count = 1;
+        let willTryDownloadingPackage = () => count <= 2; // try 2 times
+        while (willTryDownloadingPackage()) {
+            count = count + 1;
+            await DownloadFileToPath(pkg.description, eventStream, provider, downloadPath, pkg.url, pkg.fallbackUrl);
+            if (await downloadValidator(downloadPath, pkg.integrity, eventStream)) {
+                if (lockPath !== undefined) {
+                    await rename(downloadPath, cachePath!);
+                    return { path: cachePath!, dispose: () => { } };
+                }
+
+                // The temporary file is kept until the package is installed.
+                const downloadedTmpFile = tmpFile!;
+                tmpFile = undefined;
+                return { path: downloadPath, dispose: () => downloadedTmpFile.dispose() };
+            }
+
+            // Resuming would only add to the bad download, so start from scratch.
+            await deleteIfExists(downloadPath);
+            eventStream.post(new IntegrityCheckFailure(pkg.description, pkg.url, willTryDownloadingPackage()));
+        }
+
+        return undefined;
+    }
+    finally {
+        tmpFile?.dispose();
+        if (lockPath !== undefined) {
+            await deleteIfExists(lockPath);
+        }
+    }
+}
+
+/**
+ * Takes the lock on the partial download of a cached package, so that an install running in another window doesn't
+ * write to the same file. The lock file holds the id of the process that took it, and a lock left behind by a
+ * process that no longer runs is taken over. Returns false if the lock is held, in which case the package is
+ * downloaded to a temporary file instead.
+ */
+async function tryLockPartialDownload(cacheDirectory: string, lockPath: string, retry: boolean = true): Promise<boolean> {
+    await mkdirp(cacheDirectory);
+    try {
+        await writeFile(lockPath, `${process.pid}`, { flag: 'wx' });
+        return true;
+    }
+    catch (error) {
+        if ((<NodeJS.ErrnoException>error).code !== 'EEXIST') {
+            throw error;
+        }
+    }
+
+    let ownerPid = parseInt(await readFile(lockPath, 'utf8'));
+    if (!retry || (!isNaN(ownerPid) && isProcessRunning(ownerPid))) {
+        return false;
+    }
+
+    await deleteIfExists(lockPath);
+    return tryLockPartialDownload(cacheDirectory, lockPath, /*retry*/ false);
+}
+
+function isProcessRunning(pid: number): boolean {
+    try {
+        // Signal 0 only checks that the process exists.
+        process.kill(pid, 0);
+        return true;
+    }
+    catch (error) {
+        // The process exists but belongs to another user.
+        return (<NodeJS.ErrnoException>error).code === 'EPERM';
+    }
+}
@@ -4,11 +4,15 @@
  *--------------------------------------------------------------------------------------------*/
 
 import * as crypto from "crypto";
+import * as fs from "fs";
 import { EventStream } from "../EventStream";
 import { IntegrityCheckSuccess, DownloadValidation } from "../omnisharp/loggingEvents";
 
+/**
+ * Checks the integrity of a downloaded file.
+ */
 export interface DownloadValidator {
-    (buffer: Buffer, integrity: string | undefined, eventStream: EventStream): boolean;
+    (filePath: string, integrity: string | undefined, eventStream: EventStream): Promise<boolean>;
 }
 
 export function isValidDownload(buffer: Buffer, integrity: string | undefined, eventStream: EventStream): boolean {
@@ -28,6 +32,35 @@ export function isValidDownload(buffer: Buffer, integrity: string | undefined, e
     return true;
 }
 
+/**
+ * Checks the integrity of a downloaded file, hashing it as it is read rather than reading it into memory first.
+ */
+export async function isValidDownloadFile(filePath: string, integrity: string | undefined, eventStream: EventStream): Promise<boolean> {
+    if (integrity !== undefined && integrity.length > 0) {
+        eventStream.post(new DownloadValidation());
+        let value = await getFileIntegrityHash(filePath);
+        if (value === integrity.toUpperCase()) {
+            eventStream.post(new IntegrityCheckSuccess());
+            return true;
+        }
+        else {
+            return false;
+        }
+    }
+
+    // no integrity has been specified
+    return true;
+}
+
+export async function getFileIntegrityHash(filePath: string): Promise<string> {
+    let hash = crypto.createHash('sha256');
+    for await (const chunk of fs.createReadStream(filePath)) {
+        hash.update(chunk);
+    }
+
+    return hash.digest('hex').toUpperCase();
+}
+
 export function getBufferIntegrityHash(buffer: Buffer): string {
     let hash = crypto.createHash('sha256');
     hash.update(buffer);
@@ -0,0 +1,48 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import { parse as parseUrl, pathToFileURL } from 'url';
+import { AbsolutePathPackage } from './AbsolutePathPackage';
+
+/**
+ * Points the packages at a local directory or an HTTP(S) mirror instead of the URLs they are published at, for
+ * machines that can't reach those. The source is expected to have each package under the file name of its URL, as
+ * if the packages had been downloaded into one directory. Returns the packages unchanged if the source is empty.
+ */
+export function getPackagesFromLocalSource(packages: AbsolutePathPackage[], source: string): AbsolutePathPackage[] {
+    source = source.trim();
+    if (source.length === 0) {
+        return packages;
+    }
+
+    return packages.map(pkg => new AbsolutePathPackage(
+        pkg.id,
+        pkg.description,
+        getLocalPackageUrl(pkg.url, source),
+        pkg.platforms,
+        pkg.architectures,
+        pkg.installPath,
+        pkg.binaries,
+        pkg.installTestPath,
+        // The point of a local source is to not reach out to the internet.
+        undefined,
+        pkg.platformId,
+        pkg.integrity,
+        pkg.isFramework));
+}
+
+export function getLocalPackageUrl(packageUrl: string, source: string): string {
+    const fileName = decodeURIComponent(path.posix.basename(parseUrl(packageUrl).pathname ?? packageUrl));
+    if (isMirrorUrl(source)) {
+        return `${source.replace(/\/+$/, '')}/${encodeURIComponent(fileName)}`;
+    }
+
+    return pathToFileURL(path.join(source, fileName)).toString();
+}
+
+function isMirrorUrl(source: string): boolean {
+    return /^https?:\/\//i.test(source);
+}
@@ -2,7 +2,7 @@
  * Copyright (c) Microsoft Corporation. All rights reserved.
  * Licensed under the MIT License. See License.txt in the project root for license information.
  * ------------------------------------------------------------------------------------------ */
-import { promises, readFileSync } from 'fs';
+import { promises } from 'fs';
 import { join } from 'path';
 import { fileURLToPath } from 'url';
 import * as vscode from 'vscode';
@@ -12,6 +12,7 @@ import { JS_DEBUG_NAME, SERVER_APP_NAME } from './Constants';
 import { onDidTerminateDebugSession } from './TerminateDebugHandler';
 import showInformationMessage from '../../../shared/observers/utils/ShowInformationMessage';
 import showErrorMessage from '../../../observers/utils/ShowErrorMessage';
+import { getApplicationUrl, LaunchSettingsProfile, parseLaunchSettingsProfiles } from '../../../shared/launchSettings';
 
 export class BlazorDebugConfigurationProvider implements vscode.DebugConfigurationProvider {
     private readonly autoDetectUserNotice = `Run and Debug: auto-detection found {0} for a launch browser`;
@@ -21,29 +22,27 @@ export class BlazorDebugConfigurationProvider implements vscode.DebugConfigurati
     constructor(private readonly logger: RazorLogger, private readonly vscodeType: typeof vscode) { }
 
     public async resolveDebugConfiguration(folder: vscode.WorkspaceFolder | undefined, configuration: vscode.DebugConfiguration): Promise<vscode.DebugConfiguration | undefined> {
+        const profiles = await this.readLaunchSettingsProfiles(folder, configuration);
+        const profile = await this.selectLaunchSettingsProfile(profiles, configuration);
+        if (profile === null) {
+            // The user dismissed the profile picker or the configured profile doesn't exist.
+            return undefined;
+        }
+
         /**
          * The Blazor WebAssembly app should only be launched if the
          * launch configuration is a launch request. Attach requests will
          * only launch the browser.
          */
         if (configuration.request === 'launch') {
-            await this.launchApp(folder, configuration);
+            await this.launchApp(folder, configuration, profile);
         }
 
         let inspectUri = '{wsProtocol}://{url.hostname}:{url.port}/_framework/debug/ws-proxy?browser={browserInspectUri}';
         let url = 'https://localhost:5001';
-        try {
-            if (folder !== undefined) {
-                let folderPath = configuration.cwd ? configuration.cwd : fileURLToPath(folder.uri.toString());
-                folderPath = folderPath.replace('${workspaceFolder}', fileURLToPath(folder.uri.toString()));
-                const launchSettings = JSON.parse(readFileSync(join(folderPath, 'Properties', 'launchSettings.json'), 'utf8'));
-                if (launchSettings?.profiles && launchSettings?.profiles[Object.keys(launchSettings.profiles)[0]]?.inspectUri) {
-                    inspectUri = launchSettings.profiles[Object.keys(launchSettings.profiles)[0]].inspectUri;
-                    url = launchSettings.profiles[Object.keys(launchSettings.profiles)[0]].applicationUrl.split(';', 1)[0];
-                }
-            }
-        } catch (error: any) {
-            this.logger.logError('[DEBUGGER] Error while getting information from launchSettings.json: ', error as Error);
+        if (profile?.inspectUri) {
+            inspectUri = profile.inspectUri;
+            url = getApplicationUrl(profile, configuration.preferHttps ?? true) ?? url;
         }
 
         await this.launchBrowser(
@@ -62,10 +61,67 @@ export class BlazorDebugConfigurationProvider implements vscode.DebugConfigurati
         return undefined;
     }
 
-    private async launchApp(folder: vscode.WorkspaceFolder | undefined, configuration: vscode.DebugConfiguration) {
+    private async readLaunchSettingsProfiles(folder: vscode.WorkspaceFolder | undefined, configuration: vscode.DebugConfiguration): Promise<LaunchSettingsProfile[]> {
+        if (folder === undefined) {
+            return [];
+        }
+
+        try {
+            let folderPath = configuration.cwd ? configuration.cwd : fileURLToPath(folder.uri.toString());
+            folderPath = folderPath.replace('${workspaceFolder}', fileURLToPath(folder.uri.toString()));
+            // The debugged folder is known here rather than the project, so the file is read directly.
+            return parseLaunchSettingsProfiles(await promises.readFile(join(folderPath, 'Properties', 'launchSettings.json'), 'utf8'));
+        } catch (error: any) {
+            this.logger.logError('[DEBUGGER] Error while getting information from launchSettings.json: ', error as Error);
+            return [];
+        }
+    }
+
+    /**
+     * Returns the launchSettings.json profile named by the configuration's launchSettingsProfile, or lets the user
+     * pick one when there are several. Returns undefined if there are no profiles to use, and null if the launch
+     * should be cancelled.
+     */
+    private async selectLaunchSettingsProfile(profiles: LaunchSettingsProfile[], configuration: vscode.DebugConfiguration): Promise<LaunchSettingsProfile | undefined | null> {
+        if (configuration.launchSettingsProfile) {
+            const namedProfile = profiles.find(profile => profile.name === configuration.launchSettingsProfile);
+            if (!namedProfile) {
+                showErrorMessage(this.vscodeType, `Run and Debug: The launch profile '${configuration.launchSettingsProfile}' was not found in launchSettings.json`);
+                return null;
+            }
+
+            return namedProfile;
+        }
+
+        // Only profiles with the debugging proxy can be used to debug the app in the browser.
+        const debuggableProfiles = profiles.filter(profile => profile.inspectUri);
+        if (debuggableProfiles.length <= 1) {
+            return debuggableProfiles[0];
+        }
+
+        const items = debuggableProfiles.map(profile => ({
+            label: profile.name,
+            description: profile.applicationUrl,
+            profile,
+        }));
+
+        const selectedItem = await this.vscodeType.window.showQuickPick(items, {
+            placeHolder: 'Select the launch profile to debug',
+        });
+
+        return selectedItem ? selectedItem.profile : null;
+    }
+
+    private async launchApp(folder: vscode.WorkspaceFolder | undefined, configuration: vscode.DebugConfiguration, profile: LaunchSettingsProfile | undefined) {
         const program = configuration.hosted ? configuration.program : 'dotnet';
         const cwd = configuration.cwd || '${workspaceFolder}';
         const args = configuration.hosted ? [] : ['run'];
+        if (!configuration.hosted && profile) {
+            args.push('--launch-profile', profile.name);
+        }
+
+        // 'dotnet run' applies the URLs of the launch profile itself, but a hosted app's server is started directly.
+        const applicationUrl = profile && configuration.hosted ? getApplicationUrl(profile, configuration.preferHttps ?? true) : undefined;
 
         const app = {
             name: SERVER_APP_NAME,
@@ -77,6 +133,8 @@ export class BlazorDebugConfigurationProvider implements vscode.DebugConfigurati
             cwd,
             env: {
                 ASPNETCORE_ENVIRONMENT: 'Development',
+                ...(applicationUrl ? { ASPNETCORE_URLS: applicationUrl } : {}),
+                ...profile?.environmentVariables,
                 ...configuration.env,
             },
             launchBrowser: {
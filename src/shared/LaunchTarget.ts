@@ -37,4 +37,25 @@ export function createLaunchTargetForSolution(resource: vscode.Uri): LaunchTarge
         directory: path.dirname(resource.fsPath),
         workspaceKind: LaunchTargetKind.Solution
     };
-}
\ No newline at end of file
+}
+
+export function createLaunchTargetForProject(resource: vscode.Uri): LaunchTarget {
+    const dirname = path.dirname(resource.fsPath);
+    return {
+        label: path.basename(resource.fsPath),
+        description: vscode.workspace.asRelativePath(dirname),
+        target: resource.fsPath,
+        directory: dirname,
+        workspaceKind: LaunchTargetKind.Project
+    };
+}
+
+export function createLaunchTargetForFolder(workspaceFolder: vscode.WorkspaceFolder): LaunchTarget {
+    return {
+        label: workspaceFolder.name,
+        description: 'All contained projects',
+        target: workspaceFolder.uri.fsPath,
+        directory: workspaceFolder.uri.fsPath,
+        workspaceKind: LaunchTargetKind.Folder
+    };
+}
@@ -14,9 +14,14 @@ import * as vscode from 'vscode';
 
 import { tolerantParse } from '../json';
 import { IWorkspaceDebugInformationProvider, ProjectDebugInformation } from './IWorkspaceDebugInformationProvider';
+import { getApplicationUrl, getLaunchSettingsPath, isProjectProfile, LaunchSettingsProfile, readLaunchSettingsProfiles } from './launchSettings';
 
 type DebugConsoleOptions = {'console' : string};
 
+// The web servers launched by a compound configuration without launchSettings.json URLs listen on consecutive ports
+// starting at this one.
+const compoundBasePort = 5000;
+
 export class AssetGenerator {
     public vscodeFolder: string;
     public tasksJsonPath: string;
@@ -80,6 +85,48 @@ export class AssetGenerator {
         }
     }
 
+    /**
+     * Lets the user pick one or more executable projects to launch together.
+     * Returns undefined if the user cancelled.
+     */
+    public async selectStartupProjects(): Promise<ProjectDebugInformation[] | undefined> {
+        if (this.executableProjects.length <= 1) {
+            return this.executableProjects;
+        }
+
+        const items = this.executableProjects.map(project => ({
+            label: project.projectName,
+            project,
+        }));
+
+        const selectedItems = await vscode.window.showQuickPick(items, {
+            matchOnDescription: true,
+            canPickMany: true,
+            placeHolder: "Select the projects to launch, several projects are launched together"
+        });
+
+        if (selectedItems === undefined || selectedItems.length === 0) {
+            return undefined;
+        }
+
+        return selectedItems.map(item => item.project);
+    }
+
+    /**
+     * Selects the executable project with the given project file as the startup project.
+     * Returns false if there is no such project.
+     */
+    public selectStartupProjectByPath(projectPath: string): boolean {
+        const normalizedProjectPath = path.normalize(projectPath);
+        const project = this.executableProjects.find(p => path.normalize(p.projectPath) === normalizedProjectPath);
+        if (project === undefined) {
+            return false;
+        }
+
+        this.startupProject = project;
+        return true;
+    }
+
     // This method is used by the unit tests instead of selectStartupProject
     public setStartupProject(index: number): void {
         if (index >= this.executableProjects.length) {
@@ -223,6 +270,88 @@ export class AssetGenerator {
         }
     }
 
+    public getStartupProjectPath(): string {
+        if (!this.startupProject) {
+            throw new Error("Startup project not set");
+        }
+
+        return this.startupProject.projectPath;
+    }
+
+    /**
+     * Creates a launch configuration for each of the startup project's launchSettings.json profiles that runs the
+     * project or an executable. Blazor WebAssembly apps read their profile when they are launched instead.
+     */
+    public createLaunchSettingsProfileConfigurations(profiles: LaunchSettingsProfile[]): vscode.DebugConfiguration[] {
+        if (!this.startupProject) {
+            throw new Error("Startup project not set");
+        }
+
+        const programLaunchType = this.computeProgramLaunchType();
+        if (programLaunchType !== ProgramLaunchType.Console && programLaunchType !== ProgramLaunchType.Web) {
+            return [];
+        }
+
+        const projectName = this.startupProject.projectName;
+        const launchSettingsPath = path.join(this.computeWorkingDirectory(), 'Properties', 'launchSettings.json');
+        return profiles
+            .filter(profile => profile.commandName === 'Project' || profile.commandName === 'Executable')
+            .map(profile => createLaunchSettingsProfileConfiguration(projectName, profile, launchSettingsPath, this.computeProgramPath(), this.computeWorkingDirectory()));
+    }
+
+    /**
+     * Creates the launch configuration of the startup project when it is launched as part of a compound
+     * configuration. The compound builds the projects, and web servers listen on the URLs of the project's
+     * launchSettings.json profile, or on distinct ports if it has none.
+     */
+    public createCompoundLaunchConfiguration(index: number, profiles: LaunchSettingsProfile[]): vscode.DebugConfiguration {
+        if (!this.startupProject) {
+            throw new Error("Startup project not set");
+        }
+
+        const programLaunchType = this.computeProgramLaunchType();
+        const configuration = this.createLaunchJsonConfigurationsArray(programLaunchType, false).find(c => c.request === "launch");
+        if (configuration === undefined) {
+            throw new Error(`Unable to create a launch configuration for ${this.startupProject.projectName}`);
+        }
+
+        configuration.name = getCompoundLaunchConfigurationName(this.startupProject.projectName);
+        delete configuration.preLaunchTask;
+
+        if (programLaunchType === ProgramLaunchType.Web || programLaunchType === ProgramLaunchType.BlazorWebAssemblyHosted) {
+            const profile = profiles.find(p => isProjectProfile(p) && p.applicationUrl);
+            const urls = profile?.applicationUrl ?? `http://localhost:${compoundBasePort + index}`;
+            configuration.env = { ...configuration.env, ASPNETCORE_URLS: urls };
+            if (programLaunchType === ProgramLaunchType.BlazorWebAssemblyHosted) {
+                configuration.url = profile !== undefined ? getApplicationUrl(profile, /*preferHttps*/ true) : urls;
+            }
+        }
+
+        return configuration;
+    }
+
+    /**
+     * Creates a task that builds only the startup project, as opposed to the solution it belongs to.
+     */
+    public createProjectBuildTaskDescription(): tasks.TaskDescription {
+        if (!this.startupProject) {
+            throw new Error("Startup project not set");
+        }
+
+        return {
+            label: `build: ${this.startupProject.projectName}`,
+            command: 'dotnet',
+            type: 'process',
+            args: [
+                'build',
+                this.getBuildPath(this.startupProject.projectPath),
+                "/property:GenerateFullPaths=true",
+                "/consoleloggerparameters:NoSummary"
+            ],
+            problemMatcher: '$msCompile'
+        };
+    }
+
     private createBuildTaskDescription(): tasks.TaskDescription {
         let commandArgs = ['build'];
 
@@ -410,6 +539,81 @@ export function createLaunchConfiguration(programPath: string, workingDirectory:
     return JSON.stringify(configuration);
 }
 
+export function getCompoundLaunchConfigurationName(projectName: string): string {
+    return `${projectName} (compound)`;
+}
+
+export function getLaunchSettingsProfileConfigurationName(projectName: string, profileName: string): string {
+    return `${projectName}: ${profileName}`;
+}
+
+/**
+ * Returns true if the configuration was generated from one of the project's launchSettings.json profiles. Generated
+ * configurations name the profile they were created from, so configurations the user wrote that merely follow the
+ * same naming are left alone.
+ */
+function isLaunchSettingsProfileConfiguration(projectName: string, configuration: { name?: string, launchSettingsProfile?: string | null }): boolean {
+    return typeof configuration.launchSettingsProfile === 'string'
+        && configuration.name === getLaunchSettingsProfileConfigurationName(projectName, configuration.launchSettingsProfile);
+}
+
+export function createLaunchSettingsProfileConfiguration(projectName: string, profile: LaunchSettingsProfile, launchSettingsPath: string, programPath: string, workingDirectory: string): vscode.DebugConfiguration {
+    const configuration: vscode.DebugConfiguration = {
+        "name": getLaunchSettingsProfileConfigurationName(projectName, profile.name),
+        "type": "coreclr",
+        "request": "launch",
+        "preLaunchTask": "build",
+        "program": profile.commandName === 'Executable' && profile.executablePath ? profile.executablePath : util.convertNativePathToPosix(programPath),
+        "args": profile.commandLineArgs ?? [],
+        "cwd": profile.workingDirectory ?? util.convertNativePathToPosix(workingDirectory),
+        "launchSettingsFilePath": util.convertNativePathToPosix(launchSettingsPath),
+        "launchSettingsProfile": profile.name,
+        "stopAtEntry": false,
+        "env": {
+            ...profile.environmentVariables
+        }
+    };
+
+    // 'dotnet run' applies the application URLs of the profile, but the debugger starts the program directly.
+    if (profile.applicationUrl) {
+        configuration.env.ASPNETCORE_URLS = profile.applicationUrl;
+    }
+
+    if (profile.launchBrowser) {
+        configuration.serverReadyAction = {
+            "action": "openExternally",
+            "pattern": "\\bNow listening on:\\s+(https?://\\S+)"
+        };
+
+        if (profile.launchUrl) {
+            configuration.serverReadyAction.uriFormat = /^https?:\/\//i.test(profile.launchUrl) ? profile.launchUrl : `%s/${profile.launchUrl}`;
+        }
+    }
+
+    return configuration;
+}
+
+/**
+ * Replaces the configurations generated from a project's launchSettings.json profiles in the text of a launch.json
+ * file, removing the ones for profiles that no longer exist.
+ */
+export function updateLaunchSettingsProfileConfigurations(text: string, projectName: string, configurations: vscode.DebugConfiguration[], formattingOptions: FormattingOptions): string {
+    const names = configurations.map(configuration => configuration.name);
+    const existingConfigurations: { name?: string, launchSettingsProfile?: string | null }[] = jsonc.parse(text)?.configurations ?? [];
+
+    // Remove from the end so the indices of the remaining configurations don't change.
+    let modified = text;
+    for (let index = existingConfigurations.length - 1; index >= 0; index--) {
+        const existingConfiguration = existingConfigurations[index];
+        if (isLaunchSettingsProfileConfiguration(projectName, existingConfiguration) && !names.includes(existingConfiguration.name!)) {
+            const edits = jsonc.modify(modified, ['configurations', index], undefined, { formattingOptions });
+            modified = jsonc.applyEdits(modified, edits);
+        }
+    }
+
+    return updateJsonWithComments(modified, configurations, 'configurations', 'name', formattingOptions);
+}
+
 // DebugConfiguration written to launch.json when the extension fails to generate a good configuration
 export function createFallbackLaunchConfiguration(): vscode.DebugConfiguration {
     return {
@@ -584,6 +788,10 @@ async function promptToAddAssets(workspaceFolder: vscode.WorkspaceFolder) {
     });
 }
 
+function getGenerateLaunchSettingsProfilesSetting() {
+    return vscode.workspace.getConfiguration('csharp').get<boolean>('generateLaunchSettingsProfileConfigurations', false);
+}
+
 function getBuildAssetsNotificationSetting() {
     const newSettingName: string = 'suppressBuildAssetsNotification';
     let csharpConfig = vscode.workspace.getConfiguration('csharp');
@@ -650,13 +858,23 @@ export async function addTasksJsonIfNecessary(generator: AssetGenerator, operati
 }
 
 async function addLaunchJsonIfNecessary(generator: AssetGenerator, operations: AssetOperations) {
-    return new Promise<void>((resolve, reject) => {
-        if (!operations.addLaunchJson) {
-            return resolve();
+    if (!operations.addLaunchJson) {
+        return;
+    }
+
+    const programLaunchType = generator.computeProgramLaunchType();
+    let launchJsonConfigurations: string = generator.createLaunchJsonConfigurations(programLaunchType);
+
+    if (getGenerateLaunchSettingsProfilesSetting()) {
+        const profiles = await readLaunchSettingsProfiles(generator.getStartupProjectPath());
+        const profileConfigurations = generator.createLaunchSettingsProfileConfigurations(profiles);
+        if (profileConfigurations.length > 0) {
+            const configurations: vscode.DebugConfiguration[] = JSON.parse(launchJsonConfigurations);
+            launchJsonConfigurations = JSON.stringify([...profileConfigurations, ...configurations]);
         }
+    }
 
-        const programLaunchType = generator.computeProgramLaunchType();
-        const launchJsonConfigurations: string = generator.createLaunchJsonConfigurations(programLaunchType);
+    return new Promise<void>((resolve, reject) => {
         const formattingOptions = getFormattingOptions();
 
         let text: string;
@@ -690,6 +908,60 @@ async function addLaunchJsonIfNecessary(generator: AssetGenerator, operations: A
     });
 }
 
+/**
+ * Adds a configuration for each of the projects and a compound configuration that launches them together. The
+ * compound's preLaunchTask builds the projects one after the other, as building them in parallel fails when they
+ * share dependencies.
+ */
+async function addCompoundAssets(projects: ProjectDebugInformation[], workspaceInformation: ProjectDebugInformation[], workspaceFolder: vscode.WorkspaceFolder) {
+    const generators = projects.map(project => {
+        const generator = new AssetGenerator(workspaceInformation, workspaceFolder);
+        generator.selectStartupProjectByPath(project.projectPath);
+        return generator;
+    });
+
+    const buildTasks = generators.map(generator => generator.createProjectBuildTaskDescription());
+    buildTasks.forEach((buildTask, index) => {
+        if (index > 0) {
+            buildTask.dependsOn = buildTasks[index - 1].label;
+        }
+    });
+
+    const configurations: vscode.DebugConfiguration[] = [];
+    for (const [index, generator] of generators.entries()) {
+        const profiles = await readLaunchSettingsProfiles(generator.getStartupProjectPath());
+        configurations.push(generator.createCompoundLaunchConfiguration(index, profiles));
+    }
+
+    const compound = {
+        name: projects.map(project => project.projectName).join(' + '),
+        configurations: configurations.map(configuration => configuration.name),
+        preLaunchTask: buildTasks[buildTasks.length - 1].label,
+        stopAll: true
+    };
+
+    const { vscodeFolder, tasksJsonPath, launchJsonPath } = generators[0];
+    const formattingOptions = getFormattingOptions();
+    await fs.ensureDir(vscodeFolder);
+
+    let tasksJsonText = fs.pathExistsSync(tasksJsonPath)
+        ? await fs.readFile(tasksJsonPath, 'utf8')
+        : JSON.stringify({ version: "2.0.0", tasks: [] });
+    tasksJsonText = updateJsonWithComments(tasksJsonText, buildTasks, 'tasks', 'label', formattingOptions);
+    await fs.writeFile(tasksJsonPath, jsonc.applyEdits(tasksJsonText, jsonc.format(tasksJsonText, undefined, formattingOptions)));
+
+    let launchJsonText = fs.pathExistsSync(launchJsonPath)
+        ? await fs.readFile(launchJsonPath, 'utf8')
+        : JSON.stringify({ version: "0.2.0", configurations: [], compounds: [] });
+    if (jsonc.parse(launchJsonText)?.compounds === undefined) {
+        launchJsonText = jsonc.applyEdits(launchJsonText, jsonc.modify(launchJsonText, ['compounds'], [], { formattingOptions }));
+    }
+
+    launchJsonText = updateJsonWithComments(launchJsonText, configurations, 'configurations', 'name', formattingOptions);
+    launchJsonText = updateJsonWithComments(launchJsonText, [compound], 'compounds', 'name', formattingOptions);
+    await fs.writeFile(launchJsonPath, jsonc.applyEdits(launchJsonText, jsonc.format(launchJsonText, undefined, formattingOptions)));
+}
+
 async function addAssets(generator: AssetGenerator, operations: AssetOperations) {
 
     if (generator.hasExecutableProjects() && !generator.isStartupProjectSelected()) {
@@ -819,7 +1091,11 @@ async function shouldGenerateAssets(generator: AssetGenerator): Promise<Boolean>
     });
 }
 
-export async function generateAssets(workspaceInformationProvider: IWorkspaceDebugInformationProvider, selectedIndex?: number): Promise<void> {
+/**
+ * Generates the tasks.json and launch.json of the workspace folders. The startup project is the executable project at
+ * the selected index, the one with the given project file, or otherwise the ones the user picks.
+ */
+export async function generateAssets(workspaceInformationProvider: IWorkspaceDebugInformationProvider, selectedIndex?: number, startupProjectPath?: string): Promise<void> {
     try {
         if (!vscode.workspace.workspaceFolders) {
             return;
@@ -836,6 +1112,12 @@ export async function generateAssets(workspaceInformationProvider: IWorkspaceDeb
                 }
     
                 const generator = new AssetGenerator(workspaceInformation, workspaceFolder);
+
+                // Only the workspace folder of the given startup project gets assets.
+                if (startupProjectPath !== undefined && !generator.selectStartupProjectByPath(startupProjectPath)) {
+                    continue;
+                }
+
                 let doGenerateAssets = await shouldGenerateAssets(generator);
                 if (!doGenerateAssets) {
                     return; // user cancelled
@@ -846,8 +1128,21 @@ export async function generateAssets(workspaceInformationProvider: IWorkspaceDeb
                     addTasksJson: true
                 };
     
-                if (operations.addLaunchJson) {
-                    if (!await generator.selectStartupProject(selectedIndex)) {
+                if (operations.addLaunchJson && startupProjectPath === undefined) {
+                    if (selectedIndex === undefined) {
+                        const startupProjects = await generator.selectStartupProjects();
+                        if (startupProjects === undefined) {
+                            return; // user cancelled
+                        }
+
+                        if (startupProjects.length > 1) {
+                            await addCompoundAssets(startupProjects, workspaceInformation, workspaceFolder);
+                            continue;
+                        }
+
+                        generator.selectStartupProjectByPath(startupProjects[0].projectPath);
+                    }
+                    else if (!await generator.selectStartupProject(selectedIndex)) {
                         return; // user cancelled
                     }
                 }
@@ -865,6 +1160,58 @@ export async function generateAssets(workspaceInformationProvider: IWorkspaceDeb
     }
 }
 
+/**
+ * Keeps the launch configurations generated from launchSettings.json profiles up to date as the profiles change.
+ */
+export function watchLaunchSettingsProfiles(workspaceInformationProvider: IWorkspaceDebugInformationProvider): vscode.Disposable {
+    const watcher = vscode.workspace.createFileSystemWatcher('**/Properties/launchSettings.json');
+    const onLaunchSettingsChanged = async (uri: vscode.Uri) => {
+        try {
+            await syncLaunchSettingsProfileConfigurations(workspaceInformationProvider, uri);
+        }
+        catch (err) {
+            vscode.window.showErrorMessage(`Unable to update the launch configurations for ${uri.fsPath}. ${err}`);
+        }
+    };
+
+    return vscode.Disposable.from(
+        watcher,
+        watcher.onDidCreate(onLaunchSettingsChanged),
+        watcher.onDidChange(onLaunchSettingsChanged),
+        watcher.onDidDelete(onLaunchSettingsChanged));
+}
+
+async function syncLaunchSettingsProfileConfigurations(workspaceInformationProvider: IWorkspaceDebugInformationProvider, launchSettingsUri: vscode.Uri) {
+    if (!getGenerateLaunchSettingsProfilesSetting()) {
+        return;
+    }
+
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(launchSettingsUri);
+    if (workspaceFolder === undefined) {
+        return;
+    }
+
+    const info = await workspaceInformationProvider.getWorkspaceDebugInformation(workspaceFolder.uri);
+    const project = info?.find(p => path.normalize(getLaunchSettingsPath(p.projectPath)) === path.normalize(launchSettingsUri.fsPath));
+    if (info === undefined || project === undefined) {
+        return;
+    }
+
+    const generator = new AssetGenerator(info, workspaceFolder);
+    if (!generator.selectStartupProjectByPath(project.projectPath) || !fs.pathExistsSync(generator.launchJsonPath)) {
+        return;
+    }
+
+    const profiles = await readLaunchSettingsProfiles(project.projectPath);
+    const configurations = generator.createLaunchSettingsProfileConfigurations(profiles);
+
+    const content = await fs.readFile(generator.launchJsonPath, 'utf8');
+    const updated = updateLaunchSettingsProfileConfigurations(content, project.projectName, configurations, getFormattingOptions());
+    if (updated !== content) {
+        await fs.writeFile(generator.launchJsonPath, updated);
+    }
+}
+
 export function replaceCommentPropertiesWithComments(text: string) {
     // replacing dummy properties OS-COMMENT with the normal comment syntax
     let regex = /["']OS-COMMENT\d*["']\s*\:\s*["'](.*)["']\s*?,/gi;
@@ -0,0 +1,263 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { isSubfolderOf } from '../common';
+import { IWorkspaceDebugInformationProvider } from './IWorkspaceDebugInformationProvider';
+import OptionProvider from './observers/OptionProvider';
+import { findDirectoryPackagesProps, findPackageReferences, parseRestoreOutput, RestoreDiagnostic } from './nugetDiagnostics';
+
+/**
+ * How long to wait after the last change before restoring, so that e.g. switching branches restores once.
+ */
+const restoreDelay = 1000;
+
+const watchedFilesPattern = '**/{*.csproj,Directory.Packages.props,Directory.Build.props,[Nn]u[Gg]et.[Cc]onfig}';
+
+/**
+ * Restores projects in the background when their project files, or the props and NuGet config files they depend on,
+ * change, and shows the NuGet errors and warnings of the restore on the package references that caused them.
+ * Does nothing unless dotnet.restore.enableAutoRestore is set.
+ */
+export class AutoRestore implements vscode.Disposable {
+    private readonly diagnostics = vscode.languages.createDiagnosticCollection('nuget');
+    private readonly disposables: vscode.Disposable[] = [this.diagnostics];
+    private readonly pendingFiles = new Set<string>();
+
+    /** The diagnostics of the last restore of each project, by the file they are shown in. */
+    private readonly restoreDiagnostics = new Map<string, Map<string, vscode.Diagnostic[]>>();
+    private restoreTimer: NodeJS.Timeout | undefined;
+    private restoring: Promise<void> = Promise.resolve();
+
+    constructor(private workspaceInformationProvider: IWorkspaceDebugInformationProvider, private optionProvider: OptionProvider) {
+        const watcher = vscode.workspace.createFileSystemWatcher(watchedFilesPattern);
+        this.disposables.push(
+            watcher,
+            watcher.onDidChange(uri => this.restoreInBackground([uri.fsPath])),
+            watcher.onDidCreate(uri => this.restoreInBackground([uri.fsPath])),
+            // Deleting a props or NuGet config file changes the restore of the projects it applied to.
+            watcher.onDidDelete(uri => this.restoreInBackground([uri.fsPath])));
+    }
+
+    /**
+     * Restores the projects, or the projects the props and NuGet config files apply to, once no more files have
+     * changed for a moment.
+     */
+    public restoreInBackground(changedFiles: string[]): void {
+        if (!this.optionProvider.GetLatestOptions().commonOptions.enableAutoRestore) {
+            return;
+        }
+
+        changedFiles.forEach(file => this.pendingFiles.add(file));
+        if (this.restoreTimer !== undefined) {
+            clearTimeout(this.restoreTimer);
+        }
+
+        this.restoreTimer = setTimeout(() => {
+            this.restoreTimer = undefined;
+            const files = [...this.pendingFiles];
+            this.pendingFiles.clear();
+
+            // Restores of the same project can't run at the same time, so queue them after the previous ones. A
+            // failure must not reject the queue, or no restore would run after it.
+            this.restoring = this.restoring.then(async () => {
+                try {
+                    await this.restoreChangedFiles(files);
+                }
+                catch (error) {
+                    vscode.window.showErrorMessage(`Failed to restore: ${(<Error>error).message}`);
+                }
+            });
+        }, restoreDelay);
+    }
+
+    public dispose(): void {
+        if (this.restoreTimer !== undefined) {
+            clearTimeout(this.restoreTimer);
+        }
+
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private async restoreChangedFiles(changedFiles: string[]): Promise<void> {
+        const projectPaths = await this.getProjectsToRestore(changedFiles);
+        if (projectPaths.length === 0) {
+            return;
+        }
+
+        await vscode.window.withProgress({ location: vscode.ProgressLocation.Window, title: 'Restoring' }, async progress => {
+            for (const projectPath of projectPaths) {
+                progress.report({ message: path.basename(projectPath) });
+                await this.restoreProject(projectPath);
+            }
+        });
+    }
+
+    private async getProjectsToRestore(changedFiles: string[]): Promise<string[]> {
+        const projectPaths = new Set<string>();
+        let loadedProjectPaths: string[] | undefined;
+        for (const file of changedFiles) {
+            if (path.extname(file).toLowerCase() === '.csproj') {
+                if (fs.existsSync(file)) {
+                    projectPaths.add(file);
+                }
+                else {
+                    this.clearDiagnostics(file);
+                }
+
+                continue;
+            }
+
+            // Props and NuGet config files apply to all the projects in and under their directory.
+            loadedProjectPaths ??= await this.getLoadedProjectPaths();
+            const directory = path.dirname(file);
+            loadedProjectPaths
+                .filter(projectPath => isSubfolderOf(directory, path.dirname(projectPath)))
+                .forEach(projectPath => projectPaths.add(projectPath));
+        }
+
+        return [...projectPaths];
+    }
+
+    private async getLoadedProjectPaths(): Promise<string[]> {
+        const projectPaths: string[] = [];
+        for (const workspaceFolder of vscode.workspace.workspaceFolders ?? []) {
+            const workspaceInformation = await this.workspaceInformationProvider.getWorkspaceDebugInformation(workspaceFolder.uri);
+            projectPaths.push(...(workspaceInformation ?? []).map(project => project.projectPath));
+        }
+
+        return projectPaths;
+    }
+
+    private async restoreProject(projectPath: string): Promise<void> {
+        let output: string;
+        try {
+            output = await runRestore(projectPath);
+        }
+        catch (error) {
+            vscode.window.showErrorMessage(`Failed to restore ${path.basename(projectPath)}: ${(<Error>error).message}`);
+            return;
+        }
+
+        // Restoring a project also restores the projects it references, which can have diagnostics of their own.
+        const diagnosticsByProject = new Map<string, RestoreDiagnostic[]>();
+        for (const diagnostic of parseRestoreOutput(output)) {
+            const projectDiagnostics = diagnosticsByProject.get(diagnostic.projectPath) ?? [];
+            projectDiagnostics.push(diagnostic);
+            diagnosticsByProject.set(diagnostic.projectPath, projectDiagnostics);
+        }
+
+        const diagnosticsByFile = new Map<string, vscode.Diagnostic[]>();
+        for (const [project, projectDiagnostics] of diagnosticsByProject) {
+            for (const [file, fileDiagnostics] of await toVSCodeDiagnostics(project, projectDiagnostics)) {
+                diagnosticsByFile.set(file, [...(diagnosticsByFile.get(file) ?? []), ...fileDiagnostics]);
+            }
+        }
+
+        this.updateDiagnostics(projectPath, diagnosticsByFile);
+    }
+
+    private clearDiagnostics(projectPath: string): void {
+        this.updateDiagnostics(projectPath, undefined);
+    }
+
+    /**
+     * Replaces the diagnostics of the last restore of a project. Projects can share files, e.g. the
+     * Directory.Packages.props file, so the diagnostics of a file are those of all the projects that report on it.
+     */
+    private updateDiagnostics(projectPath: string, diagnosticsByFile: Map<string, vscode.Diagnostic[]> | undefined): void {
+        const files = new Set([...(this.restoreDiagnostics.get(projectPath)?.keys() ?? []), ...(diagnosticsByFile?.keys() ?? [])]);
+        if (diagnosticsByFile !== undefined) {
+            this.restoreDiagnostics.set(projectPath, diagnosticsByFile);
+        }
+        else {
+            this.restoreDiagnostics.delete(projectPath);
+        }
+
+        for (const file of files) {
+            const fileDiagnostics = new Map<string, vscode.Diagnostic>();
+            for (const projectDiagnostics of this.restoreDiagnostics.values()) {
+                for (const diagnostic of projectDiagnostics.get(file) ?? []) {
+                    fileDiagnostics.set(`${diagnostic.range.start.line}:${diagnostic.range.start.character}|${diagnostic.message}`, diagnostic);
+                }
+            }
+
+            this.diagnostics.set(vscode.Uri.file(file), [...fileDiagnostics.values()]);
+        }
+    }
+}
+
+async function runRestore(projectPath: string): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+        // Full paths are needed to find the projects of the diagnostics, and the summary would repeat them.
+        const args = ['restore', projectPath, '/property:GenerateFullPaths=true', '/consoleloggerparameters:NoSummary'];
+        const dotnet = cp.spawn('dotnet', args, { cwd: path.dirname(projectPath), env: process.env });
+        let output = '';
+
+        // Failed restores exit with a non-zero code, but their errors are in the output like the warnings.
+        dotnet.stdout.on('data', (data: Buffer) => output += data.toString());
+        dotnet.stderr.on('data', (data: Buffer) => output += data.toString());
+        dotnet.on('error', reject);
+        dotnet.on('close', () => resolve(output));
+    });
+}
+
+/**
+ * Places the NuGet diagnostics of a project on the references to the packages they are about, in the project file
+ * and, with central package management, in the Directory.Packages.props file that declares the package versions.
+ * Diagnostics that aren't about a package referenced in either are shown at the start of the project file.
+ */
+async function toVSCodeDiagnostics(projectPath: string, diagnostics: RestoreDiagnostic[]): Promise<Map<string, vscode.Diagnostic[]>> {
+    const files = [projectPath];
+    const propsPath = findDirectoryPackagesProps(projectPath);
+    if (propsPath !== undefined) {
+        files.push(propsPath);
+    }
+
+    const contents = new Map<string, string>();
+    for (const file of files) {
+        try {
+            contents.set(file, await fs.promises.readFile(file, 'utf8'));
+        }
+        catch (error) {
+            // The diagnostics are still shown, at the start of the project file.
+            contents.set(file, '');
+        }
+    }
+
+    const result = new Map<string, vscode.Diagnostic[]>([[projectPath, []]]);
+    for (const diagnostic of diagnostics) {
+        let found = false;
+        for (const [file, content] of contents) {
+            for (const location of findPackageReferences(content, diagnostic.message)) {
+                const range = new vscode.Range(location.line, location.startCharacter, location.line, location.endCharacter);
+                result.set(file, [...(result.get(file) ?? []), createVSCodeDiagnostic(range, diagnostic)]);
+                found = true;
+            }
+        }
+
+        if (!found) {
+            result.get(projectPath)!.push(createVSCodeDiagnostic(new vscode.Range(0, 0, 0, 0), diagnostic));
+        }
+    }
+
+    return result;
+}
+
+function createVSCodeDiagnostic(range: vscode.Range, diagnostic: RestoreDiagnostic): vscode.Diagnostic {
+    const vscodeDiagnostic = new vscode.Diagnostic(
+        range,
+        diagnostic.message,
+        diagnostic.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning);
+    vscodeDiagnostic.source = 'NuGet';
+    vscodeDiagnostic.code = {
+        value: diagnostic.code,
+        target: vscode.Uri.parse(`https://learn.microsoft.com/nuget/reference/errors-and-warnings/${diagnostic.code.toLowerCase()}`)
+    };
+    return vscodeDiagnostic;
+}
@@ -5,11 +5,12 @@
 
 import * as vscode from 'vscode';
 import { ParsedEnvironmentFile } from '../coreclr-debug/ParsedEnvironmentFile';
-import { getBrokeredServicePipeName } from '../coreclr-debug/activate';
+import { getBrokeredServicePipeName, getDebuggerDiagnostics } from '../coreclr-debug/activate';
 
 import { MessageItem } from '../vscodeAdapter';
 import { CertToolStatusCodes, createSelfSignedCert, hasDotnetDevCertsHttps } from '../utils/DotnetDevCertsHttps';
 import { AttachItem, RemoteAttachPicker, DotNetAttachItemsProviderFactory, AttachPicker } from '../features/processPicker';
+import { findProcessByName, isAttachByProcessName } from '../features/processNameAttach';
 import { PlatformInformation } from './platform';
 import OptionProvider from './observers/OptionProvider';
 import { getCSharpDevKit } from '../utils/getCSharpDevKit';
@@ -19,8 +20,9 @@ import { getCSharpDevKit } from '../utils/getCSharpDevKit';
  * 
  * This class will handle:
  * 1. Setting options that were set under csharp.debug.* 
- * 2. Show the process picker if the request type is attach and if process is not set.
+ * 2. Show the process picker if the request type is attach and if process is not set, or find the process by name.
  * 3. Handle registering developer certs for web development.
+ * 4. Listen to the debugger events to diagnose processes that exit with an error.
  */
 export class BaseVsDbgConfigurationProvider implements vscode.DebugConfigurationProvider {
     public constructor(protected platformInformation: PlatformInformation, private optionProvider: OptionProvider, private csharpOutputChannel: vscode.OutputChannel) { }
@@ -70,9 +72,16 @@ export class BaseVsDbgConfigurationProvider implements vscode.DebugConfiguration
         }
 
         // Process Id is empty, handle Attach to Process Dialog.
-        if (debugConfiguration.request === "attach" && !debugConfiguration.processId && !debugConfiguration.processName) {
+        const attachByProcessName = isAttachByProcessName(debugConfiguration);
+        if (debugConfiguration.request === "attach" && !debugConfiguration.processId && (!debugConfiguration.processName || attachByProcessName)) {
             let process: AttachItem | undefined;
-            if (debugConfiguration.pipeTransport) {
+            if (attachByProcessName) {
+                process = await findProcessByName(debugConfiguration, this.platformInformation);
+                if (process === undefined) {
+                    return undefined;
+                }
+            }
+            else if (debugConfiguration.pipeTransport) {
                 process = await RemoteAttachPicker.ShowAttachEntries(debugConfiguration, this.platformInformation);
             }
             else {
@@ -117,6 +126,15 @@ export class BaseVsDbgConfigurationProvider implements vscode.DebugConfiguration
             }
         }
 
+        // Test debugging listens to the debugger events itself, and a debugger on another machine can't connect to the pipe.
+        if (debugConfiguration.request === 'launch' && !debugConfiguration.debuggerEventsPipeName && !debugConfiguration.pipeTransport
+            && vscode.workspace.getConfiguration('csharp').get<boolean>('enableLaunchDiagnostics', false)) {
+            const debuggerEventsPipeName = await getDebuggerDiagnostics()?.listen();
+            if (debuggerEventsPipeName !== undefined) {
+                debugConfiguration.debuggerEventsPipeName = debuggerEventsPipeName;
+            }
+        }
+
         return debugConfiguration;
     }
 
@@ -4,12 +4,14 @@
  *--------------------------------------------------------------------------------------------*/
 
 import * as fs from 'fs-extra';
+import * as path from 'path';
 import * as vscode from 'vscode';
 import { IWorkspaceDebugInformationProvider, ProjectDebugInformation } from './IWorkspaceDebugInformationProvider';
 import { AssetGenerator, AssetOperations, addTasksJsonIfNecessary, getBuildOperations } from './assets';
 import { getServiceBroker } from '../lsptoolshost/services/brokeredServicesHosting';
 import Descriptors from '../lsptoolshost/services/Descriptors';
 import { DotnetDebugConfigurationServiceErrorKind, IDotnetDebugConfigurationService, IDotnetDebugConfigurationServiceResult } from '../lsptoolshost/services/IDotnetDebugConfigurationService';
+import { isProjectProfile, readLaunchSettingsProfiles } from './launchSettings';
 
 // User errors that can be shown to the user.
 class LaunchServiceError extends Error {}
@@ -24,6 +26,9 @@ class InternalServiceError extends Error {}
 // The error that is thrown if we are unable to get services through getProxy.
 class UnavaliableLaunchServiceError extends Error {}
 
+// Maps the path of a project to the name of the launch configuration the user picked for it.
+const selectedLaunchTargetsKey = "dotnet.debug.selectedLaunchTargets";
+
 const workspaceFolderToken: string = "${workspaceFolder}";
 /**
  * Replaces '${workspaceFolder}' with the current folder while keeping path separators consistent.
@@ -55,7 +60,7 @@ function resolveWorkspaceFolderToken(projectPath: string, folderPath: string): s
 }
 
 export class DotnetConfigurationResolver implements vscode.DebugConfigurationProvider {
-    constructor(private workspaceDebugInfoProvider: IWorkspaceDebugInformationProvider) {}
+    constructor(private workspaceDebugInfoProvider: IWorkspaceDebugInformationProvider, private workspaceState: vscode.Memento) {}
 
     //#region vscode.DebugConfigurationProvider
 
@@ -78,7 +83,7 @@ export class DotnetConfigurationResolver implements vscode.DebugConfigurationPro
             try {
                 if (dotnetDebugServiceProxy) {
                     const result: IDotnetDebugConfigurationServiceResult = await dotnetDebugServiceProxy.resolveDebugConfigurationWithLaunchConfigurationService(projectPath, debugConfiguration, token);
-                    return this.resolveDotnetDebugConfigurationServiceResult(projectPath, result);
+                    return await this.resolveDotnetDebugConfigurationServiceResult(projectPath, result);
                 } else {
                     throw new UnavaliableLaunchServiceError();
                 }
@@ -102,7 +107,14 @@ export class DotnetConfigurationResolver implements vscode.DebugConfigurationPro
 
     //#endregion
 
-    private resolveDotnetDebugConfigurationServiceResult(projectPath: string, result: IDotnetDebugConfigurationServiceResult): vscode.DebugConfiguration {
+    /**
+     * Forgets the launch configurations the user picked for their projects, so they are asked again on the next launch.
+     */
+    public async resetSelectedLaunchTargets(): Promise<void> {
+        await this.workspaceState.update(selectedLaunchTargetsKey, undefined);
+    }
+
+    private async resolveDotnetDebugConfigurationServiceResult(projectPath: string, result: IDotnetDebugConfigurationServiceResult): Promise<vscode.DebugConfiguration | undefined> {
         if (result.error) {
             const errorResult = result.error;
             switch (errorResult.kind) {
@@ -122,7 +134,7 @@ export class DotnetConfigurationResolver implements vscode.DebugConfigurationPro
         } if (debugConfigArray.length == 1) {
             return debugConfigArray[0];
         } else if (debugConfigArray.length > 1) {
-            throw new InternalServiceError("Multiple launch targets is not yet supported.");
+            return this.selectLaunchTarget(projectPath, debugConfigArray);
         } else {
             throw new InternalServiceError("Unexpected configuration array from IDotnetDebugConfigurationServiceResult.");
         }
@@ -135,7 +147,7 @@ export class DotnetConfigurationResolver implements vscode.DebugConfigurationPro
      * @param projectPath The expected path to the .csproj
      * @returns
      */
-    private async resolveDebugConfigurationWithWorkspaceDebugInformationProvider(folder: vscode.WorkspaceFolder, projectPath: string): Promise<vscode.DebugConfiguration> {
+    private async resolveDebugConfigurationWithWorkspaceDebugInformationProvider(folder: vscode.WorkspaceFolder, projectPath: string): Promise<vscode.DebugConfiguration | undefined> {
         let info: ProjectDebugInformation[] | undefined = await this.workspaceDebugInfoProvider.getWorkspaceDebugInformation(folder.uri);
         if (!info) {
             throw new Error("Cannot resolve .NET debug configurations. The server is still initializing or has exited unexpectedly.");
@@ -158,12 +170,15 @@ export class DotnetConfigurationResolver implements vscode.DebugConfigurationPro
                     await addTasksJsonIfNecessary(generator, buildOperations);
 
                     const programLaunchType = generator.computeProgramLaunchType();
-                    const generatedDebugConfigurations: vscode.DebugConfiguration[] = generator.createLaunchJsonConfigurationsArray(programLaunchType, true);
+                    let generatedDebugConfigurations: vscode.DebugConfiguration[] = generator.createLaunchJsonConfigurationsArray(programLaunchType, true);
+                    generatedDebugConfigurations = await this.addLaunchSettingsProfileConfigurations(projectPath, generatedDebugConfigurations);
 
                     if (generatedDebugConfigurations.length === 1) {
                         const result = generatedDebugConfigurations[0];
                         // TODO: Pass through the launch configuration id if ILaunchConfigurationService names them the same or parse and return the actual one.
                         return result;
+                    } else if (generatedDebugConfigurations.length > 1) {
+                        return this.selectLaunchTarget(projectPath, generatedDebugConfigurations);
                     } else {
                         throw new Error(`Unable to determine a configuration for '${projectPath}'. Please generate C# debug assets instead.`);
                     }
@@ -174,4 +189,58 @@ export class DotnetConfigurationResolver implements vscode.DebugConfigurationPro
         }
         throw new Error(`Unable to determine debug settings for project '${projectPath}'`);
     }
-}
\ No newline at end of file
+
+    /**
+     * Replaces the generated coreclr configuration with one configuration per profile in the project's
+     * launchSettings.json file that launches the project, so the user can pick which profile to use.
+     */
+    private async addLaunchSettingsProfileConfigurations(projectPath: string, configurations: vscode.DebugConfiguration[]): Promise<vscode.DebugConfiguration[]> {
+        if (configurations.length !== 1 || configurations[0].type !== "coreclr") {
+            return configurations;
+        }
+
+        const profiles = (await readLaunchSettingsProfiles(projectPath)).filter(isProjectProfile);
+        if (profiles.length === 0) {
+            return configurations;
+        }
+
+        const configuration = configurations[0];
+        return profiles.map(profile => ({
+            ...configuration,
+            name: `${configuration.name} (${profile.name})`,
+            launchSettingsProfile: profile.name
+        }));
+    }
+
+    /**
+     * Lets the user pick which of the launch configurations of a project to use. The choice is remembered for the
+     * project for as long as a configuration with the same name is available. Returns undefined if the user
+     * dismissed the picker, which stops the launch.
+     */
+    private async selectLaunchTarget(projectPath: string, configurations: vscode.DebugConfiguration[]): Promise<vscode.DebugConfiguration | undefined> {
+        const selectedLaunchTargets = this.workspaceState.get<{ [projectPath: string]: string }>(selectedLaunchTargetsKey) ?? {};
+        const rememberedConfiguration = configurations.find(configuration => configuration.name === selectedLaunchTargets[projectPath]);
+        if (rememberedConfiguration) {
+            return rememberedConfiguration;
+        }
+
+        const items = configurations.map(configuration => ({
+            label: configuration.name,
+            description: configuration.launchSettingsProfile ? "launchSettings.json profile" : undefined,
+            configuration
+        }));
+
+        const selectedItem = await vscode.window.showQuickPick(items, {
+            placeHolder: `Select how to launch '${path.basename(projectPath)}'`
+        });
+
+        if (selectedItem === undefined) {
+            return undefined;
+        }
+
+        selectedLaunchTargets[projectPath] = selectedItem.configuration.name;
+        await this.workspaceState.update(selectedLaunchTargetsKey, selectedLaunchTargets);
+
+        return selectedItem.configuration;
+    }
+}
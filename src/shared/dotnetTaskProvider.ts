@@ -0,0 +1,183 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { IWorkspaceDebugInformationProvider, ProjectDebugInformation } from './IWorkspaceDebugInformationProvider';
+
+export const dotnetTaskType = 'dotnet';
+
+const dotnetTaskCommands = ['restore', 'build', 'clean', 'test', 'publish'] as const;
+export type DotnetTaskCommand = typeof dotnetTaskCommands[number];
+
+/**
+ * The definition of a task of the 'dotnet' type, as declared in the taskDefinitions of package.json.
+ */
+interface DotnetTaskDefinition extends vscode.TaskDefinition {
+    command: DotnetTaskCommand;
+
+    /**
+     * The project or solution to run the command on. Defaults to the one in the working directory.
+     */
+    project?: string;
+
+    /**
+     * Additional arguments passed to the command.
+     */
+    args?: string[];
+}
+
+/**
+ * Contributes restore, build, clean, test and publish tasks for every project the server loaded, so they can be run
+ * without generating a tasks.json. Tasks of the 'dotnet' type in tasks.json are resolved the same way.
+ */
+export class DotnetTaskProvider implements vscode.TaskProvider {
+    constructor(private workspaceInformationProvider: IWorkspaceDebugInformationProvider) { }
+
+    public async provideTasks(token: vscode.CancellationToken): Promise<vscode.Task[]> {
+        const tasks: vscode.Task[] = [];
+        for (const [workspaceFolder, project] of await this.getProjects()) {
+            if (token.isCancellationRequested) {
+                break;
+            }
+
+            for (const command of dotnetTaskCommands) {
+                tasks.push(createDotnetTask({ type: dotnetTaskType, command, project: project.projectPath }, workspaceFolder, project.projectName));
+            }
+        }
+
+        return tasks;
+    }
+
+    public resolveTask(task: vscode.Task): vscode.Task | undefined {
+        const definition = <DotnetTaskDefinition>task.definition;
+        if (!dotnetTaskCommands.includes(definition.command)) {
+            return undefined;
+        }
+
+        const workspaceFolder = typeof task.scope === 'object' ? task.scope : undefined;
+        const projectName = definition.project !== undefined ? path.parse(definition.project).name : undefined;
+        return createDotnetTask(definition, workspaceFolder, projectName);
+    }
+
+    /**
+     * Runs the restore task of a project the user picks.
+     */
+    public async pickProjectAndRestore(): Promise<void> {
+        const projects = await this.getProjects();
+        if (projects.length === 0) {
+            vscode.window.showErrorMessage('No .NET projects found to restore.');
+            return;
+        }
+
+        const items = projects.map(([workspaceFolder, project]) => ({
+            label: `dotnet restore - (${project.projectName})`,
+            description: path.dirname(project.projectPath),
+            workspaceFolder,
+            project
+        }));
+
+        const selectedItem = await vscode.window.showQuickPick(items, { matchOnDescription: true, placeHolder: 'Select a project to restore' });
+        if (selectedItem !== undefined) {
+            await executeTaskAndWait(createDotnetTask({ type: dotnetTaskType, command: 'restore', project: selectedItem.project.projectPath }, selectedItem.workspaceFolder, selectedItem.project.projectName));
+        }
+    }
+
+    /**
+     * Runs the restore tasks of all projects, one at a time as projects often share the packages they restore.
+     */
+    public async restoreAllProjects(): Promise<void> {
+        const projects = await this.getProjects();
+        if (projects.length === 0) {
+            vscode.window.showErrorMessage('No .NET projects found to restore.');
+            return;
+        }
+
+        for (const [workspaceFolder, project] of projects) {
+            const exitCode = await executeTaskAndWait(createDotnetTask({ type: dotnetTaskType, command: 'restore', project: project.projectPath }, workspaceFolder, project.projectName));
+            if (exitCode !== 0) {
+                break;
+            }
+        }
+    }
+
+    /**
+     * Runs a command on a project, e.g. from the context menu of the project.
+     */
+    public async runProjectTask(command: DotnetTaskCommand, projectPath: string): Promise<number | undefined> {
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(projectPath));
+        return executeTaskAndWait(createDotnetTask({ type: dotnetTaskType, command, project: projectPath }, workspaceFolder, path.parse(projectPath).name));
+    }
+
+    private async getProjects(): Promise<[vscode.WorkspaceFolder, ProjectDebugInformation][]> {
+        const projects: [vscode.WorkspaceFolder, ProjectDebugInformation][] = [];
+        for (const workspaceFolder of vscode.workspace.workspaceFolders ?? []) {
+            const workspaceInformation = await this.workspaceInformationProvider.getWorkspaceDebugInformation(workspaceFolder.uri);
+            for (const project of workspaceInformation ?? []) {
+                projects.push([workspaceFolder, project]);
+            }
+        }
+
+        return projects;
+    }
+}
+
+function createDotnetTask(definition: DotnetTaskDefinition, workspaceFolder: vscode.WorkspaceFolder | undefined, projectName: string | undefined): vscode.Task {
+    const args: string[] = [definition.command];
+    if (definition.project !== undefined) {
+        args.push(definition.project);
+    }
+
+    // Full paths let the problem matcher find the files of the diagnostics, and the summary would repeat them.
+    args.push('/property:GenerateFullPaths=true', '/consoleloggerparameters:NoSummary');
+    args.push(...definition.args ?? []);
+
+    const cwd = definition.project !== undefined ? path.dirname(definition.project) : workspaceFolder?.uri.fsPath;
+    const name = projectName !== undefined ? `${definition.command}: ${projectName}` : definition.command;
+    const task = new vscode.Task(
+        definition,
+        workspaceFolder ?? vscode.TaskScope.Workspace,
+        name,
+        dotnetTaskType,
+        new vscode.ProcessExecution('dotnet', args, { cwd }),
+        '$msCompile');
+
+    task.group = getTaskGroup(definition.command);
+    return task;
+}
+
+function getTaskGroup(command: DotnetTaskCommand): vscode.TaskGroup | undefined {
+    switch (command) {
+        case 'build':
+            return vscode.TaskGroup.Build;
+        case 'clean':
+            return vscode.TaskGroup.Clean;
+        case 'test':
+            return vscode.TaskGroup.Test;
+        default:
+            return undefined;
+    }
+}
+
+async function executeTaskAndWait(task: vscode.Task): Promise<number | undefined> {
+    const execution = await vscode.tasks.executeTask(task);
+    return new Promise<number | undefined>(resolve => {
+        // The process end event has the exit code, but isn't raised if the process failed to start.
+        let exitCode: number | undefined;
+        const disposables = [
+            vscode.tasks.onDidEndTaskProcess(e => {
+                if (e.execution === execution) {
+                    exitCode = e.exitCode;
+                }
+            }),
+            vscode.tasks.onDidEndTask(e => {
+                if (e.execution === execution) {
+                    disposables.forEach(disposable => disposable.dispose());
+                    resolve(exitCode);
+                }
+            })
+        ];
+    });
+}
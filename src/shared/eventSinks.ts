@@ -0,0 +1,127 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { CSharpEventSink, DiagnosticsSummaryEventV1, LanguageServerKind, ProjectEventV1, RequestCompletedEventV1, ServerStateChangedEventV1 } from '../CSharpExtensionEvents';
+
+const supportedVersions = [1];
+
+const diagnosticsSummaryDelay = 1000;
+const summarizedFilePattern = /\.(cs|csx|cake|razor|cshtml)$/i;
+
+/**
+ * The sinks that other extensions registered through the exports of this extension, which the language servers post
+ * their events to.
+ */
+export class EventSinks {
+    private readonly _sinks = new Set<CSharpEventSink>();
+
+    public register(sink: CSharpEventSink): vscode.Disposable {
+        if (!supportedVersions.includes(sink?.version)) {
+            throw new Error(`Version ${sink?.version} of the C# extension events is not supported. The supported versions are: ${supportedVersions.join(', ')}.`);
+        }
+
+        this._sinks.add(sink);
+        return new vscode.Disposable(() => this._sinks.delete(sink));
+    }
+
+    /** Whether any sink is registered, to skip the work of creating events nobody handles. */
+    public get hasSinks(): boolean {
+        return this._sinks.size > 0;
+    }
+
+    public postServerStateChanged(event: ServerStateChangedEventV1): void {
+        this.post(sink => sink.onServerStateChanged?.(event));
+    }
+
+    public postProjectLoaded(event: ProjectEventV1): void {
+        this.post(sink => sink.onProjectLoaded?.(event));
+    }
+
+    public postProjectUnloaded(event: ProjectEventV1): void {
+        this.post(sink => sink.onProjectUnloaded?.(event));
+    }
+
+    public postDiagnosticsSummary(event: DiagnosticsSummaryEventV1): void {
+        this.post(sink => sink.onDiagnosticsSummary?.(event));
+    }
+
+    public postRequestCompleted(event: RequestCompletedEventV1): void {
+        this.post(sink => sink.onRequestCompleted?.(event));
+    }
+
+    private post(handle: (sink: CSharpEventSink) => void): void {
+        for (const sink of this._sinks) {
+            try {
+                handle(sink);
+            }
+            catch (err) {
+                // Another extension's handler must not break the server feature that posted the event.
+            }
+        }
+    }
+}
+
+/**
+ * Posts a summary of the diagnostics in C# and Razor files to the sinks when the diagnostics change, at most once
+ * a second, and only if the summary changed.
+ */
+export function registerDiagnosticsSummary(sinks: EventSinks, server: LanguageServerKind): vscode.Disposable {
+    let timeout: NodeJS.Timeout | undefined;
+    let lastSummary: DiagnosticsSummaryEventV1 | undefined;
+
+    const listener = vscode.languages.onDidChangeDiagnostics(() => {
+        if (!sinks.hasSinks || timeout !== undefined) {
+            return;
+        }
+
+        timeout = setTimeout(() => {
+            timeout = undefined;
+            const summary = summarizeDiagnostics(server, vscode.languages.getDiagnostics());
+            if (lastSummary === undefined || !isSameSummary(summary, lastSummary)) {
+                lastSummary = summary;
+                sinks.postDiagnosticsSummary(summary);
+            }
+        }, diagnosticsSummaryDelay);
+    });
+
+    return new vscode.Disposable(() => {
+        listener.dispose();
+        if (timeout !== undefined) {
+            clearTimeout(timeout);
+        }
+    });
+}
+
+// Only public for tests.
+export function summarizeDiagnostics(server: LanguageServerKind, diagnostics: [vscode.Uri, vscode.Diagnostic[]][]): DiagnosticsSummaryEventV1 {
+    const summary: DiagnosticsSummaryEventV1 = { server, errorCount: 0, warningCount: 0, infoCount: 0, fileCount: 0 };
+    for (const [uri, fileDiagnostics] of diagnostics) {
+        if (!summarizedFilePattern.test(uri.path) || fileDiagnostics.length === 0) {
+            continue;
+        }
+
+        summary.fileCount++;
+        for (const diagnostic of fileDiagnostics) {
+            switch (diagnostic.severity) {
+                case vscode.DiagnosticSeverity.Error:
+                    summary.errorCount++;
+                    break;
+                case vscode.DiagnosticSeverity.Warning:
+                    summary.warningCount++;
+                    break;
+                case vscode.DiagnosticSeverity.Information:
+                    summary.infoCount++;
+                    break;
+            }
+        }
+    }
+
+    return summary;
+}
+
+function isSameSummary(a: DiagnosticsSummaryEventV1, b: DiagnosticsSummaryEventV1): boolean {
+    return a.errorCount === b.errorCount && a.warningCount === b.warningCount && a.infoCount === b.infoCount && a.fileCount === b.fileCount;
+}
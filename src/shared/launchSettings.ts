@@ -0,0 +1,81 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { tolerantParse } from '../json';
+
+/**
+ * A profile from a project's Properties/launchSettings.json file.
+ */
+export interface LaunchSettingsProfile {
+    /**
+     * The name of the profile, which is its key in the 'profiles' object.
+     */
+    name: string;
+    commandName?: string;
+    commandLineArgs?: string;
+    executablePath?: string;
+    workingDirectory?: string;
+    launchBrowser?: boolean;
+    launchUrl?: string;
+    applicationUrl?: string;
+    inspectUri?: string;
+    environmentVariables?: { [key: string]: string };
+}
+
+export function getLaunchSettingsPath(projectPath: string): string {
+    return path.join(path.dirname(projectPath), 'Properties', 'launchSettings.json');
+}
+
+/**
+ * Reads the profiles of a project's launchSettings.json file in the order they are declared. Returns an empty
+ * array if the project has no launchSettings.json file or it can't be parsed.
+ */
+export async function readLaunchSettingsProfiles(projectPath: string): Promise<LaunchSettingsProfile[]> {
+    let text: string;
+    try {
+        text = await fs.readFile(getLaunchSettingsPath(projectPath), 'utf8');
+    } catch {
+        return [];
+    }
+
+    return parseLaunchSettingsProfiles(text);
+}
+
+export function parseLaunchSettingsProfiles(text: string): LaunchSettingsProfile[] {
+    let launchSettings: any;
+    try {
+        launchSettings = tolerantParse(text);
+    } catch {
+        return [];
+    }
+
+    const profiles = launchSettings?.profiles;
+    if (typeof profiles !== 'object' || profiles === null) {
+        return [];
+    }
+
+    return Object.keys(profiles)
+        .filter(name => typeof profiles[name] === 'object' && profiles[name] !== null)
+        .map(name => ({ ...profiles[name], name }));
+}
+
+/**
+ * Returns true if the profile launches the project itself, as opposed to e.g. IIS Express or a Docker container.
+ */
+export function isProjectProfile(profile: LaunchSettingsProfile): boolean {
+    return profile.commandName === 'Project';
+}
+
+/**
+ * Picks one of the semicolon separated URLs of the profile's applicationUrl, preferring an https or http URL.
+ * Falls back to the first URL if none uses the preferred scheme.
+ */
+export function getApplicationUrl(profile: LaunchSettingsProfile, preferHttps: boolean): string | undefined {
+    const urls = (profile.applicationUrl ?? '').split(';').map(url => url.trim()).filter(url => url.length > 0);
+    const preferredScheme = preferHttps ? 'https:' : 'http:';
+    return urls.find(url => url.toLowerCase().startsWith(preferredScheme)) ?? urls[0];
+}
@@ -0,0 +1,102 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface RestoreDiagnostic {
+    /** The project the diagnostic was reported for, which can be a project referenced by the restored one. */
+    projectPath: string;
+    severity: 'error' | 'warning';
+    code: string;
+    message: string;
+}
+
+export interface PackageReferenceLocation {
+    packageId: string;
+    line: number;
+    startCharacter: number;
+    endCharacter: number;
+}
+
+// e.g. "/src/app/app.csproj : error NU1101: Unable to find package Foo. [/src/app/app.csproj]". Errors raised
+// from the NuGet targets are reported for the targets file, with the project only in the trailing brackets.
+const restoreDiagnosticPattern = /^\s*(.+?)(?:\(\d+(?:,\d+)*\))?\s*:\s*(error|warning)\s+(NU\d{4})\s*:\s*(.*?)(?:\s+\[([^\]]+)\])?\s*$/;
+
+// Matches the elements that reference a package, including the Directory.Packages.props versions and updates of
+// references declared elsewhere. The id is the last group, and the element may span several lines.
+const packageReferencePattern = /<(?:PackageReference|PackageVersion|GlobalPackageReference)\b[^>]*?\b(?:Include|Update)\s*=\s*(["'])(.*?)\1/gis;
+
+/**
+ * Reads the NuGet errors and warnings from the console output of 'dotnet restore'. Diagnostics that are repeated,
+ * e.g. for each target framework of the project, are only returned once.
+ */
+export function parseRestoreOutput(output: string): RestoreDiagnostic[] {
+    const diagnostics = new Map<string, RestoreDiagnostic>();
+    for (const line of output.split(/\r?\n/)) {
+        const match = restoreDiagnosticPattern.exec(line);
+        if (match === null) {
+            continue;
+        }
+
+        const [, filePath, severity, code, message, projectPath] = match;
+        const diagnostic: RestoreDiagnostic = {
+            projectPath: projectPath ?? filePath,
+            severity: <'error' | 'warning'>severity,
+            code,
+            message
+        };
+
+        diagnostics.set(`${diagnostic.projectPath}|${severity}|${code}|${message}`, diagnostic);
+    }
+
+    return [...diagnostics.values()];
+}
+
+/**
+ * Returns the locations of the ids of the packages the message of a NuGet diagnostic is about, in the contents of a
+ * project or props file. NuGet messages name the packages they are about, but don't say where they are referenced.
+ */
+export function findPackageReferences(content: string, message: string): PackageReferenceLocation[] {
+    const locations: PackageReferenceLocation[] = [];
+    for (const match of content.matchAll(packageReferencePattern)) {
+        const packageId = match[2].trim();
+        if (packageId.length === 0 || !mentionsPackage(message, packageId)) {
+            continue;
+        }
+
+        const idOffset = match.index! + match[0].length - 1 - match[2].length;
+        const textBefore = content.substring(0, idOffset);
+        const line = textBefore.split('\n').length - 1;
+        const startCharacter = idOffset - (textBefore.lastIndexOf('\n') + 1);
+        locations.push({ packageId, line, startCharacter, endCharacter: startCharacter + match[2].length });
+    }
+
+    return locations;
+}
+
+/**
+ * Returns the Directory.Packages.props file that central package management imports into a project, which is the
+ * closest one in the project's directory or above it, or undefined if there is none.
+ */
+export function findDirectoryPackagesProps(projectPath: string, exists: (filePath: string) => boolean = fs.existsSync): string | undefined {
+    for (let directory = path.dirname(projectPath); ; directory = path.dirname(directory)) {
+        const propsPath = path.join(directory, 'Directory.Packages.props');
+        if (exists(propsPath)) {
+            return propsPath;
+        }
+
+        if (path.dirname(directory) === directory) {
+            return undefined;
+        }
+    }
+}
+
+function mentionsPackage(message: string, packageId: string): boolean {
+    // Package ids are case insensitive and can contain dots, so "Foo" must not match "Foo.Bar", but does match the
+    // end of a sentence like "Unable to find package Foo."
+    const escapedId = packageId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(?<![\\w.-])${escapedId}(?![\\w-]|\\.\\w)`, 'i').test(message);
+}
@@ -9,7 +9,7 @@ import { PackageError } from "../../packageManager/PackageError";
 import { EventType } from "../../omnisharp/EventType";
 
 export class CsharpLoggerObserver extends BaseLoggerObserver {
-    private dots: number = 0;
+    private dots = new Map<string, number>();
 
     public post = (event: Event.BaseEvent) => {
         switch (event.type) {
@@ -53,6 +53,12 @@ export class CsharpLoggerObserver extends BaseLoggerObserver {
             case EventType.DownloadSizeObtained:
                 this.handleDownloadSizeObtained(<Event.DownloadSizeObtained>event);
                 break;
+            case EventType.DownloadResume:
+                this.handleDownloadResume(<Event.DownloadResume>event);
+                break;
+            case EventType.DownloadCacheHit:
+                this.handleDownloadCacheHit(<Event.DownloadCacheHit>event);
+                break;
             case EventType.DocumentSynchronizationFailure:
                 this.handleDocumentSynchronizationFailure(<Event.DocumentSynchronizationFailure>event);
                 break;
@@ -68,6 +74,9 @@ export class CsharpLoggerObserver extends BaseLoggerObserver {
             case EventType.IntegrityCheckSuccess:
                 this.handleIntegrityCheckSuccess(<Event.IntegrityCheckSuccess>event);
                 break;
+            case EventType.TarError:
+                this.logger.appendLine((<Event.TarError>event).message);
+                break;
         }
     }
 
@@ -92,6 +101,14 @@ export class CsharpLoggerObserver extends BaseLoggerObserver {
         this.logger.append(`(${Math.ceil(event.packageSize / 1024)} KB)`);
     }
 
+    private handleDownloadResume(event: Event.DownloadResume) {
+        this.logger.append(`\tResuming '${event.packageDescription}' after ${Math.ceil(event.offset / 1024)} KB `);
+    }
+
+    private handleDownloadCacheHit(event: Event.DownloadCacheHit) {
+        this.logger.appendLine(`Using cached download of package '${event.packageDescription}'`);
+    }
+
     private handleDownloadFallback(event: Event.DownloadFallBack) {
         this.logger.append(`\tRetrying from '${event.fallbackUrl}' `);
     }
@@ -128,14 +145,15 @@ export class CsharpLoggerObserver extends BaseLoggerObserver {
     }
 
     private handleDownloadProgress(event: Event.DownloadProgress) {
+        // Packages are downloaded in parallel, so keep track of the progress of each one.
         let newDots = Math.ceil(event.downloadPercentage / 5);
-        this.logger.append('.'.repeat(newDots - this.dots));
-        this.dots = newDots;
+        this.logger.append('.'.repeat(Math.max(newDots - (this.dots.get(event.packageDescription) ?? 0), 0)));
+        this.dots.set(event.packageDescription, newDots);
     }
 
     private handleDownloadStart(event: Event.DownloadStart) {
         this.logger.append(`Downloading package '${event.packageDescription}' `);
-        this.dots = 0;
+        this.dots.set(event.packageDescription, 0);
     }
 
     private handleInstallationStart(event: Event.InstallationStart) {
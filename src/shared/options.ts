@@ -35,6 +35,7 @@ export class Options {
         const serverPath = Options.readOption<string>(config, 'dotnet.server.path', '', 'omnisharp.path', 'csharp.omnisharp');
         const waitForDebugger = Options.readOption<boolean>(config, 'dotnet.server.waitForDebugger', false, 'omnisharp.waitForDebugger');
         const useOmnisharpServer = Options.readOption<boolean>(config, 'dotnet.server.useOmnisharp', false);
+        const enableAutoRestore = Options.readOption<boolean>(config, 'dotnet.restore.enableAutoRestore', false);
 
         let defaultSolution = '';
 
@@ -128,6 +129,9 @@ export class Options {
         let languageServerLogLevel = Options.readOption<string>(config, 'dotnet.server.trace', 'Information');
         let documentSelector = Options.readOption<DocumentSelector>(config, 'dotnet.server.documentSelector', ['csharp']);
         let extensionPaths = Options.readOption<string[] | null>(config, 'dotnet.server.extensionPaths', null);
+        const autoInsertDocumentationComments = Options.readOption<boolean>(config, 'dotnet.autoInsert.enableDocumentationComments', true);
+        const autoInsertRawStringLiterals = Options.readOption<boolean>(config, 'dotnet.autoInsert.enableRawStringLiterals', true);
+        const autoInsertBraceCompletion = Options.readOption<boolean>(config, 'dotnet.autoInsert.enableBraceCompletion', true);
 
         // Options that apply to Razor
         const razorDevMode = Options.readOption<boolean>(config, 'razor.devmode', false) ?? false;
@@ -142,6 +146,7 @@ export class Options {
                 useOmnisharpServer: useOmnisharpServer,
                 excludePaths: excludePaths,
                 defaultSolution: defaultSolution,
+                enableAutoRestore: enableAutoRestore,
             },
             {
                 useModernNet: useModernNet,
@@ -194,7 +199,10 @@ export class Options {
             {
                 logLevel: languageServerLogLevel,
                 documentSelector: documentSelector,
-                extensionsPaths: extensionPaths
+                extensionsPaths: extensionPaths,
+                autoInsertDocumentationComments: autoInsertDocumentationComments,
+                autoInsertRawStringLiterals: autoInsertRawStringLiterals,
+                autoInsertBraceCompletion: autoInsertBraceCompletion
             },
             {
                 razorDevMode: razorDevMode,
@@ -259,6 +267,9 @@ export interface CommonOptions {
 
     /** The default solution; this has been normalized to a full file path from the workspace folder it was configured in, or the string "disable" if that has been disabled */
     defaultSolution: string;
+
+    /** Whether projects are restored in the background when their project files, or the props and NuGet config files they depend on, change */
+    enableAutoRestore: boolean;
 }
 
 const CommonOptionsThatTriggerReload: ReadonlyArray<keyof CommonOptions> = [
@@ -355,6 +366,9 @@ export interface LanguageServerOptions {
     logLevel: string;
     documentSelector: DocumentSelector;
     extensionsPaths: string[] | null;
+    autoInsertDocumentationComments: boolean;
+    autoInsertRawStringLiterals: boolean;
+    autoInsertBraceCompletion: boolean;
 }
 
 const LanguageServerOptionsThatTriggerReload: ReadonlyArray<keyof LanguageServerOptions> = [
@@ -0,0 +1,279 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { generateAssets } from './assets';
+import { DotnetTaskProvider } from './dotnetTaskProvider';
+import { IWorkspaceDebugInformationProvider, ProjectDebugInformation } from './IWorkspaceDebugInformationProvider';
+import { PackageReferenceItem, parseProjectFile, ProjectFileInformation, ProjectReferenceItem } from './projectFile';
+import { getTargetFrameworkReferences, groupDocumentsByFolder, groupProjectsBySolution } from './projectTree';
+
+export const projectExplorerViewId = 'csharp.projects';
+
+/**
+ * How long to wait after the last change to the workspace before refreshing, as files tend to change in bursts.
+ */
+const refreshDelay = 500;
+
+/**
+ * The most documents listed per project, to keep projects that glob e.g. node_modules from slowing down the view.
+ */
+const maxDocumentsPerProject = 5000;
+
+const documentsPattern = '**/*.{cs,razor,cshtml}';
+const excludedDocumentsPattern = '{bin,obj}/**';
+const watchedFilesPattern = '**/*.{sln,csproj,cs,razor,cshtml}';
+
+/**
+ * The "C# Projects" view, which shows the solutions and projects the server loaded, with their target frameworks,
+ * references and documents, so the project graph can be inspected without C# Dev Kit.
+ */
+export class ProjectExplorer implements vscode.TreeDataProvider<ProjectExplorerItem>, vscode.Disposable {
+    private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<ProjectExplorerItem | undefined>();
+    private readonly disposables: vscode.Disposable[] = [this.onDidChangeTreeDataEmitter];
+    private refreshTimer: NodeJS.Timeout | undefined;
+
+    public readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+
+    /**
+     * @param getSolutionPath Returns the solution the server loaded, for servers whose workspace information leaves it
+     * out of the projects.
+     */
+    constructor(private workspaceInformationProvider: IWorkspaceDebugInformationProvider, dotnetTaskProvider: DotnetTaskProvider, private getSolutionPath?: () => Promise<string | undefined>) {
+        const watcher = vscode.workspace.createFileSystemWatcher(watchedFilesPattern);
+        this.disposables.push(
+            vscode.window.registerTreeDataProvider(projectExplorerViewId, this),
+            watcher,
+            watcher.onDidCreate(() => this.refresh()),
+            watcher.onDidDelete(() => this.refresh()),
+            watcher.onDidChange(uri => {
+                // Changes to documents don't change the tree, but changes to the projects can.
+                if (!isDocument(uri.fsPath)) {
+                    this.refresh();
+                }
+            }),
+            vscode.commands.registerCommand('csharp.projects.refresh', () => this.refresh()),
+            vscode.commands.registerCommand('csharp.projects.restore', async (item: ProjectItem) => dotnetTaskProvider.runProjectTask('restore', item.project.projectPath)),
+            vscode.commands.registerCommand('csharp.projects.build', async (item: ProjectItem) => dotnetTaskProvider.runProjectTask('build', item.project.projectPath)),
+            vscode.commands.registerCommand('csharp.projects.setAsStartupProject', async (item: ProjectItem) => generateAssets(workspaceInformationProvider, undefined, item.project.projectPath)),
+            vscode.commands.registerCommand('csharp.projects.openProjectFile', async (item: ProjectItem | ProjectReferenceTreeItem) => vscode.window.showTextDocument(item.resourceUri!)));
+    }
+
+    /**
+     * Reloads the tree once the workspace stopped changing for a moment, e.g. when the server loaded the projects.
+     */
+    public refresh(): void {
+        if (this.refreshTimer !== undefined) {
+            clearTimeout(this.refreshTimer);
+        }
+
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = undefined;
+            this.onDidChangeTreeDataEmitter.fire(undefined);
+        }, refreshDelay);
+    }
+
+    public getTreeItem(element: ProjectExplorerItem): vscode.TreeItem {
+        return element;
+    }
+
+    public async getChildren(element?: ProjectExplorerItem): Promise<ProjectExplorerItem[]> {
+        if (element !== undefined) {
+            return element.getChildren();
+        }
+
+        const projects: ProjectDebugInformation[] = [];
+        for (const workspaceFolder of vscode.workspace.workspaceFolders ?? []) {
+            projects.push(...await this.workspaceInformationProvider.getWorkspaceDebugInformation(workspaceFolder.uri) ?? []);
+        }
+
+        const nodes = groupProjectsBySolution(projects, await this.getSolutionPath?.());
+        return [
+            ...nodes.solutions.map(solution => new SolutionItem(solution.solutionPath, solution.projects)),
+            ...nodes.projects.map(project => new ProjectItem(project))
+        ];
+    }
+
+    public dispose(): void {
+        if (this.refreshTimer !== undefined) {
+            clearTimeout(this.refreshTimer);
+        }
+
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
+
+abstract class ProjectExplorerItem extends vscode.TreeItem {
+    public abstract getChildren(): Promise<ProjectExplorerItem[]>;
+}
+
+class SolutionItem extends ProjectExplorerItem {
+    constructor(solutionPath: string, private projects: ProjectDebugInformation[]) {
+        super(vscode.Uri.file(solutionPath), vscode.TreeItemCollapsibleState.Expanded);
+        this.label = path.basename(solutionPath);
+        this.tooltip = solutionPath;
+        this.contextValue = 'solution';
+    }
+
+    public async getChildren(): Promise<ProjectExplorerItem[]> {
+        return this.projects.map(project => new ProjectItem(project));
+    }
+}
+
+class ProjectItem extends ProjectExplorerItem {
+    constructor(public readonly project: ProjectDebugInformation) {
+        super(vscode.Uri.file(project.projectPath), vscode.TreeItemCollapsibleState.Collapsed);
+
+        // The OmniSharp project names include the path to tell projects with the same name apart in pickers.
+        this.label = path.parse(project.projectPath).name;
+        this.tooltip = project.projectPath;
+        this.contextValue = project.isExe ? 'executableProject' : 'project';
+    }
+
+    public async getChildren(): Promise<ProjectExplorerItem[]> {
+        let projectFile: ProjectFileInformation = { targetFrameworks: [], packageReferences: [], projectReferences: [] };
+        try {
+            projectFile = parseProjectFile(await fs.promises.readFile(this.project.projectPath, 'utf8'));
+        }
+        catch (error) {
+            // The documents are still shown if the project file can't be read.
+        }
+
+        const projectDirectory = path.dirname(this.project.projectPath);
+        const documents = await vscode.workspace.findFiles(
+            new vscode.RelativePattern(vscode.Uri.file(projectDirectory), documentsPattern),
+            new vscode.RelativePattern(vscode.Uri.file(projectDirectory), excludedDocumentsPattern),
+            maxDocumentsPerProject);
+
+        return [
+            new DependenciesItem(projectFile, projectDirectory),
+            ...getFolderChildren(projectDirectory, documents.map(document => document.fsPath))
+        ];
+    }
+}
+
+class DependenciesItem extends ProjectExplorerItem {
+    constructor(private projectFile: ProjectFileInformation, private projectDirectory: string) {
+        super('Dependencies', vscode.TreeItemCollapsibleState.Collapsed);
+        this.iconPath = new vscode.ThemeIcon('references');
+    }
+
+    public async getChildren(): Promise<ProjectExplorerItem[]> {
+        if (this.projectFile.targetFrameworks.length === 0) {
+            return getReferenceGroups(getTargetFrameworkReferences(this.projectFile, undefined), this.projectDirectory);
+        }
+
+        return this.projectFile.targetFrameworks.map(targetFramework => new TargetFrameworkItem(targetFramework, this.projectFile, this.projectDirectory));
+    }
+}
+
+class TargetFrameworkItem extends ProjectExplorerItem {
+    constructor(private targetFramework: string, private projectFile: ProjectFileInformation, private projectDirectory: string) {
+        super(targetFramework, vscode.TreeItemCollapsibleState.Collapsed);
+        this.iconPath = new vscode.ThemeIcon('target');
+        this.contextValue = 'targetFramework';
+    }
+
+    public async getChildren(): Promise<ProjectExplorerItem[]> {
+        return getReferenceGroups(getTargetFrameworkReferences(this.projectFile, this.targetFramework), this.projectDirectory);
+    }
+}
+
+class ReferenceGroupItem extends ProjectExplorerItem {
+    constructor(label: string, icon: string, private references: ProjectExplorerItem[]) {
+        super(label, vscode.TreeItemCollapsibleState.Collapsed);
+        this.iconPath = new vscode.ThemeIcon(icon);
+    }
+
+    public async getChildren(): Promise<ProjectExplorerItem[]> {
+        return this.references;
+    }
+}
+
+class PackageReferenceTreeItem extends ProjectExplorerItem {
+    constructor(reference: PackageReferenceItem) {
+        super(reference.id, vscode.TreeItemCollapsibleState.None);
+        this.description = reference.version;
+        this.iconPath = new vscode.ThemeIcon('package');
+        this.contextValue = 'packageReference';
+    }
+
+    public async getChildren(): Promise<ProjectExplorerItem[]> {
+        return [];
+    }
+}
+
+class ProjectReferenceTreeItem extends ProjectExplorerItem {
+    constructor(reference: ProjectReferenceItem, projectDirectory: string) {
+        // Project references are written with Windows separators, even in projects that are built on other platforms.
+        const referencePath = path.resolve(projectDirectory, reference.path.replace(/\\/g, path.sep));
+        super(vscode.Uri.file(referencePath), vscode.TreeItemCollapsibleState.None);
+        this.label = path.parse(referencePath).name;
+        this.tooltip = referencePath;
+        this.contextValue = 'projectReference';
+        this.command = { command: 'vscode.open', title: 'Open Project File', arguments: [this.resourceUri] };
+    }
+
+    public async getChildren(): Promise<ProjectExplorerItem[]> {
+        return [];
+    }
+}
+
+class FolderItem extends ProjectExplorerItem {
+    constructor(private folderPath: string, private documentPaths: string[]) {
+        super(vscode.Uri.file(folderPath), vscode.TreeItemCollapsibleState.Collapsed);
+        this.contextValue = 'folder';
+    }
+
+    public async getChildren(): Promise<ProjectExplorerItem[]> {
+        return getFolderChildren(this.folderPath, this.documentPaths);
+    }
+}
+
+class DocumentItem extends ProjectExplorerItem {
+    constructor(documentPath: string) {
+        super(vscode.Uri.file(documentPath), vscode.TreeItemCollapsibleState.None);
+        this.contextValue = 'document';
+        this.command = { command: 'vscode.open', title: 'Open File', arguments: [this.resourceUri] };
+    }
+
+    public async getChildren(): Promise<ProjectExplorerItem[]> {
+        return [];
+    }
+}
+
+function getReferenceGroups({ packageReferences, projectReferences }: { packageReferences: PackageReferenceItem[], projectReferences: ProjectReferenceItem[] }, projectDirectory: string): ProjectExplorerItem[] {
+    const groups: ProjectExplorerItem[] = [];
+    if (packageReferences.length > 0) {
+        groups.push(new ReferenceGroupItem('Packages', 'package', packageReferences.map(reference => new PackageReferenceTreeItem(reference)).sort(compareLabels)));
+    }
+
+    if (projectReferences.length > 0) {
+        groups.push(new ReferenceGroupItem('Projects', 'project', projectReferences.map(reference => new ProjectReferenceTreeItem(reference, projectDirectory)).sort(compareLabels)));
+    }
+
+    return groups;
+}
+
+/**
+ * Returns the folders and documents directly in the folder, folders first like the file explorer.
+ */
+function getFolderChildren(folderPath: string, documentPaths: string[]): ProjectExplorerItem[] {
+    const nodes = groupDocumentsByFolder(folderPath, documentPaths);
+    return [
+        ...nodes.folders.map(folder => new FolderItem(folder.folderPath, folder.documentPaths)),
+        ...nodes.documentPaths.map(documentPath => new DocumentItem(documentPath))
+    ];
+}
+
+function isDocument(filePath: string): boolean {
+    return ['.cs', '.razor', '.cshtml'].includes(path.extname(filePath).toLowerCase());
+}
+
+function compareLabels(first: vscode.TreeItem, second: vscode.TreeItem): number {
+    return String(first.label).localeCompare(String(second.label));
+}
@@ -0,0 +1,95 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+export interface ProjectFileInformation {
+    /**
+     * The short names of the target frameworks, e.g. net7.0
+     */
+    targetFrameworks: string[];
+    packageReferences: PackageReferenceItem[];
+    projectReferences: ProjectReferenceItem[];
+}
+
+export interface PackageReferenceItem {
+    id: string;
+    version: string | undefined;
+
+    /**
+     * The only target framework the reference applies to, or undefined if it applies to all of them.
+     */
+    targetFramework: string | undefined;
+}
+
+export interface ProjectReferenceItem {
+    /**
+     * The path of the referenced project as written in the project file, relative to the project directory.
+     */
+    path: string;
+
+    /**
+     * The only target framework the reference applies to, or undefined if it applies to all of them.
+     */
+    targetFramework: string | undefined;
+}
+
+const itemGroupPattern = /<ItemGroup\b([^>]*)>(.*?)<\/ItemGroup\s*>/gis;
+const referenceItemPattern = /<(PackageReference|ProjectReference)\b([^>]*?)(?:\/>|>(.*?)<\/\1\s*>)/gis;
+const targetFrameworkConditionPattern = /'\$\(TargetFramework\)'\s*==\s*'([^']*)'/i;
+
+/**
+ * Reads the target frameworks and references declared in the contents of a project file. This doesn't evaluate the
+ * project like MSBuild does: properties and items imported from other files, e.g. Directory.Build.props, are
+ * missing, and conditions other than on the target framework are ignored.
+ */
+export function parseProjectFile(content: string): ProjectFileInformation {
+    content = content.replace(/<!--.*?-->/gs, '');
+
+    // TargetFrameworks takes precedence over TargetFramework when a project sets both.
+    const targetFrameworks = getProperty(content, 'TargetFrameworks') ?? getProperty(content, 'TargetFramework') ?? '';
+
+    const packageReferences: PackageReferenceItem[] = [];
+    const projectReferences: ProjectReferenceItem[] = [];
+    for (const [, groupAttributes, groupContent] of content.matchAll(itemGroupPattern)) {
+        const groupTargetFramework = getTargetFrameworkCondition(groupAttributes);
+        for (const [, itemType, attributes, metadata] of groupContent.matchAll(referenceItemPattern)) {
+            const include = getAttribute(attributes, 'Include');
+            if (include === undefined || include.length === 0) {
+                continue;
+            }
+
+            const targetFramework = getTargetFrameworkCondition(attributes) ?? groupTargetFramework;
+            if (itemType.toLowerCase() === 'packagereference') {
+                const version = getAttribute(attributes, 'Version') ?? (metadata !== undefined ? getProperty(metadata, 'Version') : undefined);
+                packageReferences.push({ id: include, version, targetFramework });
+            }
+            else {
+                projectReferences.push({ path: include, targetFramework });
+            }
+        }
+    }
+
+    return {
+        // Frameworks that come from other properties can't be shown without evaluating the project.
+        targetFrameworks: targetFrameworks.split(';').map(framework => framework.trim()).filter(framework => framework.length > 0 && !framework.includes('$(')),
+        packageReferences,
+        projectReferences
+    };
+}
+
+function getProperty(content: string, name: string): string | undefined {
+    const match = new RegExp(`<${name}\\b[^>]*>([^<]*)</${name}\\s*>`, 'i').exec(content);
+    return match !== null ? match[1].trim() : undefined;
+}
+
+function getAttribute(attributes: string, name: string): string | undefined {
+    const match = new RegExp(`\\b${name}\\s*=\\s*(["'])(.*?)\\1`, 'is').exec(attributes);
+    return match !== null ? match[2].trim() : undefined;
+}
+
+function getTargetFrameworkCondition(attributes: string): string | undefined {
+    const condition = getAttribute(attributes, 'Condition');
+    const match = condition !== undefined ? targetFrameworkConditionPattern.exec(condition) : null;
+    return match !== null ? match[1] : undefined;
+}
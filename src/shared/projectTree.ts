@@ -0,0 +1,97 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import { ProjectDebugInformation } from './IWorkspaceDebugInformationProvider';
+import { PackageReferenceItem, ProjectFileInformation, ProjectReferenceItem } from './projectFile';
+
+export interface SolutionNode {
+    solutionPath: string;
+    projects: ProjectDebugInformation[];
+}
+
+export interface ProjectNodes {
+    solutions: SolutionNode[];
+
+    /**
+     * The projects that aren't part of a solution, e.g. when the server loaded a folder.
+     */
+    projects: ProjectDebugInformation[];
+}
+
+export interface FolderNodes {
+    /**
+     * The subfolders of the folder that contain documents, with the documents anywhere under them.
+     */
+    folders: { folderPath: string, documentPaths: string[] }[];
+    documentPaths: string[];
+}
+
+/**
+ * Groups the projects by the solution they were loaded from. The solution of projects whose workspace information
+ * doesn't name one is the given one, if any. Solutions and projects are sorted by name.
+ */
+export function groupProjectsBySolution(projects: ProjectDebugInformation[], defaultSolutionPath: string | undefined): ProjectNodes {
+    const solutions = new Map<string, ProjectDebugInformation[]>();
+    const projectsWithoutSolution: ProjectDebugInformation[] = [];
+    for (const project of projects) {
+        const solutionPath = project.solutionPath ?? defaultSolutionPath;
+        if (solutionPath !== undefined) {
+            solutions.set(solutionPath, [...solutions.get(solutionPath) ?? [], project]);
+        }
+        else {
+            projectsWithoutSolution.push(project);
+        }
+    }
+
+    return {
+        solutions: [...solutions]
+            .map(([solutionPath, solutionProjects]) => ({ solutionPath, projects: solutionProjects.sort(compareProjects) }))
+            .sort((first, second) => path.basename(first.solutionPath).localeCompare(path.basename(second.solutionPath))),
+        projects: projectsWithoutSolution.sort(compareProjects)
+    };
+}
+
+/**
+ * Returns the references of the project that apply to the target framework, or all of them if the target framework
+ * is undefined.
+ */
+export function getTargetFrameworkReferences(projectFile: ProjectFileInformation, targetFramework: string | undefined): { packageReferences: PackageReferenceItem[], projectReferences: ProjectReferenceItem[] } {
+    const appliesToFramework = (reference: { targetFramework: string | undefined }) =>
+        targetFramework === undefined || reference.targetFramework === undefined || reference.targetFramework.toLowerCase() === targetFramework.toLowerCase();
+
+    return {
+        packageReferences: projectFile.packageReferences.filter(appliesToFramework),
+        projectReferences: projectFile.projectReferences.filter(appliesToFramework)
+    };
+}
+
+/**
+ * Splits the documents under a folder into its subfolders and the documents directly in it, each sorted by name.
+ */
+export function groupDocumentsByFolder(folderPath: string, documentPaths: string[]): FolderNodes {
+    const subfolders = new Map<string, string[]>();
+    const documents: string[] = [];
+    for (const documentPath of documentPaths) {
+        const [name, ...rest] = path.relative(folderPath, documentPath).split(path.sep);
+        if (rest.length === 0) {
+            documents.push(documentPath);
+        }
+        else {
+            subfolders.set(name, [...subfolders.get(name) ?? [], documentPath]);
+        }
+    }
+
+    return {
+        folders: [...subfolders]
+            .sort(([first], [second]) => first.localeCompare(second))
+            .map(([name, subfolderDocuments]) => ({ folderPath: path.join(folderPath, name), documentPaths: subfolderDocuments })),
+        documentPaths: documents.sort((first, second) => path.basename(first).localeCompare(path.basename(second)))
+    };
+}
+
+function compareProjects(first: ProjectDebugInformation, second: ProjectDebugInformation): number {
+    return path.parse(first.projectPath).name.localeCompare(path.parse(second.projectPath).name);
+}
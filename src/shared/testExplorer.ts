@@ -0,0 +1,38 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+
+/**
+ * Splits the fully qualified name of a test method into the names of the nodes of the Test Explorer tree.
+ */
+export function splitFullyQualifiedName(fullyQualifiedName: string): { namespaceName: string, className: string, methodName: string } {
+    const parts = fullyQualifiedName.split('.');
+    const methodName = parts.pop() ?? fullyQualifiedName;
+    const className = parts.pop() ?? '';
+    return { namespaceName: parts.join('.'), className, methodName };
+}
+
+/**
+ * Creates the message shown for a failed test at the location of its test item.
+ * @param testCaseName The name of the failed case, for tests that run several cases.
+ */
+export function createTestFailureMessage(item: vscode.TestItem, errorMessage: string | undefined, stackTrace: string | undefined, testCaseName?: string): vscode.TestMessage {
+    let text = errorMessage || 'Test failed.';
+    if (testCaseName) {
+        text = `${testCaseName}: ${text}`;
+    }
+
+    if (stackTrace) {
+        text += `\n${stackTrace}`;
+    }
+
+    const message = new vscode.TestMessage(text);
+    if (item.uri !== undefined && item.range !== undefined) {
+        message.location = new vscode.Location(item.uri, item.range);
+    }
+
+    return message;
+}
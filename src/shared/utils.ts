@@ -85,4 +85,32 @@ export function isBlazorWebAssemblyHosted(isExeProject: boolean, isWebProject: b
     }
 
     return true;
-}
\ No newline at end of file
+}
+
+export function findTestFrameworkName(projectPath: string): string | undefined {
+    let projectFileText: string;
+    try {
+        projectFileText = fs.readFileSync(projectPath, 'utf8').toLowerCase();
+    } catch {
+        return undefined;
+    }
+
+    // Only projects referencing the test SDK can be run by 'dotnet test'.
+    if (projectFileText.indexOf('include="microsoft.net.test.sdk"') < 0) {
+        return undefined;
+    }
+
+    if (projectFileText.indexOf('include="xunit') >= 0) {
+        return 'xunit';
+    }
+
+    if (projectFileText.indexOf('include="nunit') >= 0) {
+        return 'nunit';
+    }
+
+    if (projectFileText.indexOf('include="mstest.testframework"') >= 0) {
+        return 'mstest';
+    }
+
+    return undefined;
+}
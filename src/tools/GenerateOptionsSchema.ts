@@ -148,6 +148,9 @@ export function GenerateOptionsSchema() {
     let unitTestDebuggingOptions = JSON.parse(JSON.stringify(schemaJSON.definitions.AttachOptions.properties));
     // Remove the options we don't want
     delete unitTestDebuggingOptions.processName;
+    delete unitTestDebuggingOptions.processNameRegex;
+    delete unitTestDebuggingOptions.waitForProcess;
+    delete unitTestDebuggingOptions.reattachOnRestart;
     delete unitTestDebuggingOptions.processId;
     delete unitTestDebuggingOptions.pipeTransport;
     // Add the additional options we do want
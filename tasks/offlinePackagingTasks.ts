@@ -22,7 +22,7 @@ import { commandLineOptions } from '../tasks/commandLineArguments';
 import { codeExtensionPath, packedVsixOutputRoot, languageServerDirectory, nugetTempPath, rootPath } from '../tasks/projectPaths';
 import { getPackageJSON } from '../tasks/packageJson';
 import { createPackageAsync } from '../tasks/vsceTasks';
-import { isValidDownload } from '../src/packageManager/isValidDownload';
+import { isValidDownloadFile } from '../src/packageManager/isValidDownload';
 import path = require('path');
 const argv = require('yargs').argv;
 
@@ -115,7 +115,7 @@ async function installPackageJsonDependency(dependencyName: string, packageJSON:
         .filter(dep => (dep.isFramework === undefined || !dep.isFramework) && dep.id === dependencyName);
     let packagesToInstall = await getAbsolutePathPackagesToInstall(runTimeDependencies, platformInfo, codeExtensionPath);
     let provider = () => new NetworkSettings('', true);
-    if (!(await downloadAndInstallPackages(packagesToInstall, provider, eventStream, isValidDownload))) {
+    if (!(await downloadAndInstallPackages(packagesToInstall, provider, eventStream, isValidDownloadFile))) {
         throw Error("Failed to download package.");
     }
 }
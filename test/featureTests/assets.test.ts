@@ -6,9 +6,9 @@
 import * as path from 'path';
 import * as vscode from 'vscode';
 import * as jsonc from 'jsonc-parser';
-// import { FormattingOptions } from 'jsonc-parser';
+import { FormattingOptions } from 'jsonc-parser';
 
-import { AssetGenerator, ProgramLaunchType, replaceCommentPropertiesWithComments, updateJsonWithComments } from '../../src/shared/assets';
+import { AssetGenerator, getCompoundLaunchConfigurationName, getLaunchSettingsProfileConfigurationName, ProgramLaunchType, replaceCommentPropertiesWithComments, updateJsonWithComments, updateLaunchSettingsProfileConfigurations } from '../../src/shared/assets';
 import { parse } from 'jsonc-parser';
 import { use as chaiUse, should } from 'chai';
 import { ProjectDebugInformation } from '../../src/shared/IWorkspaceDebugInformationProvider';
@@ -333,6 +333,72 @@ suite("Asset generation: csproj", () => {
 
         JSON.stringify(launchConfigurations).indexOf("OS-COMMENT").should.lessThan(0);
     });
+
+    test("Create launch configurations for launchSettings.json profiles", () => {
+        let rootPath = path.resolve('testRoot');
+        let info = createMSBuildWorkspaceInformation(path.join(rootPath, 'testApp.csproj'), 'testApp', 'netcoreapp1.0', /*targetPath*/ undefined, /*isExe*/ true, /*isWebProject*/ true);
+        let generator = new AssetGenerator(info, createMockWorkspaceFolder(rootPath));
+        generator.setStartupProject(0);
+        let launchConfigurations = generator.createLaunchSettingsProfileConfigurations([
+            { name: 'https', commandName: 'Project', commandLineArgs: '--verbose', applicationUrl: 'https://localhost:7001', launchBrowser: true, launchUrl: 'swagger', environmentVariables: { ASPNETCORE_ENVIRONMENT: 'Staging' } },
+            { name: 'IIS Express', commandName: 'IISExpress' }
+        ]);
+
+        launchConfigurations.should.have.lengthOf(1);
+        launchConfigurations[0].name.should.equal(getLaunchSettingsProfileConfigurationName(info[0].projectName, 'https'));
+        launchConfigurations[0].args.should.equal('--verbose');
+        launchConfigurations[0].launchSettingsProfile.should.equal('https');
+        launchConfigurations[0].launchSettingsFilePath.should.equal('${workspaceFolder}/Properties/launchSettings.json');
+        launchConfigurations[0].env.should.deep.equal({ ASPNETCORE_ENVIRONMENT: 'Staging', ASPNETCORE_URLS: 'https://localhost:7001' });
+        launchConfigurations[0].serverReadyAction.uriFormat.should.equal('%s/swagger');
+        checkProgramPath(rootPath, launchConfigurations[0].program, info[0].outputPath);
+    });
+
+    test("Compound launch configurations build the project separately and use distinct ports", () => {
+        let rootPath = path.resolve('testRoot');
+        let info = createMSBuildWorkspaceInformation(path.join(rootPath, 'testApp.csproj'), 'testApp', 'netcoreapp1.0', /*targetPath*/ undefined, /*isExe*/ true, /*isWebProject*/ true);
+        let generator = new AssetGenerator(info, createMockWorkspaceFolder(rootPath));
+        generator.setStartupProject(0);
+        let launchConfiguration = generator.createCompoundLaunchConfiguration(2, /*profiles*/ []);
+        let buildTask = generator.createProjectBuildTaskDescription();
+
+        launchConfiguration.name.should.equal(getCompoundLaunchConfigurationName(info[0].projectName));
+        launchConfiguration.name.should.not.equal(info[0].projectName);
+        launchConfiguration.should.not.have.property('preLaunchTask');
+        launchConfiguration.env.ASPNETCORE_URLS.should.equal('http://localhost:5002');
+        buildTask.args!.slice(0, 2).should.deep.equal(['build', '${workspaceFolder}/testApp.csproj']);
+    });
+
+    test("Compound launch configurations use the URLs of the launchSettings.json profile", () => {
+        let rootPath = path.resolve('testRoot');
+        let info = createMSBuildWorkspaceInformation(path.join(rootPath, 'testApp.csproj'), 'testApp', 'netcoreapp1.0', /*targetPath*/ undefined, /*isExe*/ true, /*isWebProject*/ true);
+        let generator = new AssetGenerator(info, createMockWorkspaceFolder(rootPath));
+        generator.setStartupProject(0);
+        let launchConfiguration = generator.createCompoundLaunchConfiguration(2, [
+            { name: 'IIS Express', commandName: 'IISExpress', applicationUrl: 'http://localhost:8080' },
+            { name: 'https', commandName: 'Project', applicationUrl: 'https://localhost:7001;http://localhost:5001' }
+        ]);
+
+        launchConfiguration.env.ASPNETCORE_URLS.should.equal('https://localhost:7001;http://localhost:5001');
+    });
+
+    test("Configurations of removed launchSettings.json profiles are removed from launch.json", () => {
+        const original = {
+            configurations: [
+                { name: 'testApp: old', launchSettingsProfile: 'old' },
+                { name: 'user configuration' },
+                { name: 'testApp: written by the user' },
+                { name: 'testApp: https', launchSettingsProfile: 'https', args: [] }
+            ]
+        };
+
+        const updatedItem = { name: 'testApp: https', type: 'coreclr', request: 'launch', launchSettingsProfile: 'https', args: '--verbose' };
+        const formattingOptions: FormattingOptions = { tabSize: 4, insertSpaces: true, eol: '\n' };
+        const updated = updateLaunchSettingsProfileConfigurations(JSON.stringify(original), 'testApp', [updatedItem], formattingOptions);
+        const configurations = jsonc.parse(updated).configurations;
+
+        configurations.should.deep.equal([{ name: 'user configuration' }, { name: 'testApp: written by the user' }, updatedItem]);
+    });
 });
 
 function checkProgramPath(rootPath: string, programPath: string, targetPath: string): void {
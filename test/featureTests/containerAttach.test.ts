@@ -0,0 +1,43 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { containerDebuggerPath, createContainerAttachConfiguration, parseContainerList } from '../../src/features/containerAttach';
+import { getProcessIdsFromDiagnosticsEndpoints } from '../../src/features/processPicker';
+import { should } from 'chai';
+
+suite("Container Attach", () => {
+    suiteSetup(() => should());
+
+    test("Parse the running containers", () => {
+        const output = "3f2a1b4c5d6e\tapp-api-1\tmyorg/api:dev\tUp 2 hours\n9e8d7c6b5a4f\tapp-db-1\tpostgres:15\tUp 2 hours (healthy)\n";
+
+        const containers = parseContainerList('podman', output);
+
+        containers.should.deep.equal([
+            { engine: 'podman', id: '3f2a1b4c5d6e', name: 'app-api-1', image: 'myorg/api:dev', status: 'Up 2 hours' },
+            { engine: 'podman', id: '9e8d7c6b5a4f', name: 'app-db-1', image: 'postgres:15', status: 'Up 2 hours (healthy)' },
+        ]);
+    });
+
+    test("The attach configuration executes in the container by name", () => {
+        const container = { engine: 'docker' as const, id: '3f2a1b4c5d6e', name: 'app-api-1', image: 'myorg/api:dev', status: 'Up 2 hours' };
+
+        const configuration = createContainerAttachConfiguration(container, '42');
+
+        configuration.type.should.equal('coreclr');
+        configuration.request.should.equal('attach');
+        configuration.processId.should.equal('42');
+        configuration.pipeTransport.pipeProgram.should.equal('docker');
+        configuration.pipeTransport.pipeArgs.should.deep.equal(['exec', '-i', 'app-api-1']);
+        configuration.pipeTransport.debuggerPath.should.equal(containerDebuggerPath);
+    });
+
+    test("The .NET processes are found by their diagnostics sockets", () => {
+        const tmpFiles = ['dotnet-diagnostic-1-123456-socket', 'clr-debug-pipe-1-123456-in', 'dotnet-diagnostic-27-654321-socket', 'other'];
+
+        [...getProcessIdsFromDiagnosticsEndpoints(tmpFiles, false)].should.deep.equal(['1', '27']);
+        [...getProcessIdsFromDiagnosticsEndpoints(['dotnet-diagnostic-1234', 'lsass'], true)].should.deep.equal(['1234']);
+    });
+});
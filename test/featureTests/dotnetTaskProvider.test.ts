@@ -0,0 +1,33 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { expect } from 'chai';
+import { DotnetTaskProvider, dotnetTaskType } from '../../src/shared/dotnetTaskProvider';
+
+suite("DotnetTaskProvider", () => {
+    const provider = new DotnetTaskProvider({ getWorkspaceDebugInformation: async () => [] });
+
+    test("A dotnet task from tasks.json is resolved to run the command on the project", () => {
+        const projectPath = path.resolve('testRoot', 'testApp.csproj');
+        const task = new vscode.Task({ type: dotnetTaskType, command: 'build', project: projectPath, args: ['--no-restore'] }, vscode.TaskScope.Workspace, 'build', dotnetTaskType);
+
+        const resolvedTask = provider.resolveTask(task)!;
+        const execution = <vscode.ProcessExecution>resolvedTask.execution;
+
+        expect(resolvedTask.name).to.equal('build: testApp');
+        expect(resolvedTask.problemMatchers).to.deep.equal(['$msCompile']);
+        expect(resolvedTask.group).to.equal(vscode.TaskGroup.Build);
+        expect(execution.process).to.equal('dotnet');
+        expect(execution.args).to.deep.equal(['build', projectPath, '/property:GenerateFullPaths=true', '/consoleloggerparameters:NoSummary', '--no-restore']);
+        expect(execution.options?.cwd).to.equal(path.dirname(projectPath));
+    });
+
+    test("A dotnet task with an unknown command is not resolved", () => {
+        const task = new vscode.Task({ type: dotnetTaskType, command: 'watch' }, vscode.TaskScope.Workspace, 'watch', dotnetTaskType);
+        expect(provider.resolveTask(task)).to.be.undefined;
+    });
+});
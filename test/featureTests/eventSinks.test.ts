@@ -0,0 +1,57 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { CSharpEventSinkV1, ProjectEventV1 } from '../../src/CSharpExtensionEvents';
+import { EventSinks, summarizeDiagnostics } from '../../src/shared/eventSinks';
+import { should } from 'chai';
+
+suite("Event Sinks", () => {
+    suiteSetup(() => should());
+
+    test("Registered sinks get the events they handle until they are disposed", () => {
+        const eventSinks = new EventSinks();
+        const loadedProjects: ProjectEventV1[] = [];
+        const sink: CSharpEventSinkV1 = { version: 1, onProjectLoaded: event => loadedProjects.push(event) };
+
+        const registration = eventSinks.register(sink);
+        eventSinks.postProjectLoaded({ server: 'roslyn', projectPath: '/src/App/App.csproj' });
+        eventSinks.postServerStateChanged({ server: 'roslyn', state: 'started' });
+        registration.dispose();
+        eventSinks.postProjectLoaded({ server: 'roslyn', projectPath: '/src/Lib/Lib.csproj' });
+
+        loadedProjects.should.deep.equal([{ server: 'roslyn', projectPath: '/src/App/App.csproj' }]);
+        eventSinks.hasSinks.should.equal(false);
+    });
+
+    test("Sinks of unsupported versions can't be registered", () => {
+        const eventSinks = new EventSinks();
+
+        (() => eventSinks.register(<any>{ version: 2 })).should.throw("Version 2 of the C# extension events is not supported.");
+    });
+
+    test("A sink that throws doesn't keep the other sinks from getting the event", () => {
+        const eventSinks = new EventSinks();
+        const methods: string[] = [];
+        eventSinks.register({ version: 1, onRequestCompleted: () => { throw new Error("Sink failure"); } });
+        eventSinks.register({ version: 1, onRequestCompleted: event => methods.push(event.method) });
+
+        eventSinks.postRequestCompleted({ server: 'omnisharp', method: '/codecheck', durationMs: 12 });
+
+        methods.should.deep.equal(['/codecheck']);
+    });
+
+    test("Only the diagnostics of C# and Razor files are summarized", () => {
+        const diagnostic = (severity: vscode.DiagnosticSeverity) => new vscode.Diagnostic(new vscode.Range(0, 0, 0, 1), 'message', severity);
+        const diagnostics: [vscode.Uri, vscode.Diagnostic[]][] = [
+            [vscode.Uri.file('/src/App/Program.cs'), [diagnostic(vscode.DiagnosticSeverity.Error), diagnostic(vscode.DiagnosticSeverity.Warning)]],
+            [vscode.Uri.file('/src/App/Pages/Index.razor'), [diagnostic(vscode.DiagnosticSeverity.Warning), diagnostic(vscode.DiagnosticSeverity.Information)]],
+            [vscode.Uri.file('/src/App/Empty.cs'), []],
+            [vscode.Uri.file('/src/App/appsettings.json'), [diagnostic(vscode.DiagnosticSeverity.Error)]],
+        ];
+
+        summarizeDiagnostics('roslyn', diagnostics).should.deep.equal({ server: 'roslyn', errorCount: 1, warningCount: 2, infoCount: 1, fileCount: 2 });
+    });
+});
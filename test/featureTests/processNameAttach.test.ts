@@ -0,0 +1,64 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { excludeDotNetWatchHosts, getReattachConfiguration, isAttachByProcessName, matchProcessesByName } from '../../src/features/processNameAttach';
+import { AttachItem } from '../../src/features/processPicker';
+import { should } from 'chai';
+
+suite("Attach by Process Name", () => {
+    suiteSetup(() => should());
+
+    const processes: AttachItem[] = [
+        { label: 'dotnet', id: '1', flags: 0, commandLine: '/usr/share/dotnet/dotnet watch run' },
+        { label: 'MyCompany.WebAp', id: '2', flags: 0, commandLine: '/src/MyCompany.WebApi/bin/Debug/net7.0/MyCompany.WebApi' },
+        { label: 'dotnet', id: '3', flags: 0, commandLine: 'dotnet bin/Debug/net7.0/Worker.dll' },
+        { label: 'Tool.exe', id: '4', flags: 0, commandLine: '"C:\\Program Files\\Tool\\Tool.exe" --verbose' },
+    ];
+
+    test("Processes are matched by name, ignoring case and the .exe extension", () => {
+        matchProcessesByName(processes, { processName: 'tool' }).map(process => process.id).should.deep.equal(['4']);
+    });
+
+    test("Processes are matched by the executable when the name is truncated", () => {
+        matchProcessesByName(processes, { processName: 'MyCompany.WebApi' }).map(process => process.id).should.deep.equal(['2']);
+    });
+
+    test("The regular expression is matched against names and command lines", () => {
+        matchProcessesByName(processes, { processNameRegex: 'Worker\\.dll$' }).map(process => process.id).should.deep.equal(['3']);
+        matchProcessesByName(processes, { processNameRegex: '^dotnet$' }).map(process => process.id).should.deep.equal(['1', '3']);
+    });
+
+    test("The dotnet watch processes are left out unless no other process matches", () => {
+        const watchHosts: AttachItem[] = [
+            processes[0],
+            { label: 'dotnet', id: '5', flags: 0, commandLine: '/usr/share/dotnet/dotnet exec /usr/share/dotnet/sdk/7.0.100/DotnetTools/dotnet-watch/7.0.100/tools/net7.0/any/dotnet-watch.dll run' },
+            { label: 'dotnet.exe', id: '6', flags: 0, commandLine: '"C:\\Program Files\\dotnet\\dotnet.exe" watch run' },
+        ];
+
+        excludeDotNetWatchHosts([...watchHosts, processes[2]]).map(process => process.id).should.deep.equal(['3']);
+        excludeDotNetWatchHosts(watchHosts).map(process => process.id).should.deep.equal(['1', '5', '6']);
+    });
+
+    test("The debugger finds processes by name unless the extension has to wait or reattach", () => {
+        isAttachByProcessName({ name: 'Attach', type: 'coreclr', request: 'attach', processName: 'MyApp' }).should.equal(false);
+        isAttachByProcessName({ name: 'Attach', type: 'coreclr', request: 'attach', processName: 'MyApp', waitForProcess: true }).should.equal(true);
+        isAttachByProcessName({ name: 'Attach', type: 'coreclr', request: 'attach', processNameRegex: 'MyApp' }).should.equal(true);
+        isAttachByProcessName({ name: 'Attach', type: 'coreclr', request: 'attach', processId: '42', processNameRegex: 'MyApp' }).should.equal(false);
+    });
+
+    test("Reattaching waits for a process with the same name", () => {
+        const configuration = { name: 'Attach', type: 'coreclr', request: 'attach', processId: '42', reattachOnRestart: true, __attachedBy: { processName: 'MyApp' } };
+
+        const reattachConfiguration = getReattachConfiguration(configuration);
+
+        reattachConfiguration!.should.deep.equal({ name: 'Attach', type: 'coreclr', request: 'attach', reattachOnRestart: true, waitForProcess: true, processName: 'MyApp' });
+    });
+
+    test("Processes attached to by id are not reattached", () => {
+        const configuration = { name: 'Attach', type: 'coreclr', request: 'attach', processId: '42', reattachOnRestart: true };
+
+        (getReattachConfiguration(configuration) === undefined).should.equal(true);
+    });
+});
@@ -3,7 +3,8 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { RemoteAttachPicker, Process, CimProcessParser } from '../../src/features/processPicker';
+import { RemoteAttachPicker, Process, CimProcessParser, PsOutputParser, formatElapsedTime } from '../../src/features/processPicker';
+import * as os from 'os';
 import { should } from 'chai';
 
 suite("Remote Process Picker: Validate quoting arguments.", () => {
@@ -209,6 +210,63 @@ suite("Remote Process Picker: Validate quoting arguments.", () => {
         process4.name.should.equal('conhost.exe');
         process4.pid.should.equal('33732');
     });
+
+    test('Parse the creation date from CIM output', () => {
+        const creationTime = Date.now() - 90 * 1000;
+        const cimOutput = JSON.stringify([
+            { Name: "dotnet.exe", ProcessId: 1, CommandLine: null, CreationDate: `/Date(${creationTime})/` },
+            { Name: "dotnet.exe", ProcessId: 2, CommandLine: null, CreationDate: new Date(creationTime).toISOString() },
+        ]);
+
+        const parsedOutput: Process[] = CimProcessParser.ParseProcessFromCim(cimOutput);
+
+        parsedOutput.map(process => process.elapsedSeconds).should.deep.equal([90, 90]);
+    });
+
+    test('Parse the owner and runtime of .NET processes from CIM output', () => {
+        const processes: Process[] = [
+            { name: "MyService.exe", pid: "1" },
+            { name: "dotnet.exe", pid: "2" },
+            { name: "SelfContained.exe", pid: "3" },
+        ];
+        const detailsOutput = JSON.stringify([
+            { ProcessId: 1, User: "alice", CoreClrPath: "C:\\Program Files\\dotnet\\shared\\Microsoft.NETCore.App\\7.0.5\\coreclr.dll" },
+            // The owner and modules of processes of other users can't be read without elevation.
+            { ProcessId: 2, User: null, CoreClrPath: null },
+            { ProcessId: 3, User: "bob", CoreClrPath: "C:\\apps\\SelfContained\\coreclr.dll" },
+        ]);
+
+        CimProcessParser.ParseProcessDetailsFromCim(detailsOutput, processes);
+
+        processes.should.deep.equal([
+            { name: "MyService.exe", pid: "1", user: "alice", runtimeVersion: "7.0.5" },
+            { name: "dotnet.exe", pid: "2", user: undefined, runtimeVersion: undefined },
+            { name: "SelfContained.exe", pid: "3", user: "bob", runtimeVersion: undefined },
+        ]);
+    });
+
+    test('Parse ps output with the elapsed time and user', () => {
+        const name = (executable: string) => executable.padEnd(PsOutputParser.secondColumnCharacters - 1);
+        const psOutput = [
+            `    PID F     ELAPSED USER     ${RemoteAttachPicker.commColumnTitle} ARGS`,
+            `  123 0 1-02:03:04 alice    ${name('MyService')} /opt/myservice/MyService --urls http://localhost:5000`,
+            ` 4567 4       05:06 root     ${name('dotnet')} dotnet run`,
+        ].join(os.EOL);
+
+        const parsedOutput: Process[] = PsOutputParser.parseProcessWithDetailsFromPs(psOutput);
+
+        parsedOutput.should.deep.equal([
+            { name: 'MyService', pid: '123', commandLine: '/opt/myservice/MyService --urls http://localhost:5000', flags: 0, elapsedSeconds: 93784, user: 'alice' },
+            { name: 'dotnet', pid: '4567', commandLine: 'dotnet run', flags: 4, elapsedSeconds: 306, user: 'root' },
+        ]);
+    });
+
+    test('Format the elapsed time', () => {
+        formatElapsedTime(42).should.equal('up 42s');
+        formatElapsedTime(306).should.equal('up 5m 6s');
+        formatElapsedTime(7380).should.equal('up 2h 3m');
+        formatElapsedTime(93784).should.equal('up 1d 2h');
+    });
 });
 
 function GetWindowsWSLLaunchJSONWithArrayArgs() {
@@ -0,0 +1,38 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { createTestFailureMessage, splitFullyQualifiedName } from '../../src/shared/testExplorer';
+import { should } from 'chai';
+
+suite("Test Explorer", () => {
+    suiteSetup(() => should());
+
+    test("Fully qualified names are split into namespace, class and method", () => {
+        splitFullyQualifiedName('Company.Tests.MathTests.Add').should.deep.equal({ namespaceName: 'Company.Tests', className: 'MathTests', methodName: 'Add' });
+        splitFullyQualifiedName('MathTests.Add').should.deep.equal({ namespaceName: '', className: 'MathTests', methodName: 'Add' });
+    });
+
+    test("Failure messages include the test case and the stack trace, at the location of the test", () => {
+        const uri = vscode.Uri.file('/src/Tests/MathTests.cs');
+        const range = new vscode.Range(10, 0, 10, 0);
+        const item = <vscode.TestItem><unknown>{ uri, range, label: 'Add' };
+
+        const message = createTestFailureMessage(item, 'Assert.Equal() Failure', '   at MathTests.Add()', 'Add(1, 2)');
+
+        message.message.should.equal('Add(1, 2): Assert.Equal() Failure\n   at MathTests.Add()');
+        message.location!.uri.should.equal(uri);
+        message.location!.range.should.equal(range);
+    });
+
+    test("Failures without an error message get a default one", () => {
+        const item = <vscode.TestItem><unknown>{ label: 'Add' };
+
+        const message = createTestFailureMessage(item, undefined, undefined);
+
+        message.message.should.equal('Test failed.');
+        (message.location === undefined).should.equal(true);
+    });
+});
@@ -13,7 +13,8 @@ export function getEmptyOptions(): Options {
             serverPath: "",
             useOmnisharpServer: true,
             excludePaths: [],
-            defaultSolution: ""
+            defaultSolution: "",
+            enableAutoRestore: false
         },
         {
             useModernNet: false,
@@ -66,6 +67,9 @@ export function getEmptyOptions(): Options {
             logLevel: "",
             documentSelector: ['csharp'],
             extensionsPaths: null,
+            autoInsertDocumentationComments: true,
+            autoInsertRawStringLiterals: true,
+            autoInsertBraceCompletion: true,
         },
         {
             razorDevMode: false,
@@ -4,10 +4,14 @@
  *--------------------------------------------------------------------------------------------*/
 
 import * as chai from 'chai';
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
 import { EventStream } from '../../../src/EventStream';
-import { DownloadFile } from '../../../src/packageManager/FileDownloader';
+import { DownloadFile, DownloadFileToPath } from '../../../src/packageManager/FileDownloader';
 import NetworkSettings from '../../../src/NetworkSettings';
-import { DownloadStart, DownloadSizeObtained, DownloadProgress, DownloadSuccess, DownloadFallBack, DownloadFailure } from '../../../src/omnisharp/loggingEvents';
+import { DownloadStart, DownloadSizeObtained, DownloadProgress, DownloadSuccess, DownloadFallBack, DownloadFailure, DownloadResume } from '../../../src/omnisharp/loggingEvents';
+import { CreateTmpDir, TmpAsset } from '../../../src/CreateTmpAsset';
 import MockHttpsServer from '../testAssets/MockHttpsServer';
 import TestEventBus from '../testAssets/TestEventBus';
 
@@ -20,6 +24,7 @@ suite("FileDownloader", () => {
     const correctUrlPath = `/resource`;
     const redirectUrlPath = '/redirectResource';
     const errorUrlPath = '/errorResource';
+    const rangeUrlPath = '/rangeResource';
     const networkSettingsProvider = () => new NetworkSettings('', false);
     const eventStream = new EventStream();
     let eventBus: TestEventBus;
@@ -50,6 +55,10 @@ suite("FileDownloader", () => {
         server.addRequestHandler('GET', correctUrlPath, 200, { "content-type": "text/plain" }, "Test content");
         server.addRequestHandler('GET', errorUrlPath, 404);
         server.addRequestHandler('GET', redirectUrlPath, 301, { "location": `${server.baseUrl}${correctUrlPath}` });
+        server.addRequestHandler('GET', rangeUrlPath,
+            (request: any) => request.headers.range !== undefined ? 206 : 200,
+            { "content-type": "text/plain" },
+            (request: any) => "Test content".substring(getRangeStart(request)));
     });
 
     suite('If the response status Code is 200, the download succeeds', () => {
@@ -115,6 +124,57 @@ suite("FileDownloader", () => {
         });
     });
 
+    suite('If the file is downloaded to disk', () => {
+        let tmpDir: TmpAsset;
+        let filePath: string;
+
+        setup(async () => {
+            tmpDir = await CreateTmpDir(true);
+            filePath = path.join(tmpDir.name, 'resource');
+        });
+
+        test('File is downloaded', async () => {
+            await DownloadFileToPath(fileDescription, eventStream, networkSettingsProvider, filePath, getURL(correctUrlPath));
+            expect(fs.readFileSync(filePath, 'utf8')).to.be.equal("Test content");
+            expect(eventBus.getEvents()).to.be.deep.equal(getPrimaryURLEvents());
+        });
+
+        test('A partial download is resumed if the server supports range requests', async () => {
+            fs.writeFileSync(filePath, "Test ");
+            await DownloadFileToPath(fileDescription, eventStream, networkSettingsProvider, filePath, getURL(rangeUrlPath));
+            expect(fs.readFileSync(filePath, 'utf8')).to.be.equal("Test content");
+            expect(eventBus.getEvents()).to.be.deep.equal([
+                new DownloadStart(fileDescription),
+                new DownloadResume(fileDescription, 5),
+                new DownloadSizeObtained(12),
+                new DownloadProgress(100, fileDescription),
+                new DownloadSuccess(' Done!')]);
+        });
+
+        test('A partial download is replaced if the server does not support range requests', async () => {
+            fs.writeFileSync(filePath, "Test ");
+            await DownloadFileToPath(fileDescription, eventStream, networkSettingsProvider, filePath, getURL(correctUrlPath));
+            expect(fs.readFileSync(filePath, 'utf8')).to.be.equal("Test content");
+        });
+
+        test('A local file is copied', async () => {
+            const sourcePath = path.join(tmpDir.name, 'source');
+            fs.writeFileSync(sourcePath, "Test content");
+            await DownloadFileToPath(fileDescription, eventStream, networkSettingsProvider, filePath, pathToFileURL(sourcePath).toString());
+            expect(fs.readFileSync(filePath, 'utf8')).to.be.equal("Test content");
+            expect(eventBus.getEvents()).to.be.deep.equal(getPrimaryURLEvents());
+        });
+
+        test('A missing local file fails the download', async () => {
+            const downloadPromise = DownloadFileToPath(fileDescription, eventStream, networkSettingsProvider, filePath, pathToFileURL(path.join(tmpDir.name, 'missing')).toString());
+            await expect(downloadPromise).to.be.rejected;
+        });
+
+        teardown(() => {
+            tmpDir.dispose();
+        });
+    });
+
     teardown(async () => {
         await server.stop();
         eventBus.dispose();
@@ -123,4 +183,9 @@ suite("FileDownloader", () => {
     function getURL(urlPath: string) {
         return `${server.baseUrl}${urlPath}`;
     }
+
+    function getRangeStart(request: any) {
+        const match = /^bytes=(\d+)-$/.exec(request.headers.range ?? '');
+        return match !== null ? parseInt(match[1], 10) : 0;
+    }
 });
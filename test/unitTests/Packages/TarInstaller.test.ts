@@ -0,0 +1,149 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as archiver from 'archiver';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import * as chai from 'chai';
+import { CreateTmpDir, CreateTmpFile, TmpAsset } from '../../../src/CreateTmpAsset';
+import { getTarCompression, InstallTar } from '../../../src/packageManager/TarInstaller';
+import { EventStream } from '../../../src/EventStream';
+import { PlatformInformation } from '../../../src/shared/platform';
+import { BaseEvent, InstallationStart } from '../../../src/omnisharp/loggingEvents';
+import TestEventBus from '../testAssets/TestEventBus';
+import { AbsolutePath } from '../../../src/packageManager/AbsolutePath';
+
+chai.use(require("chai-as-promised"));
+let expect = chai.expect;
+
+suite('TarInstaller', () => {
+    let tmpInstallDir: TmpAsset;
+    let tmpArchiveFile: TmpAsset;
+    let installationPath: AbsolutePath;
+    const fileDescription = "somefile";
+    let eventStream: EventStream;
+    let eventBus: TestEventBus;
+
+    setup(async () => {
+        eventStream = new EventStream();
+        eventBus = new TestEventBus(eventStream);
+        tmpInstallDir = await CreateTmpDir(true);
+        installationPath = new AbsolutePath(tmpInstallDir.name);
+        tmpArchiveFile = await CreateTmpFile();
+    });
+
+    async function writeArchive(archive: Buffer): Promise<string> {
+        await fs.promises.writeFile(tmpArchiveFile.name, archive);
+        return tmpArchiveFile.name;
+    }
+
+    test('Tar archives are recognized by the extension of their url', () => {
+        expect(getTarCompression("https://example.com/server-linux-x64.tar.gz")).to.be.equal('gzip');
+        expect(getTarCompression("https://example.com/server-linux-x64.tgz?sig=1")).to.be.equal('gzip');
+        expect(getTarCompression("https://example.com/server-linux-x64.tar.xz")).to.be.equal('xz');
+        expect(getTarCompression("https://example.com/server-linux-x64.zip")).to.be.undefined;
+    });
+
+    test('The files are extracted with their permissions and the expected events are created', async () => {
+        const archive = await createTarGz(tar => {
+            tar.append("file1", { name: "file1.txt", mode: 0o644 });
+            tar.append("binary", { name: "folder/binary", mode: 0o755 });
+        });
+
+        await InstallTar(await writeArchive(archive), 'gzip', fileDescription, installationPath, [], eventStream);
+
+        expect(fs.readFileSync(path.join(installationPath.value, "file1.txt"), 'utf8')).to.be.equal("file1");
+        expect(fs.readFileSync(path.join(installationPath.value, "folder", "binary"), 'utf8')).to.be.equal("binary");
+        if (!(await PlatformInformation.GetCurrent()).isWindows()) {
+            expect(fs.statSync(path.join(installationPath.value, "file1.txt")).mode & 0o7777).to.be.equal(0o644);
+            expect(fs.statSync(path.join(installationPath.value, "folder", "binary")).mode & 0o7777).to.be.equal(0o755);
+        }
+
+        let eventSequence: BaseEvent[] = [
+            new InstallationStart(fileDescription)
+        ];
+        expect(eventBus.getEvents()).to.be.deep.equal(eventSequence);
+    });
+
+    test('The entry of the archived folder itself is extracted to the install path', async () => {
+        const archive = await createTarGz(tar => {
+            tar.append(Buffer.alloc(0), { name: "./" });
+            tar.append("file1", { name: "./file1.txt" });
+        });
+
+        await InstallTar(await writeArchive(archive), 'gzip', fileDescription, installationPath, [], eventStream);
+
+        expect(fs.readFileSync(path.join(installationPath.value, "file1.txt"), 'utf8')).to.be.equal("file1");
+    });
+
+    test('Symbolic links are preserved (except on Windows)', async () => {
+        if (!(await PlatformInformation.GetCurrent()).isWindows()) {
+            const archive = await createTarGz(tar => {
+                tar.append("library", { name: "lib/library.so.1" });
+                tar.symlink("lib/library.so", "library.so.1");
+            });
+
+            await InstallTar(await writeArchive(archive), 'gzip', fileDescription, installationPath, [], eventStream);
+
+            const linkPath = path.join(installationPath.value, "lib", "library.so");
+            expect(fs.readlinkSync(linkPath)).to.be.equal("library.so.1");
+            expect(fs.readFileSync(linkPath, 'utf8')).to.be.equal("library");
+        }
+    });
+
+    test('Links outside of the install path are rejected', async () => {
+        const archive = await createTarGz(tar => tar.symlink("escape", "../../outside"));
+        await expect(InstallTar(await writeArchive(archive), 'gzip', fileDescription, installationPath, [], eventStream)).to.be.rejected;
+    });
+
+    test('Links extracted earlier can not be used to write outside of the install path (except on Windows)', async () => {
+        if (!(await PlatformInformation.GetCurrent()).isWindows()) {
+            const nestedInstallationPath = new AbsolutePath(path.join(tmpInstallDir.name, "install"));
+            const archive = await createTarGz(tar => {
+                tar.symlink("a", ".");
+                tar.symlink("a/b", "..");
+                tar.append("evil", { name: "a/b/evil" });
+            });
+
+            await expect(InstallTar(await writeArchive(archive), 'gzip', fileDescription, nestedInstallationPath, [], eventStream)).to.be.rejected;
+            expect(fs.existsSync(path.join(tmpInstallDir.name, "evil"))).to.be.false;
+        }
+    });
+
+    test('Error is thrown when the file contains an invalid archive', async () => {
+        fs.writeFileSync(tmpArchiveFile.name, "My file", "utf8");
+        await expect(InstallTar(tmpArchiveFile.name, 'gzip', "Text File", installationPath, [], eventStream)).to.be.rejected;
+    });
+
+    test('Error is thrown when the archive ends within an entry', async () => {
+        const archive = await createTarGz(tar => tar.append("a".repeat(2048), { name: "file1.txt" }));
+        fs.writeFileSync(tmpArchiveFile.name, zlib.gzipSync(zlib.gunzipSync(archive).subarray(0, 1024)));
+
+        await expect(InstallTar(tmpArchiveFile.name, 'gzip', fileDescription, installationPath, [], eventStream)).to.be.rejectedWith('The tar archive is corrupt: unexpected end of archive');
+    });
+
+    teardown(async () => {
+        if (tmpInstallDir) {
+            tmpInstallDir.dispose();
+        }
+        if (tmpArchiveFile) {
+            tmpArchiveFile.dispose();
+        }
+        eventBus.dispose();
+    });
+});
+
+async function createTarGz(addEntries: (archive: archiver.Archiver) => void): Promise<Buffer> {
+    let buffers: Buffer[] = [];
+    return new Promise<Buffer>((resolve, reject) => {
+        let archive = archiver('tar', { gzip: true });
+        archive.on('data', data => buffers.push(data));
+        archive.on('error', reject);
+        archive.on('end', () => resolve(Buffer.concat(buffers)));
+        addEntries(archive);
+        archive.finalize();
+    });
+}
@@ -7,7 +7,7 @@ import * as fs from 'async-file';
 import * as path from 'path';
 import * as chai from 'chai';
 import * as util from '../../../src/common';
-import { CreateTmpDir, TmpAsset } from '../../../src/CreateTmpAsset';
+import { CreateTmpDir, CreateTmpFile, TmpAsset } from '../../../src/CreateTmpAsset';
 import { InstallZip } from '../../../src/packageManager/ZipInstaller';
 import { EventStream } from '../../../src/EventStream';
 import { PlatformInformation } from '../../../src/shared/platform';
@@ -32,6 +32,7 @@ suite('ZipInstaller', () => {
     ];
 
     let tmpInstallDir: TmpAsset;
+    let tmpZipFile: TmpAsset;
     let installationPath: AbsolutePath;
     let testZip: TestZip;
     const fileDescription = "somefile";
@@ -44,11 +45,13 @@ suite('ZipInstaller', () => {
         tmpInstallDir = await CreateTmpDir(true);
         installationPath = new AbsolutePath(tmpInstallDir.name);
         testZip = await TestZip.createTestZipAsync(...files, ...binaries);
+        tmpZipFile = await CreateTmpFile();
+        await fs.writeFile(tmpZipFile.name, testZip.buffer);
         util.setExtensionPath(tmpInstallDir.name);
     });
 
     test('The folder is unzipped and all the files are present at the expected paths', async () => {
-        await InstallZip(testZip.buffer, fileDescription, installationPath, [], eventStream);
+        await InstallZip(tmpZipFile.name, fileDescription, installationPath, [], eventStream);
         for (let elem of testZip.files) {
             let filePath = path.join(installationPath.value, elem.path);
             expect(await util.fileExists(filePath)).to.be.true;
@@ -56,7 +59,7 @@ suite('ZipInstaller', () => {
     });
 
     test('The folder is unzipped and all the expected events are created', async () => {
-        await InstallZip(testZip.buffer, fileDescription, installationPath, [], eventStream);
+        await InstallZip(tmpZipFile.name, fileDescription, installationPath, [], eventStream);
         let eventSequence: BaseEvent[] = [
             new InstallationStart(fileDescription)
         ];
@@ -66,7 +69,7 @@ suite('ZipInstaller', () => {
     test('The folder is unzipped and the binaries have the expected permissions(except on Windows)', async () => {
         if (!((await PlatformInformation.GetCurrent()).isWindows())) {
             let absoluteBinaries = binaries.map(binary => AbsolutePath.getAbsolutePath(installationPath.value, binary.path));
-            await InstallZip(testZip.buffer, fileDescription, installationPath, absoluteBinaries, eventStream);
+            await InstallZip(tmpZipFile.name, fileDescription, installationPath, absoluteBinaries, eventStream);
             for (let binaryPath of absoluteBinaries) {
                 expect(await util.fileExists(binaryPath.value)).to.be.true;
                 let mode = (await fs.stat(binaryPath.value)).mode;
@@ -75,13 +78,15 @@ suite('ZipInstaller', () => {
         }
     });
 
-    test('Error is thrown when the buffer contains an invalid zip', async () => {
-        expect(InstallZip(Buffer.from("My file", "utf8"), "Text File", installationPath, [], eventStream)).to.be.rejected;
+    test('Error is thrown when the file contains an invalid zip', async () => {
+        await fs.writeFile(tmpZipFile.name, "My file", "utf8");
+        expect(InstallZip(tmpZipFile.name, "Text File", installationPath, [], eventStream)).to.be.rejected;
     });
 
-    test('Error event is created when the buffer contains an invalid zip', async () => {
+    test('Error event is created when the file contains an invalid zip', async () => {
+        await fs.writeFile(tmpZipFile.name, "some content", "utf8");
         try {
-            await InstallZip(Buffer.from("some content", "utf8"), "Text File", installationPath, [], eventStream);
+            await InstallZip(tmpZipFile.name, "Text File", installationPath, [], eventStream);
         }
         catch{
             let eventSequence: BaseEvent[] = [
@@ -96,6 +101,9 @@ suite('ZipInstaller', () => {
         if (tmpInstallDir) {
             tmpInstallDir.dispose();
         }
+        if (tmpZipFile) {
+            tmpZipFile.dispose();
+        }
         eventBus.dispose();
     });
 });
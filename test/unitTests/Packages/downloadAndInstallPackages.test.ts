@@ -3,7 +3,9 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
+import * as fs from 'fs-extra';
 import * as path from 'path';
+import { spawnSync } from 'child_process';
 import * as chaiAsPromised from 'chai-as-promised';
 import * as chai from "chai";
 import * as util from '../../../src/common';
@@ -12,7 +14,7 @@ import TestZip from '../testAssets/TestZip';
 import { downloadAndInstallPackages } from '../../../src/packageManager/downloadAndInstallPackages';
 import NetworkSettings from '../../../src/NetworkSettings';
 import { EventStream } from '../../../src/EventStream';
-import { DownloadStart, DownloadSizeObtained, DownloadProgress, DownloadSuccess, InstallationStart, PackageInstallStart, IntegrityCheckFailure, DownloadFailure, InstallationFailure } from '../../../src/omnisharp/loggingEvents';
+import { DownloadStart, DownloadSizeObtained, DownloadProgress, DownloadSuccess, InstallationStart, PackageInstallStart, IntegrityCheckFailure, DownloadFailure, InstallationFailure, DownloadCacheHit } from '../../../src/omnisharp/loggingEvents';
 import MockHttpsServer from '../testAssets/MockHttpsServer';
 import { createTestFile } from '../testAssets/TestFile';
 import TestEventBus from '../testAssets/TestEventBus';
@@ -32,7 +34,7 @@ suite(`${downloadAndInstallPackages.name}`, () => {
     let eventBus: TestEventBus;
     let downloadablePackage: AbsolutePathPackage[];
     let notDownloadablePackage: AbsolutePathPackage[];
-    let downloadValidator: DownloadValidator = () => true;
+    let downloadValidator: DownloadValidator = async () => true;
 
     const packageDescription = "Test Package";
     const networkSettingsProvider = () => new NetworkSettings('', false);
@@ -97,7 +99,7 @@ suite(`${downloadAndInstallPackages.name}`, () => {
 
         test("If the download validation fails for the first time and passed second time, the correct events are logged", async () => {
             let count = 1;
-            let downloadValidator = () => {
+            let downloadValidator = async () => {
                 if (count > 1) {
                     return true; // fail the first time and then pass the subsequent times
                 }
@@ -125,9 +127,102 @@ suite(`${downloadAndInstallPackages.name}`, () => {
         });
     });
 
+    suite("If a cache directory is given", () => {
+        let tmpCacheDir: TmpAsset;
+        let cachedPackage: AbsolutePathPackage[];
+
+        setup(async () => {
+            tmpCacheDir = await CreateTmpDir(true);
+            cachedPackage = [{ ...downloadablePackage[0], integrity: "abc123" }];
+        });
+
+        test("The download is stored in the cache under its integrity", async () => {
+            await downloadAndInstallPackages(cachedPackage, networkSettingsProvider, eventStream, downloadValidator, tmpCacheDir.name);
+            expect(await util.fileExists(path.join(tmpCacheDir.name, "ABC123"))).to.be.true;
+        });
+
+        test("Installing the package again uses the cached download", async () => {
+            await downloadAndInstallPackages(cachedPackage, networkSettingsProvider, eventStream, downloadValidator, tmpCacheDir.name);
+            await util.deleteInstallFile(cachedPackage[0].installPath, util.InstallFileType.Lock);
+            eventBus.dispose();
+            eventBus = new TestEventBus(eventStream);
+
+            await downloadAndInstallPackages(cachedPackage, networkSettingsProvider, eventStream, downloadValidator, tmpCacheDir.name);
+            expect(eventBus.getEvents()).to.be.deep.equal([
+                new PackageInstallStart(),
+                new DownloadCacheHit(packageDescription),
+                new InstallationStart(packageDescription)
+            ]);
+            expect(await util.fileExists(path.join(tmpDirPath, "install.Lock"))).to.be.true;
+        });
+
+        test("A cached download that fails validation is downloaded again", async () => {
+            await downloadAndInstallPackages(cachedPackage, networkSettingsProvider, eventStream, downloadValidator, tmpCacheDir.name);
+            let validations = 0;
+            let failFirstValidator = async () => validations++ > 0;
+            eventBus.dispose();
+            eventBus = new TestEventBus(eventStream);
+
+            await downloadAndInstallPackages(cachedPackage, networkSettingsProvider, eventStream, failFirstValidator, tmpCacheDir.name);
+            expect(eventBus.getEvents()).to.be.deep.equal([
+                new PackageInstallStart(),
+                new DownloadCacheHit(packageDescription),
+                new DownloadStart(packageDescription),
+                new DownloadSizeObtained(testZip.size),
+                new DownloadProgress(100, packageDescription),
+                new DownloadSuccess(' Done!'),
+                new InstallationStart(packageDescription)
+            ]);
+        });
+
+        test("A partial download locked by another running process is left alone", async () => {
+            const partialPath = path.join(tmpCacheDir.name, "ABC123.partial");
+            await fs.writeFile(path.join(tmpCacheDir.name, "ABC123.lock"), `${process.ppid}`);
+            await fs.writeFile(partialPath, "partial");
+
+            expect(await downloadAndInstallPackages(cachedPackage, networkSettingsProvider, eventStream, downloadValidator, tmpCacheDir.name)).to.be.true;
+            expect(await fs.readFile(partialPath, 'utf8')).to.equal("partial");
+            expect(await util.fileExists(path.join(tmpCacheDir.name, "ABC123.lock"))).to.be.true;
+            expect(await util.fileExists(path.join(tmpDirPath, "install.Lock"))).to.be.true;
+        });
+
+        test("A lock left behind by a process that no longer runs is taken over", async () => {
+            const exitedPid = spawnSync(process.execPath, ['-e', '']).pid;
+            await fs.writeFile(path.join(tmpCacheDir.name, "ABC123.lock"), `${exitedPid}`);
+
+            expect(await downloadAndInstallPackages(cachedPackage, networkSettingsProvider, eventStream, downloadValidator, tmpCacheDir.name)).to.be.true;
+            expect(await util.fileExists(path.join(tmpCacheDir.name, "ABC123"))).to.be.true;
+            expect(await util.fileExists(path.join(tmpCacheDir.name, "ABC123.lock"))).to.be.false;
+        });
+
+        teardown(() => {
+            tmpCacheDir.dispose();
+        });
+    });
+
+    suite("Multiple packages", () => {
+        test("Each package is installed", async () => {
+            let otherInstallDir = await CreateTmpDir(true);
+            try {
+                let packages = [downloadablePackage[0], { ...downloadablePackage[0], installPath: new AbsolutePath(otherInstallDir.name) }];
+                expect(await downloadAndInstallPackages(packages, networkSettingsProvider, eventStream, downloadValidator)).to.be.true;
+                expect(await util.fileExists(path.join(tmpDirPath, "install.Lock"))).to.be.true;
+                expect(await util.fileExists(path.join(otherInstallDir.name, "install.Lock"))).to.be.true;
+            }
+            finally {
+                otherInstallDir.dispose();
+            }
+        });
+
+        test("Returns false if any package fails", async () => {
+            let packages = [downloadablePackage[0], notDownloadablePackage[0]];
+            expect(await downloadAndInstallPackages(packages, networkSettingsProvider, eventStream, downloadValidator)).to.be.false;
+        });
+    });
+
     suite("If the download and install fails", () => {
         test("If the download succeeds but the validation fails, events are logged", async () => {
-            let downloadValidator = () => false;
+            let downloadValidator = async () => false;
             let eventsSequence = [
                 new PackageInstallStart(),
                 new DownloadStart(packageDescription),
@@ -3,9 +3,11 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { isValidDownload } from "../../../src/packageManager/isValidDownload";
+import { isValidDownload, isValidDownloadFile } from "../../../src/packageManager/isValidDownload";
 import * as chai from "chai";
 import { EventStream } from "../../../src/EventStream";
+import { CreateTmpFile, TmpAsset } from "../../../src/CreateTmpAsset";
+import * as fs from "fs-extra";
 
 chai.should();
 const expect = chai.expect;
@@ -28,4 +30,28 @@ suite(`${isValidDownload.name}`, () => {
         let result = await isValidDownload(sampleBuffer, undefined, new EventStream());
         expect(result).to.be.true;
     });
-});
\ No newline at end of file
+});
+
+suite(`${isValidDownloadFile.name}`, () => {
+    const validIntegrity = "eb7201b5d986919e0ac67c820886358869d8f7059193d33c902ad7fe1688e1e9";
+    let tmpFile: TmpAsset;
+
+    setup(async () => {
+        tmpFile = await CreateTmpFile();
+        await fs.writeFile(tmpFile.name, "sampleBuffer");
+    });
+
+    test('Returns false for non-matching integrity', async () => {
+        let result = await isValidDownloadFile(tmpFile.name, "inValidIntegrity", new EventStream());
+        expect(result).to.be.false;
+    });
+
+    test('Returns true for matching integrity', async () => {
+        let result = await isValidDownloadFile(tmpFile.name, validIntegrity, new EventStream());
+        expect(result).to.be.true;
+    });
+
+    teardown(() => {
+        tmpFile.dispose();
+    });
+});
@@ -0,0 +1,41 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import { expect } from 'chai';
+import { fileURLToPath } from 'url';
+import { getLocalPackageUrl, getPackagesFromLocalSource } from '../../../src/packageManager/localPackageSource';
+import { AbsolutePathPackage } from '../../../src/packageManager/AbsolutePathPackage';
+import { AbsolutePath } from '../../../src/packageManager/AbsolutePath';
+
+suite("localPackageSource", () => {
+    const packageUrl = "https://download.example.com/packages/omnisharp-linux-x64-1.39.7.zip";
+
+    test("Packages are looked up by file name in a directory", () => {
+        const directory = path.resolve("packages");
+        const url = getLocalPackageUrl(packageUrl, directory);
+        expect(fileURLToPath(url)).to.equal(path.join(directory, "omnisharp-linux-x64-1.39.7.zip"));
+    });
+
+    test("Packages are looked up by file name on a mirror", () => {
+        expect(getLocalPackageUrl(packageUrl, "http://mirror.local/csharp/")).to.equal("http://mirror.local/csharp/omnisharp-linux-x64-1.39.7.zip");
+        expect(getLocalPackageUrl("https://example.com/a%20b.zip?x=1", "https://mirror.local")).to.equal("https://mirror.local/a%20b.zip");
+    });
+
+    test("Packages from a local source keep their integrity and have no fallback", () => {
+        const pkg = new AbsolutePathPackage("Debugger", "Debugger", packageUrl, [], [], new AbsolutePath(path.resolve("debugger")), undefined, undefined, "https://fallback.example.com/debugger.zip", undefined, "ABC123");
+        const [localPackage] = getPackagesFromLocalSource([pkg], "https://mirror.local");
+
+        expect(localPackage.url).to.equal("https://mirror.local/omnisharp-linux-x64-1.39.7.zip");
+        expect(localPackage.fallbackUrl).to.be.undefined;
+        expect(localPackage.integrity).to.equal("ABC123");
+        expect(localPackage.installPath).to.equal(pkg.installPath);
+    });
+
+    test("Packages are unchanged without a local source", () => {
+        const packages = [new AbsolutePathPackage("Debugger", "Debugger", packageUrl, [], [], new AbsolutePath(path.resolve("debugger")))];
+        expect(getPackagesFromLocalSource(packages, " ")).to.equal(packages);
+    });
+});
@@ -5,7 +5,7 @@
 
 import * as path from 'path';
 
-import { isSubfolderOf, safeLength, sum } from '../../src/common';
+import { isSubfolderOf, mapAsyncWithConcurrency, safeLength, sum } from '../../src/common';
 
 import { should, expect } from 'chai';
 
@@ -52,6 +52,23 @@ suite("Common", () => {
         });
     });
 
+    suite("mapAsyncWithConcurrency", () => {
+        test("produce results in order with at most the given number of selectors running", async () => {
+            let running = 0;
+            let maxRunning = 0;
+            let result = await mapAsyncWithConcurrency([30, 10, 20, 0, 10], 2, async delay => {
+                running++;
+                maxRunning = Math.max(maxRunning, running);
+                await new Promise(resolve => setTimeout(resolve, delay));
+                running--;
+                return delay * 2;
+            });
+
+            result.should.deep.equal([60, 20, 40, 0, 20]);
+            maxRunning.should.equal(2);
+        });
+    });
+
     suite("isSubfolderOf", () => {
         test("same paths", () => {
             let subfolder: string = ["C:", "temp", "VS", "dotnetProject"].join(path.sep);
@@ -0,0 +1,80 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { DebuggerEventsProtocol } from '../../../src/coreclr-debug/debuggerEventsProtocol';
+import { DebuggerEventsSummary } from '../../../src/coreclr-debug/debuggerEventsSummary';
+
+import { expect } from 'chai';
+
+suite("Debugger Events", () => {
+    suite("splitPackets", () => {
+        test("Data with several packets is split after each newline", () => {
+            const { packets, remainder } = DebuggerEventsProtocol.splitPackets(Buffer.from('{"eventType":"starting"}\n{"eventType":"processLaunched","targetProcessId":42}\n'));
+
+            expect(packets.map(packet => DebuggerEventsProtocol.decodePacket(packet))).to.deep.equal([
+                { eventType: "starting" },
+                { eventType: "processLaunched", targetProcessId: 42 },
+            ]);
+            expect(remainder.length).to.equal(0);
+        });
+
+        test("An incomplete packet is returned as the remainder", () => {
+            const { packets, remainder } = DebuggerEventsProtocol.splitPackets(Buffer.from('{"eventType":"starting"}\n{"eventType":"debugg'));
+
+            expect(packets.length).to.equal(1);
+            expect(remainder.toString()).to.equal('{"eventType":"debugg');
+        });
+    });
+
+    suite("DebuggerEventsSummary", () => {
+        const exception = (exceptionType: string, message: string, isUnhandled: boolean): DebuggerEventsProtocol.ExceptionThrownEvent =>
+            ({ eventType: DebuggerEventsProtocol.EventType.ExceptionThrown, exceptionType, message, isUnhandled });
+
+        test("A process that exits successfully without exceptions is not described", () => {
+            const summary = new DebuggerEventsSummary();
+            summary.add(<DebuggerEventsProtocol.ProcessLaunchedEvent>{ eventType: DebuggerEventsProtocol.EventType.ProcessLaunched, targetProcessId: 42 });
+            summary.add(<DebuggerEventsProtocol.ProcessExitedEvent>{ eventType: DebuggerEventsProtocol.EventType.ProcessExited, targetProcessId: 42, exitCode: 0 });
+
+            expect(summary.exitedWithError).to.equal(false);
+            expect(summary.describe("Console App")).to.deep.equal([]);
+        });
+
+        test("A crashing process is described with its modules and exceptions", () => {
+            const summary = new DebuggerEventsSummary();
+            summary.add(<DebuggerEventsProtocol.ProcessLaunchedEvent>{ eventType: DebuggerEventsProtocol.EventType.ProcessLaunched, targetProcessId: 42 });
+            summary.add(<DebuggerEventsProtocol.ModuleLoadedEvent>{ eventType: DebuggerEventsProtocol.EventType.ModuleLoaded, moduleName: "System.Private.CoreLib.dll" });
+            summary.add(<DebuggerEventsProtocol.ModuleLoadedEvent>{ eventType: DebuggerEventsProtocol.EventType.ModuleLoaded, moduleName: "App.dll" });
+            summary.add(exception("System.IO.FileNotFoundException", "Could not find file 'a.json'.", false));
+            summary.add(exception("System.FormatException", "Input string was not in a correct format.", false));
+            summary.add(exception("System.IO.FileNotFoundException", "Could not find file 'b.json'.", false));
+            summary.add(exception("System.IO.FileNotFoundException", "Could not find file 'b.json'.", true));
+            summary.add(<DebuggerEventsProtocol.ProcessExitedEvent>{ eventType: DebuggerEventsProtocol.EventType.ProcessExited, targetProcessId: 42, exitCode: -532462766 });
+
+            expect(summary.describe("Console App")).to.deep.equal([
+                "'Console App' (process 42) exited with code -532462766 (0xE0434352).",
+                "The process exited before the debugger stopped in it.",
+                "Modules loaded: 2, the last one being App.dll.",
+                "Unhandled exceptions:",
+                "    1 × System.IO.FileNotFoundException: Could not find file 'b.json'.",
+                "First-chance exceptions:",
+                "    2 × System.IO.FileNotFoundException: Could not find file 'a.json'.",
+                "    1 × System.FormatException: Input string was not in a correct format.",
+            ]);
+        });
+
+        test("The exceptions of a process that stopped in the debugger are described", () => {
+            const summary = new DebuggerEventsSummary();
+            summary.hasStopped = true;
+            summary.add(exception("System.InvalidOperationException", "Sequence contains no elements", false));
+            summary.add(<DebuggerEventsProtocol.ProcessExitedEvent>{ eventType: DebuggerEventsProtocol.EventType.ProcessExited, targetProcessId: 7, exitCode: 1 });
+
+            expect(summary.describe("Web App")).to.deep.equal([
+                "'Web App' (process 7) exited with code 1 (0x1).",
+                "First-chance exceptions:",
+                "    1 × System.InvalidOperationException: Sequence contains no elements",
+            ]);
+        });
+    });
+});
@@ -0,0 +1,74 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as protocol from '../../../src/omnisharp/protocol';
+import { getTestMethodName, getTestOutcome, groupResultsByMethod, TestDurations, waitForDebuggedTestResults } from '../../../src/features/dotnetTestResults';
+import { expect } from 'chai';
+
+function testResult(methodName: string, outcome: string): protocol.V2.DotNetTestResult {
+    return { MethodName: methodName, Outcome: outcome, ErrorMessage: '', ErrorStackTrace: '', StandardOutput: [], StandardError: [] };
+}
+
+suite("DotnetTestResults", () => {
+    test("The arguments of parameterized tests are removed from their name", () => {
+        expect(getTestMethodName('Tests.MathTests.Add(1, 2)')).to.equal('Tests.MathTests.Add');
+        expect(getTestMethodName('Tests.MathTests.Subtract')).to.equal('Tests.MathTests.Subtract');
+    });
+
+    test("The results of the cases of a parameterized test are grouped by method", () => {
+        const results = [
+            testResult('Tests.MathTests.Add(1, 2)', protocol.V2.TestOutcomes.Passed),
+            testResult('Tests.MathTests.Subtract', protocol.V2.TestOutcomes.Failed),
+            testResult('Tests.MathTests.Add(2, 3)', protocol.V2.TestOutcomes.Failed),
+        ];
+
+        const resultsByMethod = groupResultsByMethod(results);
+
+        expect([...resultsByMethod.keys()]).to.deep.equal(['Tests.MathTests.Add', 'Tests.MathTests.Subtract']);
+        expect(resultsByMethod.get('Tests.MathTests.Add')).to.deep.equal([results[0], results[2]]);
+    });
+
+    test("A method fails if any of its cases failed", () => {
+        const outcome = getTestOutcome([
+            testResult('Tests.MathTests.Add(1, 2)', protocol.V2.TestOutcomes.Passed),
+            testResult('Tests.MathTests.Add(2, 3)', protocol.V2.TestOutcomes.Failed),
+        ]);
+
+        expect(outcome).to.equal('failed');
+    });
+
+    test("A method is skipped only if all of its cases were skipped", () => {
+        expect(getTestOutcome([testResult('Tests.A', protocol.V2.TestOutcomes.Skipped)])).to.equal('skipped');
+        expect(getTestOutcome([
+            testResult('Tests.A(1)', protocol.V2.TestOutcomes.Skipped),
+            testResult('Tests.A(2)', protocol.V2.TestOutcomes.Passed),
+        ])).to.equal('passed');
+    });
+
+    test("The duration of each test is the time since the previous test completed", () => {
+        const durations = new TestDurations(1000);
+
+        durations.complete('Tests.MathTests.Add(1, 2)', 1500);
+        durations.complete('Tests.MathTests.Subtract', 1600);
+        durations.complete('Tests.MathTests.Add(2, 3)', 1650);
+
+        expect(durations.get('Tests.MathTests.Add')).to.equal(550);
+        expect(durations.get('Tests.MathTests.Subtract')).to.equal(100);
+        expect(durations.get('Tests.MathTests.Multiply')).to.equal(undefined);
+    });
+
+    test("The results of a debugged run are waited for", async () => {
+        const results = [testResult('Tests.MathTests.Add', protocol.V2.TestOutcomes.Passed)];
+        const reported = new Promise<protocol.V2.DotNetTestResult[]>(resolve => setTimeout(() => resolve(results), 10));
+
+        expect(await waitForDebuggedTestResults(reported, 1000)).to.equal(results);
+    });
+
+    test("The results of a debugged run are undefined if they aren't reported in time", async () => {
+        const reportedLate = new Promise<protocol.V2.DotNetTestResult[]>(resolve => setTimeout(() => resolve([]), 100));
+
+        expect(await waitForDebuggedTestResults(reportedLate, 10)).to.be.undefined;
+    });
+});
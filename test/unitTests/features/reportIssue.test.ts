@@ -104,6 +104,11 @@ suite(`${reportIssue.name}`, () => {
             expect(issueBody).to.contain(fakeMonoInfo.version);
         });
 
+        test("mono information is not in the body without a mono resolver", async () => {
+            await reportIssue(vscode, csharpExtVersion, eventStream, getDotnetInfo, isValidForMono, options, fakeDotnetResolver, undefined);
+            expect(issueBody).to.not.contain("Mono Information");
+        });
+
         test("mono information is not obtained when it is not a valid mono platform", async () => {
             await reportIssue(vscode, csharpExtVersion, eventStream, getDotnetInfo, false, options, fakeDotnetResolver, fakeMonoResolver);
             expect(fakeMonoResolver.getMonoCalled).to.be.equal(false);
@@ -0,0 +1,43 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { getApplicationUrl, isProjectProfile, parseLaunchSettingsProfiles } from '../../src/shared/launchSettings';
+import { expect } from 'chai';
+
+suite("LaunchSettings", () => {
+    test("Profiles are read in declaration order with their names", () => {
+        const content = `{
+    // Comments are allowed in launchSettings.json
+    "profiles": {
+        "Kestrel": {
+            "commandName": "Project",
+            "applicationUrl": "https://localhost:5001;http://localhost:5000",
+        },
+        "IIS Express": {
+            "commandName": "IISExpress"
+        }
+    }
+}`;
+        const profiles = parseLaunchSettingsProfiles(content);
+
+        expect(profiles.map(profile => profile.name)).to.deep.equal(["Kestrel", "IIS Express"]);
+        expect(profiles[0].applicationUrl).to.equal("https://localhost:5001;http://localhost:5000");
+        expect(profiles.filter(isProjectProfile).map(profile => profile.name)).to.deep.equal(["Kestrel"]);
+    });
+
+    test("Invalid content has no profiles", () => {
+        expect(parseLaunchSettingsProfiles("{ \"profiles\": ")).to.be.empty;
+        expect(parseLaunchSettingsProfiles("{ \"iisSettings\": {} }")).to.be.empty;
+    });
+
+    test("The preferred application URL scheme is used when available", () => {
+        const profile = { name: "https", applicationUrl: "http://localhost:5000; https://localhost:5001" };
+
+        expect(getApplicationUrl(profile, true)).to.equal("https://localhost:5001");
+        expect(getApplicationUrl(profile, false)).to.equal("http://localhost:5000");
+        expect(getApplicationUrl({ name: "http", applicationUrl: "http://localhost:5000" }, true)).to.equal("http://localhost:5000");
+        expect(getApplicationUrl({ name: "none" }, true)).to.be.undefined;
+    });
+});
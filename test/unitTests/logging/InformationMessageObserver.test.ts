@@ -55,6 +55,23 @@ suite("InformationMessageObserver", () => {
                 });
             });
 
+            suite('Auto Restore is enabled', () => {
+                setup(() => {
+                    updateConfig(vscode, 'csharp', 'suppressDotnetRestoreNotification', false);
+                    updateConfig(vscode, 'dotnet', 'restore.enableAutoRestore', true);
+                    optionObservable.next(Options.Read(vscode));
+                });
+
+                teardown(() => {
+                    updateConfig(vscode, 'dotnet', 'restore.enableAutoRestore', false);
+                });
+
+                test('The information message is not shown', () => {
+                    observer.post(elem.event);
+                    expect(infoMessage).to.be.undefined;
+                });
+            });
+
             suite('Suppress Dotnet Restore Notification is false', () => {
                 setup(() => {
                     updateConfig(vscode, 'csharp', 'suppressDotnetRestoreNotification', false);
@@ -0,0 +1,59 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { MetadataSourceCache } from '../../../src/lsptoolshost/metadataSourceCache';
+import { RoslynProtocol } from '../../../src/lsptoolshost/roslynProtocol';
+import { expect } from 'chai';
+
+function source(text: string, sourceLinkUri?: string): RoslynProtocol.MetadataSourceResult {
+    return { text, kind: sourceLinkUri !== undefined ? 'sourceLink' : 'decompiled', sourceLinkUri };
+}
+
+suite("MetadataSourceCache", () => {
+    test("The least recently added source is evicted when the cache is full", () => {
+        const cache = new MetadataSourceCache(2);
+
+        cache.set('csharp-metadata:/A.cs', source('class A {}'));
+        cache.set('csharp-metadata:/B.cs', source('class B {}'));
+        cache.set('csharp-metadata:/C.cs', source('class C {}'));
+
+        expect(cache.size).to.equal(2);
+        expect(cache.get('csharp-metadata:/A.cs')).to.equal(undefined);
+        expect(cache.get('csharp-metadata:/C.cs')?.text).to.equal('class C {}');
+    });
+
+    test("Getting a source keeps it over the sources used less recently", () => {
+        const cache = new MetadataSourceCache(2);
+        cache.set('csharp-metadata:/A.cs', source('class A {}'));
+        cache.set('csharp-metadata:/B.cs', source('class B {}'));
+
+        cache.get('csharp-metadata:/A.cs');
+        cache.set('csharp-metadata:/C.cs', source('class C {}'));
+
+        expect(cache.get('csharp-metadata:/A.cs')?.text).to.equal('class A {}');
+        expect(cache.get('csharp-metadata:/B.cs')).to.equal(undefined);
+    });
+
+    test("Only documents retrieved through Source Link have a Source Link location", () => {
+        const cache = new MetadataSourceCache(2);
+        cache.set('csharp-metadata:/A.cs', source('class A {}', 'https://example.com/src/A.cs'));
+        cache.set('csharp-metadata:/B.cs', source('class B {}'));
+
+        expect(cache.getSourceLinkUri('csharp-metadata:/A.cs')).to.equal('https://example.com/src/A.cs');
+        expect(cache.getSourceLinkUri('csharp-metadata:/B.cs')).to.equal(undefined);
+        expect(cache.getSourceLinkUri('csharp-metadata:/Unknown.cs')).to.equal(undefined);
+    });
+
+    test("Checking the Source Link location doesn't change which source is evicted", () => {
+        const cache = new MetadataSourceCache(2);
+        cache.set('csharp-metadata:/A.cs', source('class A {}', 'https://example.com/src/A.cs'));
+        cache.set('csharp-metadata:/B.cs', source('class B {}'));
+
+        cache.getSourceLinkUri('csharp-metadata:/A.cs');
+        cache.set('csharp-metadata:/C.cs', source('class C {}'));
+
+        expect(cache.getSourceLinkUri('csharp-metadata:/A.cs')).to.equal(undefined);
+    });
+});
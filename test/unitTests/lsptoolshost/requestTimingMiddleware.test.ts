@@ -0,0 +1,35 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { createRequestTimingMiddleware, timedRequestMethods } from '../../../src/lsptoolshost/requestTimingMiddleware';
+import { expect, use as chaiUse } from 'chai';
+
+chaiUse(require('chai-as-promised'));
+
+suite("RequestTimingMiddleware", () => {
+    test("Requests are made with the arguments of the middleware and timed by their method", async () => {
+        const completed: string[] = [];
+        const middleware = createRequestTimingMiddleware(method => completed.push(method));
+
+        const result = await middleware.provideHover('document', 'position', 'token', async (...args: string[]) => args.join(','));
+
+        expect(result).to.equal('document,position,token');
+        expect(completed).to.deep.equal(['textDocument/hover']);
+    });
+
+    test("Requests that fail are not reported", async () => {
+        const completed: string[] = [];
+        const middleware = createRequestTimingMiddleware(method => completed.push(method));
+
+        const request = middleware.provideDiagnostics('document', undefined, 'token', async () => { throw new Error('Request failed'); });
+
+        await expect(request).to.be.rejectedWith('Request failed');
+        expect(completed).to.be.empty;
+    });
+
+    test("There is a middleware for every timed method", () => {
+        expect(Object.keys(createRequestTimingMiddleware(() => { }))).to.deep.equal(Object.keys(timedRequestMethods));
+    });
+});
@@ -0,0 +1,46 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { appendLines, ServerCrashPolicy } from '../../../src/lsptoolshost/serverCrashPolicy';
+import { expect } from 'chai';
+
+suite("ServerCrashPolicy", () => {
+    test("The restart delay doubles with every crash", () => {
+        const policy = new ServerCrashPolicy();
+
+        const delays = [0, 1000, 2000, 3000].map(time => policy.recordCrash(time).restartDelay);
+
+        expect(delays).to.deep.equal([1000, 2000, 4000, 8000]);
+    });
+
+    test("The server is not restarted after too many crashes in a short time, and the count starts over", () => {
+        const policy = new ServerCrashPolicy();
+        for (let i = 0; i < ServerCrashPolicy.maxCrashes - 1; i++) {
+            policy.recordCrash(i * 1000);
+        }
+
+        expect(policy.recordCrash(10000)).to.deep.equal({ recentCrashes: ServerCrashPolicy.maxCrashes, restartDelay: undefined });
+        expect(policy.recordCrash(11000)).to.deep.equal({ recentCrashes: 1, restartDelay: ServerCrashPolicy.initialRestartDelay });
+    });
+
+    test("Crashes older than the crash window are not counted", () => {
+        const policy = new ServerCrashPolicy();
+        for (let i = 0; i < ServerCrashPolicy.maxCrashes - 1; i++) {
+            policy.recordCrash(i * 1000);
+        }
+
+        const result = policy.recordCrash(ServerCrashPolicy.crashWindow + 2500);
+
+        expect(result).to.deep.equal({ recentCrashes: 2, restartDelay: 2 * ServerCrashPolicy.initialRestartDelay });
+    });
+
+    test("Only the latest lines are kept", () => {
+        const lines = ['first'];
+
+        appendLines(lines, 'second\r\n\nthird\nfourth\n', 3);
+
+        expect(lines).to.deep.equal(['second', 'third', 'fourth']);
+    });
+});
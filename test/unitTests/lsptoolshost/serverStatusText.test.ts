@@ -0,0 +1,55 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ServerStateChange } from '../../../src/lsptoolshost/ServerStateChange';
+import { getServerStatusKind, getStatusBarText, getStatusDetail, getStatusText, ServerStatusKind } from '../../../src/lsptoolshost/serverStatusText';
+import { expect } from 'chai';
+
+suite("ServerStatusText", () => {
+    test("Server state changes map to the status shown", () => {
+        expect(getServerStatusKind(ServerStateChange.Starting)).to.equal(ServerStatusKind.Starting);
+        expect(getServerStatusKind(ServerStateChange.Started)).to.equal(ServerStatusKind.LoadingProjects);
+        expect(getServerStatusKind(ServerStateChange.ProjectInitializationComplete)).to.equal(ServerStatusKind.Ready);
+        expect(getServerStatusKind(ServerStateChange.Stopped)).to.equal(ServerStatusKind.Stopped);
+        expect(getServerStatusKind(ServerStateChange.Errored)).to.equal(ServerStatusKind.Errored);
+    });
+
+    test("The project load progress is shown while loading projects", () => {
+        const state = {
+            status: ServerStatusKind.LoadingProjects,
+            progress: { loadedProjectCount: 3, totalProjectCount: 10, currentProjectPath: '/src/App/App.csproj' },
+            failedProjectCount: 0
+        };
+
+        expect(getStatusBarText(state)).to.equal('$(sync~spin) C#: Loading 3/10');
+        expect(getStatusText(state)).to.equal('Loading 3 of 10 projects');
+        expect(getStatusDetail(state)).to.equal('Loading App.csproj');
+    });
+
+    test("Loading without progress is shown without counts", () => {
+        const state = { status: ServerStatusKind.LoadingProjects, progress: undefined, failedProjectCount: 0 };
+
+        expect(getStatusBarText(state)).to.equal('$(sync~spin) C#: Loading');
+        expect(getStatusText(state)).to.equal('Loading projects');
+        expect(getStatusDetail(state)).to.equal(undefined);
+    });
+
+    test("Projects that failed to load are shown once the server is ready", () => {
+        const ready = { status: ServerStatusKind.Ready, progress: undefined, failedProjectCount: 0 };
+        const readyWithFailures = { ...ready, failedProjectCount: 2 };
+
+        expect(getStatusBarText(ready)).to.equal('$(check) C#');
+        expect(getStatusBarText(readyWithFailures)).to.equal('$(warning) C#: 2 failed');
+        expect(getStatusDetail(readyWithFailures)).to.equal('2 project(s) failed to load');
+    });
+
+    test("A server that stopped unexpectedly points to the output", () => {
+        const state = { status: ServerStatusKind.Errored, progress: undefined, failedProjectCount: 0 };
+
+        expect(getStatusBarText(state)).to.equal('$(error) C#: Error');
+        expect(getStatusText(state)).to.equal('The language server stopped unexpectedly');
+        expect(getStatusDetail(state)).to.equal('See the output for more information');
+    });
+});
@@ -0,0 +1,53 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { getProjectFilesExcludePattern, getRememberedWorkspaceTargets, rememberWorkspaceTargets, WorkspaceState } from '../../../src/lsptoolshost/workspaceTargets';
+import { expect } from 'chai';
+
+class FakeWorkspaceState implements WorkspaceState {
+    private _values = new Map<string, any>();
+
+    public get<T>(key: string): T | undefined {
+        return this._values.get(key);
+    }
+
+    public async update(key: string, value: any): Promise<void> {
+        this._values.set(key, value);
+    }
+}
+
+suite("WorkspaceTargets", () => {
+    test("Nothing is remembered for a workspace the user never picked targets for", () => {
+        expect(getRememberedWorkspaceTargets(new FakeWorkspaceState(), () => true)).to.equal(undefined);
+    });
+
+    test("The remembered targets that still exist are returned", async () => {
+        const workspaceState = new FakeWorkspaceState();
+        await rememberWorkspaceTargets(workspaceState, { solutionPaths: ['/src/App.sln', '/src/Deleted.sln'], projectPaths: ['/src/Tool/Tool.csproj'] });
+
+        const targets = getRememberedWorkspaceTargets(workspaceState, filePath => filePath !== '/src/Deleted.sln');
+
+        expect(targets).to.deep.equal({ solutionPaths: ['/src/App.sln'], projectPaths: ['/src/Tool/Tool.csproj'] });
+    });
+
+    test("Nothing is remembered once none of the remembered targets exist", async () => {
+        const workspaceState = new FakeWorkspaceState();
+        await rememberWorkspaceTargets(workspaceState, { solutionPaths: [], projectPaths: ['/src/Tool/Tool.csproj'] });
+
+        expect(getRememberedWorkspaceTargets(workspaceState, () => false)).to.equal(undefined);
+    });
+
+    test("A new choice replaces the remembered targets", async () => {
+        const workspaceState = new FakeWorkspaceState();
+        await rememberWorkspaceTargets(workspaceState, { solutionPaths: ['/src/App.sln'], projectPaths: [] });
+        await rememberWorkspaceTargets(workspaceState, { solutionPaths: [], projectPaths: ['/src/Tool/Tool.csproj'] });
+
+        expect(getRememberedWorkspaceTargets(workspaceState, () => true)).to.deep.equal({ solutionPaths: [], projectPaths: ['/src/Tool/Tool.csproj'] });
+    });
+
+    test("Build outputs, packages and excluded folders are left out when looking for projects", () => {
+        expect(getProjectFilesExcludePattern(['**/.git', 'samples'])).to.equal('{**/node_modules/**,**/bin/**,**/obj/**,**/.git,**/.git/**,samples,samples/**}');
+    });
+});
@@ -0,0 +1,74 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import { findDirectoryPackagesProps, findPackageReferences, parseRestoreOutput } from '../../src/shared/nugetDiagnostics';
+import { expect } from 'chai';
+
+suite("NuGetDiagnostics", () => {
+    test("Errors and warnings are read from the restore output once", () => {
+        const output = `  Determining projects to restore...
+/src/app/app.csproj : error NU1101: Unable to find package Missing.Package. No packages exist with this id in source(s): nuget.org [/src/app/app.csproj]
+/src/app/app.csproj : warning NU1603: app depends on Foo (>= 1.0.0) but Foo 1.0.0 was not found. An approximate best match of Foo 1.0.1 was resolved. [/src/app/app.csproj]
+/src/app/app.csproj : error NU1101: Unable to find package Missing.Package. No packages exist with this id in source(s): nuget.org [/src/app/app.csproj]
+/usr/share/dotnet/sdk/7.0.100/NuGet.targets(132,5): error NU1301: Unable to load the service index for source https://example.com/index.json. [/src/lib/lib.csproj]
+  Failed to restore /src/app/app.csproj (in 1.2 sec).
+/src/app/Program.cs(1,1): error CS1002: ; expected [/src/app/app.csproj]`;
+
+        expect(parseRestoreOutput(output)).to.deep.equal([
+            { projectPath: "/src/app/app.csproj", severity: "error", code: "NU1101", message: "Unable to find package Missing.Package. No packages exist with this id in source(s): nuget.org" },
+            { projectPath: "/src/app/app.csproj", severity: "warning", code: "NU1603", message: "app depends on Foo (>= 1.0.0) but Foo 1.0.0 was not found. An approximate best match of Foo 1.0.1 was resolved." },
+            { projectPath: "/src/lib/lib.csproj", severity: "error", code: "NU1301", message: "Unable to load the service index for source https://example.com/index.json." },
+        ]);
+    });
+
+    test("Windows paths are read from the restore output", () => {
+        const output = `C:\\src\\app\\app.csproj : error NU1102: Unable to find package Foo with version (>= 9.0.0)`;
+
+        expect(parseRestoreOutput(output)).to.deep.equal([
+            { projectPath: "C:\\src\\app\\app.csproj", severity: "error", code: "NU1102", message: "Unable to find package Foo with version (>= 9.0.0)" }
+        ]);
+    });
+
+    test("The package references named in a message are found", () => {
+        const content = `<Project Sdk="Microsoft.NET.Sdk">
+  <ItemGroup>
+    <PackageReference Include="Foo" Version="1.0.0" />
+    <PackageReference Include="Foo.Bar" Version="1.0.0" />
+    <PackageReference
+        Include="Missing.Package"
+        Version="1.0.0" />
+  </ItemGroup>
+</Project>`;
+
+        expect(findPackageReferences(content, "Unable to find package Missing.Package. No packages exist with this id")).to.deep.equal([
+            { packageId: "Missing.Package", line: 5, startCharacter: 17, endCharacter: 32 }
+        ]);
+        expect(findPackageReferences(content, "Unable to find package foo.")).to.deep.equal([
+            { packageId: "Foo", line: 2, startCharacter: 31, endCharacter: 34 }
+        ]);
+        expect(findPackageReferences(content, "Unable to load the service index for source https://example.com/index.json.")).to.be.empty;
+    });
+
+    test("The package versions of central package management are found", () => {
+        const content = `<Project>
+  <ItemGroup>
+    <PackageVersion Include='Foo' Version='1.0.0' />
+  </ItemGroup>
+</Project>`;
+
+        expect(findPackageReferences(content, "Detected package downgrade: Foo from 2.0.0 to 1.0.0.")).to.deep.equal([
+            { packageId: "Foo", line: 2, startCharacter: 29, endCharacter: 32 }
+        ]);
+    });
+
+    test("The closest Directory.Packages.props file declares the package versions of a project", () => {
+        const projectPath = path.join('/src', 'app', 'app.csproj');
+        const propsFiles = [path.join('/src', 'Directory.Packages.props'), path.join('/Directory.Packages.props')];
+
+        expect(findDirectoryPackagesProps(projectPath, filePath => propsFiles.includes(filePath))).to.equal(propsFiles[0]);
+        expect(findDirectoryPackagesProps(projectPath, () => false)).to.equal(undefined);
+    });
+});
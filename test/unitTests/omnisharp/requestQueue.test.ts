@@ -0,0 +1,205 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as protocol from "../../../src/omnisharp/protocol";
+import { expect } from "chai";
+import { EventStream } from "../../../src/EventStream";
+import { OmnisharpServerDequeueRequest } from "../../../src/omnisharp/loggingEvents";
+import { RequestPrioritizer } from "../../../src/omnisharp/prioritization";
+import { Request, RequestQueueCollection } from "../../../src/omnisharp/requestQueue";
+import TestEventBus from "../testAssets/TestEventBus";
+
+suite(`${RequestQueueCollection.name}`, () => {
+    let eventStream: EventStream;
+    let eventBus: TestEventBus;
+    let sent: Request[];
+    let queues: RequestQueueCollection;
+
+    const makeRequest = (command: string, fileName: string, errors: any[] = [], results: any[] = [], line = 0): Request => ({
+        command,
+        data: { FileName: fileName, Line: line },
+        onSuccess: value => results.push(value),
+        onError: err => errors.push(err)
+    });
+
+    setup(() => {
+        eventStream = new EventStream();
+        eventBus = new TestEventBus(eventStream);
+        sent = [];
+        queues = new RequestQueueCollection(eventStream, 1, request => {
+            sent.push(request);
+            return sent.length;
+        });
+    });
+
+    teardown(() => {
+        eventBus.dispose();
+    });
+
+    test('A buffer change supersedes pending requests for the same file', () => {
+        const errors: any[] = [];
+
+        // Occupy the normal queue so the following completion stays pending.
+        queues.enqueue(makeRequest(protocol.Requests.FindUsages, 'a.cs'));
+        queues.enqueue(makeRequest(protocol.Requests.Completion, 'a.cs', errors));
+        queues.enqueue(makeRequest(protocol.Requests.ChangeBuffer, 'a.cs'));
+
+        expect(errors).to.have.lengthOf(1);
+        expect(sent.map(r => r.command)).to.not.include(protocol.Requests.Completion);
+
+        const superseded = eventBus.getEvents().filter(e => e instanceof OmnisharpServerDequeueRequest && e.queueStatus === 'superseded');
+        expect(superseded).to.deep.equal([new OmnisharpServerDequeueRequest('Normal', 'superseded', protocol.Requests.Completion)]);
+    });
+
+    test('A buffer change does not supersede requests for other files', () => {
+        const errors: any[] = [];
+
+        queues.enqueue(makeRequest(protocol.Requests.FindUsages, 'a.cs'));
+        queues.enqueue(makeRequest(protocol.Requests.Completion, 'b.cs', errors));
+        queues.enqueue(makeRequest(protocol.Requests.ChangeBuffer, 'a.cs'));
+
+        expect(errors).to.be.empty;
+        expect(queues.getStats().find(s => s.name === 'Normal')!.pending).to.equal(1);
+    });
+
+    test('Stats count completed and superseded requests', () => {
+        queues.enqueue(makeRequest(protocol.Requests.FindUsages, 'a.cs'));
+        queues.enqueue(makeRequest(protocol.Requests.Completion, 'a.cs'));
+        queues.enqueue(makeRequest(protocol.Requests.ChangeBuffer, 'a.cs'));
+
+        queues.dequeue(protocol.Requests.FindUsages, 1);
+
+        const normal = queues.getStats().find(s => s.name === 'Normal')!;
+        expect(normal.completed).to.equal(1);
+        expect(normal.superseded).to.equal(1);
+        expect(normal.pending).to.equal(0);
+    });
+
+    test('Identical pending requests share the result of the newest one', () => {
+        const olderResults: any[] = [];
+        const newerResults: any[] = [];
+
+        // Occupy the deferred queue so the following requests stay pending.
+        queues.enqueue(makeRequest(protocol.Requests.CodeFormat, 'b.cs'));
+        queues.enqueue(makeRequest(protocol.Requests.CodeFormat, 'c.cs'));
+        queues.enqueue(makeRequest(protocol.V2.Requests.BlockStructure, 'a.cs', [], olderResults));
+        queues.enqueue(makeRequest(protocol.V2.Requests.BlockStructure, 'a.cs', [], newerResults));
+
+        expect(queues.getStats().find(s => s.name === 'Deferred')!.pending).to.equal(1);
+
+        queues.dequeue(protocol.Requests.CodeFormat, 1);
+        queues.drain();
+        queues.dequeue(protocol.V2.Requests.BlockStructure, 3)!.onSuccess('result');
+
+        expect(olderResults).to.deep.equal(['result']);
+        expect(newerResults).to.deep.equal(['result']);
+    });
+
+    test('Pending requests for an older cursor position are rejected', () => {
+        const errors: any[] = [];
+
+        queues.enqueue(makeRequest(protocol.Requests.FindUsages, 'a.cs'));
+        queues.enqueue(makeRequest(protocol.Requests.SignatureHelp, 'a.cs', errors, [], 1));
+        queues.enqueue(makeRequest(protocol.Requests.SignatureHelp, 'a.cs', [], [], 2));
+
+        expect(errors).to.have.lengthOf(1);
+        expect(queues.getStats().find(s => s.name === 'Normal')!.pending).to.equal(1);
+        expect(eventBus.getEvents()).to.deep.include(new OmnisharpServerDequeueRequest('Normal', 'superseded', protocol.Requests.SignatureHelp));
+    });
+
+    test('Only requests with the same command, file and position are serialized to compare them', () => {
+        const blockStructureA = makeRequest(protocol.V2.Requests.BlockStructure, 'a.cs');
+        const blockStructureB = makeRequest(protocol.V2.Requests.BlockStructure, 'b.cs');
+        const signatureHelp = makeRequest(protocol.Requests.SignatureHelp, 'a.cs', [], [], 1);
+        const newerSignatureHelp = makeRequest(protocol.Requests.SignatureHelp, 'a.cs', [], [], 2);
+
+        queues.enqueue(makeRequest(protocol.Requests.CodeFormat, 'c.cs'));
+        queues.enqueue(makeRequest(protocol.Requests.FindUsages, 'a.cs'));
+        queues.enqueue(blockStructureA);
+        queues.enqueue(blockStructureB);
+        queues.enqueue(signatureHelp);
+        queues.enqueue(newerSignatureHelp);
+
+        expect([blockStructureA, blockStructureB, signatureHelp, newerSignatureHelp].map(r => r.serializedData)).to.deep.equal([undefined, undefined, undefined, undefined]);
+    });
+
+    test('A cancelled request that was coalesced into another one does not get its result', () => {
+        const olderResults: any[] = [];
+        const newerResults: any[] = [];
+        const older = makeRequest(protocol.V2.Requests.BlockStructure, 'a.cs', [], olderResults);
+
+        queues.enqueue(makeRequest(protocol.Requests.CodeFormat, 'b.cs'));
+        queues.enqueue(makeRequest(protocol.Requests.CodeFormat, 'c.cs'));
+        queues.enqueue(older);
+        queues.enqueue(makeRequest(protocol.V2.Requests.BlockStructure, 'a.cs', [], newerResults));
+        queues.cancelRequest(older);
+
+        queues.dequeue(protocol.Requests.CodeFormat, 1);
+        queues.drain();
+        queues.dequeue(protocol.V2.Requests.BlockStructure, sent.length)!.onSuccess('result');
+
+        expect(olderResults).to.be.empty;
+        expect(newerResults).to.deep.equal(['result']);
+    });
+
+    test('Cancelling a request makes one of the requests coalesced into it again for all of them', () => {
+        const errors: any[] = [];
+        const oldestResults: any[] = [];
+        const olderResults: any[] = [];
+        const newerResults: any[] = [];
+        const older = makeRequest(protocol.V2.Requests.BlockStructure, 'a.cs', errors, olderResults);
+        const newer = makeRequest(protocol.V2.Requests.BlockStructure, 'a.cs', errors, newerResults);
+
+        queues.enqueue(makeRequest(protocol.Requests.CodeFormat, 'b.cs'));
+        queues.enqueue(makeRequest(protocol.Requests.CodeFormat, 'c.cs'));
+        queues.enqueue(makeRequest(protocol.V2.Requests.BlockStructure, 'a.cs', errors, oldestResults));
+        queues.enqueue(older);
+        queues.enqueue(newer);
+        queues.cancelRequest(newer);
+
+        expect(errors).to.be.empty;
+        expect(queues.getStats().find(s => s.name === 'Deferred')!.pending).to.equal(1);
+
+        queues.dequeue(protocol.Requests.CodeFormat, 1);
+        queues.drain();
+        expect(sent[sent.length - 1]).to.equal(older);
+        queues.dequeue(protocol.V2.Requests.BlockStructure, sent.length)!.onSuccess('result');
+
+        expect(oldestResults).to.deep.equal(['result']);
+        expect(olderResults).to.deep.equal(['result']);
+        expect(newerResults).to.be.empty;
+        expect(errors).to.be.empty;
+    });
+});
+
+suite(`${RequestPrioritizer.name}`, () => {
+    test('Consistently slow normal commands are demoted and later promoted', () => {
+        const prioritizer = new RequestPrioritizer();
+
+        for (let i = 0; i < 5; i++) {
+            prioritizer.reportDelay(protocol.Requests.FindUsages, 5000);
+        }
+
+        expect(prioritizer.isNormalCommand(protocol.Requests.FindUsages)).to.be.false;
+        expect(prioritizer.isDemotedCommand(protocol.Requests.FindUsages)).to.be.true;
+
+        for (let i = 0; i < 30; i++) {
+            prioritizer.reportDelay(protocol.Requests.FindUsages, 10);
+        }
+
+        expect(prioritizer.isNormalCommand(protocol.Requests.FindUsages)).to.be.true;
+    });
+
+    test('Interactive commands are never demoted', () => {
+        const prioritizer = new RequestPrioritizer();
+
+        for (let i = 0; i < 5; i++) {
+            prioritizer.reportDelay(protocol.Requests.Completion, 5000);
+        }
+
+        expect(prioritizer.isNormalCommand(protocol.Requests.Completion)).to.be.true;
+        expect(prioritizer.isInteractiveLatencyHigh()).to.be.true;
+    });
+});
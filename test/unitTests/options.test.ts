@@ -19,6 +19,7 @@ suite("Options tests", () => {
         options.omnisharpOptions.monoPath.should.equal("");
         options.commonOptions.defaultSolution.should.equal("");
         options.commonOptions.waitForDebugger.should.equal(false);
+        options.commonOptions.enableAutoRestore.should.equal(false);
         options.omnisharpOptions.loggingLevel.should.equal("information");
         options.omnisharpOptions.autoStart.should.equal(true);
         options.omnisharpOptions.projectLoadTimeout.should.equal(60);
@@ -0,0 +1,65 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { parseProjectFile } from '../../src/shared/projectFile';
+import { expect } from 'chai';
+
+suite("ProjectFile", () => {
+    test("Target frameworks and references are read", () => {
+        const content = `<Project Sdk="Microsoft.NET.Sdk">
+  <PropertyGroup>
+    <TargetFrameworks>net6.0; net7.0;$(ExtraTargetFrameworks)</TargetFrameworks>
+  </PropertyGroup>
+  <ItemGroup>
+    <PackageReference Include="Foo" Version="1.0.0" />
+    <PackageReference Include="Bar">
+      <Version>2.0.0</Version>
+    </PackageReference>
+    <!-- <PackageReference Include="Commented" Version="1.0.0" /> -->
+    <ProjectReference Include="..\\Lib\\Lib.csproj" />
+  </ItemGroup>
+  <ItemGroup Condition="'$(TargetFramework)' == 'net6.0'">
+    <PackageReference Include="Polyfill" Version="3.0.0" />
+  </ItemGroup>
+  <ItemGroup>
+    <ProjectReference Include="..\\Net7\\Net7.csproj" Condition=" '$(TargetFramework)' == 'net7.0' " />
+  </ItemGroup>
+</Project>`;
+
+        expect(parseProjectFile(content)).to.deep.equal({
+            targetFrameworks: ["net6.0", "net7.0"],
+            packageReferences: [
+                { id: "Foo", version: "1.0.0", targetFramework: undefined },
+                { id: "Bar", version: "2.0.0", targetFramework: undefined },
+                { id: "Polyfill", version: "3.0.0", targetFramework: "net6.0" },
+            ],
+            projectReferences: [
+                { path: "..\\Lib\\Lib.csproj", targetFramework: undefined },
+                { path: "..\\Net7\\Net7.csproj", targetFramework: "net7.0" },
+            ]
+        });
+    });
+
+    test("A single target framework is read", () => {
+        const content = `<Project Sdk="Microsoft.NET.Sdk">
+  <PropertyGroup>
+    <TargetFramework>net7.0</TargetFramework>
+  </PropertyGroup>
+  <ItemGroup>
+    <PackageReference Include="Foo" />
+  </ItemGroup>
+</Project>`;
+
+        expect(parseProjectFile(content)).to.deep.equal({
+            targetFrameworks: ["net7.0"],
+            packageReferences: [{ id: "Foo", version: undefined, targetFramework: undefined }],
+            projectReferences: []
+        });
+    });
+
+    test("Projects without frameworks or references are empty", () => {
+        expect(parseProjectFile(`<Project Sdk="Microsoft.NET.Sdk" />`)).to.deep.equal({ targetFrameworks: [], packageReferences: [], projectReferences: [] });
+    });
+});
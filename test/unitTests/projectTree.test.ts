@@ -0,0 +1,90 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import { getTargetFrameworkReferences, groupDocumentsByFolder, groupProjectsBySolution } from '../../src/shared/projectTree';
+import { ProjectDebugInformation } from '../../src/shared/IWorkspaceDebugInformationProvider';
+import { ProjectFileInformation } from '../../src/shared/projectFile';
+import { expect } from 'chai';
+
+suite("ProjectTree", () => {
+    test("Projects are grouped by their solution and sorted by name", () => {
+        const web = createProject(path.join('/src', 'Web', 'Web.csproj'), path.join('/src', 'App.sln'));
+        const core = createProject(path.join('/src', 'Core', 'Core.csproj'), path.join('/src', 'App.sln'));
+        const tool = createProject(path.join('/tools', 'Tool', 'Tool.csproj'), null);
+
+        const nodes = groupProjectsBySolution([web, tool, core], /*defaultSolutionPath*/ undefined);
+
+        expect(nodes.solutions).to.deep.equal([{ solutionPath: path.join('/src', 'App.sln'), projects: [core, web] }]);
+        expect(nodes.projects).to.deep.equal([tool]);
+    });
+
+    test("Projects without a solution belong to the solution the server loaded", () => {
+        const web = createProject(path.join('/src', 'Web', 'Web.csproj'), null);
+        const core = createProject(path.join('/src', 'Core', 'Core.csproj'), null);
+
+        const nodes = groupProjectsBySolution([web, core], path.join('/src', 'App.sln'));
+
+        expect(nodes.solutions).to.deep.equal([{ solutionPath: path.join('/src', 'App.sln'), projects: [core, web] }]);
+        expect(nodes.projects).to.be.empty;
+    });
+
+    test("The references of a target framework include those of all target frameworks", () => {
+        const projectFile: ProjectFileInformation = {
+            targetFrameworks: ['net6.0', 'net7.0'],
+            packageReferences: [
+                { id: 'Common', version: '1.0.0', targetFramework: undefined },
+                { id: 'Legacy', version: '1.0.0', targetFramework: 'NET6.0' }
+            ],
+            projectReferences: [
+                { path: '..\\Core\\Core.csproj', targetFramework: 'net7.0' }
+            ]
+        };
+
+        expect(getTargetFrameworkReferences(projectFile, 'net6.0')).to.deep.equal({
+            packageReferences: projectFile.packageReferences,
+            projectReferences: []
+        });
+        expect(getTargetFrameworkReferences(projectFile, 'net7.0')).to.deep.equal({
+            packageReferences: [projectFile.packageReferences[0]],
+            projectReferences: projectFile.projectReferences
+        });
+        expect(getTargetFrameworkReferences(projectFile, undefined)).to.deep.equal({
+            packageReferences: projectFile.packageReferences,
+            projectReferences: projectFile.projectReferences
+        });
+    });
+
+    test("Documents are split into the folders they are in", () => {
+        const folderPath = path.join('/src', 'Web');
+        const program = path.join(folderPath, 'Program.cs');
+        const app = path.join(folderPath, 'App.razor');
+        const index = path.join(folderPath, 'Pages', 'Index.razor');
+        const layout = path.join(folderPath, 'Shared', 'Layout', 'MainLayout.razor');
+        const counter = path.join(folderPath, 'Pages', 'Counter.razor');
+
+        expect(groupDocumentsByFolder(folderPath, [program, index, layout, app, counter])).to.deep.equal({
+            folders: [
+                { folderPath: path.join(folderPath, 'Pages'), documentPaths: [index, counter] },
+                { folderPath: path.join(folderPath, 'Shared'), documentPaths: [layout] }
+            ],
+            documentPaths: [app, program]
+        });
+    });
+});
+
+function createProject(projectPath: string, solutionPath: string | null): ProjectDebugInformation {
+    return {
+        projectPath,
+        projectName: path.parse(projectPath).name,
+        outputPath: path.join(path.dirname(projectPath), 'bin', 'Debug', 'net7.0', `${path.parse(projectPath).name}.dll`),
+        targetsDotnetCore: true,
+        isExe: true,
+        isWebProject: false,
+        isBlazorWebAssemblyHosted: false,
+        isBlazorWebAssemblyStandalone: false,
+        solutionPath
+    };
+}
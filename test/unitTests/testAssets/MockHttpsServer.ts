@@ -14,7 +14,7 @@ export default class MockHttpsServer {
     constructor(private server: any, public readonly baseUrl: string) {
     }
 
-    public addRequestHandler(method: string, path: string, reply_status: number, reply_headers?: any, reply_body?: any) {
+    public addRequestHandler(method: string, path: string, reply_status: number | ((request: any) => number), reply_headers?: any, reply_body?: any) {
         this.server.on({
             method,
             path,
@@ -140,6 +140,11 @@ declare module "vscode-tasks" {
          */
         isBackground?: boolean;
 
+        /**
+         * The labels of the tasks that have to run before this task.
+         */
+        dependsOn?: string | string[];
+
         /**
          * Additional arguments passed to the command. Should be used if type
          * is "process".